@@ -1,9 +1,185 @@
 import { NextResponse } from "next/server"
+import { readImageSize } from "@/lib/image-size"
+import { NODE_DECODERS, prepareNodeCodecs } from "@/lib/node-codecs"
+import { DEFAULT_FORMAT_OPTIONS } from "@/lib/output-formats"
+import { PipelineError, compressImage } from "@/lib/pipeline"
+import { DEFAULT_RESAMPLE_SETTINGS } from "@/lib/resampling"
+import { SOURCE_FORMATS, detectSourceFormat } from "@/lib/source-formats"
 
-export async function POST() {
-  // This endpoint is no longer needed as compression is handled client-side
-  return NextResponse.json(
-    { error: "This endpoint is deprecated. Compression is handled client-side." },
-    { status: 410 },
-  )
+export const runtime = "nodejs"
+
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024
+const MAX_DIMENSION = 16384
+// Checked against the header before decoding, since a small file can hold a huge image.
+const MAX_SOURCE_PIXELS = 50_000_000
+const DEFAULT_QUALITY = 75
+
+type ErrorCode =
+  | "missing_file"
+  | "file_too_large"
+  | "image_too_large"
+  | "unsupported_format"
+  | "invalid_parameter"
+  | "decode_failed"
+  | "encode_failed"
+
+const errorResponse = (status: number, code: ErrorCode, message: string, field?: string) =>
+  NextResponse.json({ error: { code, message, ...(field && { field }) } }, { status })
+
+class ParameterError extends Error {
+  constructor(
+    readonly field: string,
+    message: string,
+  ) {
+    super(message)
+  }
+}
+
+const parseIntegerParam = (field: string, raw: string | null, min: number, max: number): number | undefined => {
+  if (raw === null || raw.trim() === "") return undefined
+  const value = Number(raw)
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new ParameterError(field, `${field} must be an integer between ${min} and ${max}`)
+  }
+  return value
+}
+
+class UploadTooLargeError extends Error {}
+
+// Content-Length can be missing or wrong, so the limit is enforced on the bytes as they arrive.
+const readBody = async (request: Request): Promise<ArrayBuffer> => {
+  if (!request.body) return new ArrayBuffer(0)
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.byteLength
+    if (total > MAX_UPLOAD_BYTES) {
+      await reader.cancel()
+      throw new UploadTooLargeError()
+    }
+    chunks.push(value)
+  }
+
+  const body = new Uint8Array(total)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return body.buffer
+}
+
+const readUpload = async (request: Request): Promise<{ buffer: ArrayBuffer | null; params: URLSearchParams }> => {
+  const params = new URL(request.url).searchParams
+  const contentType = request.headers.get("content-type") ?? ""
+  const body = await readBody(request)
+
+  if (!contentType.startsWith("multipart/form-data")) {
+    return { buffer: body, params }
+  }
+
+  const form = await new Response(body, { headers: { "content-type": contentType } }).formData()
+  for (const field of ["quality", "width", "height"]) {
+    const value = form.get(field)
+    if (typeof value === "string") params.set(field, value)
+  }
+  const file = form.get("file") ?? form.get("image")
+  return { buffer: file instanceof Blob ? await file.arrayBuffer() : null, params }
+}
+
+export async function POST(request: Request) {
+  const declaredLength = Number(request.headers.get("content-length"))
+  if (declaredLength > MAX_UPLOAD_BYTES) {
+    return errorResponse(413, "file_too_large", `Uploads are limited to ${MAX_UPLOAD_BYTES} bytes`)
+  }
+
+  let upload: Awaited<ReturnType<typeof readUpload>>
+  try {
+    upload = await readUpload(request)
+  } catch (error) {
+    if (error instanceof UploadTooLargeError) {
+      return errorResponse(413, "file_too_large", `Uploads are limited to ${MAX_UPLOAD_BYTES} bytes`)
+    }
+    return errorResponse(400, "missing_file", "Could not read the request body")
+  }
+
+  const { buffer, params } = upload
+  if (!buffer || buffer.byteLength === 0) {
+    return errorResponse(400, "missing_file", "Send the image as the raw body or as a multipart \"file\" field", "file")
+  }
+  if (buffer.byteLength > MAX_UPLOAD_BYTES) {
+    return errorResponse(413, "file_too_large", `Uploads are limited to ${MAX_UPLOAD_BYTES} bytes`, "file")
+  }
+
+  let quality: number
+  let width: number | undefined
+  let height: number | undefined
+  try {
+    quality = parseIntegerParam("quality", params.get("quality"), 1, 100) ?? DEFAULT_QUALITY
+    width = parseIntegerParam("width", params.get("width"), 1, MAX_DIMENSION)
+    height = parseIntegerParam("height", params.get("height"), 1, MAX_DIMENSION)
+  } catch (error) {
+    if (error instanceof ParameterError) {
+      return errorResponse(400, "invalid_parameter", error.message, error.field)
+    }
+    throw error
+  }
+
+  const format = detectSourceFormat(buffer)
+  if (!format || !NODE_DECODERS.includes(SOURCE_FORMATS[format].decoder)) {
+    return errorResponse(
+      415,
+      "unsupported_format",
+      "Supported input formats are JPEG, PNG, WebP, AVIF, JPEG XL, HEIC and TIFF",
+      "file",
+    )
+  }
+
+  const size = readImageSize(buffer)
+  if (!size) {
+    return errorResponse(422, "decode_failed", `The ${SOURCE_FORMATS[format].label} header could not be read`, "file")
+  }
+  if (size.width * size.height > MAX_SOURCE_PIXELS) {
+    return errorResponse(
+      413,
+      "image_too_large",
+      `Images are limited to ${MAX_SOURCE_PIXELS} pixels; this one is ${size.width} × ${size.height}`,
+      "file",
+    )
+  }
+
+  try {
+    await prepareNodeCodecs({ decode: [format], encode: ["avif"] })
+    // Output carries no metadata, so orientation and wide-gamut colour are baked into the pixels.
+    const avif = await compressImage(buffer, {
+      metadata: { keepAuthor: false, keepIcc: false },
+      decoders: NODE_DECODERS,
+      resample: DEFAULT_RESAMPLE_SETTINGS,
+      width,
+      height,
+      encoder: { format: "avif", quality, preview: false, options: DEFAULT_FORMAT_OPTIONS },
+    })
+
+    return new NextResponse(avif.buffer, {
+      status: 200,
+      headers: {
+        "Content-Type": "image/avif",
+        "Content-Length": String(avif.buffer.byteLength),
+        "X-Image-Width": String(avif.width),
+        "X-Image-Height": String(avif.height),
+        "X-Original-Size": String(buffer.byteLength),
+        "X-Compressed-Size": String(avif.buffer.byteLength),
+      },
+    })
+  } catch (error) {
+    if (error instanceof PipelineError && error.stage === "decode") {
+      console.error("Error decoding upload:", error)
+      return errorResponse(422, "decode_failed", `The ${SOURCE_FORMATS[format].label} image could not be decoded`, "file")
+    }
+    console.error("Error encoding AVIF:", error)
+    return errorResponse(500, "encode_failed", "AVIF encoding failed")
+  }
 }
@@ -1,6 +1,9 @@
 import type { Metadata } from 'next'
+import { cookies, headers } from 'next/headers'
 import { Geist, Geist_Mono } from 'next/font/google'
 import { Analytics } from '@vercel/analytics/next'
+import { LocaleProvider } from '@/components/locale-provider'
+import { LOCALE_COOKIE, isLocale, matchLocale, parseAcceptLanguage } from '@/lib/i18n'
 import './globals.css'
 
 const _geist = Geist({ subsets: ["latin"] });
@@ -12,15 +15,19 @@ export const metadata: Metadata = {
   generator: 'v0.app',
 }
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode
 }>) {
+  // The saved choice wins; otherwise the browser's preferred languages decide.
+  const saved = (await cookies()).get(LOCALE_COOKIE)?.value
+  const locale = isLocale(saved) ? saved : matchLocale(parseAcceptLanguage((await headers()).get('accept-language')))
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body className={`font-sans antialiased`}>
-        {children}
+        <LocaleProvider initialLocale={locale}>{children}</LocaleProvider>
         <Analytics />
       </body>
     </html>
@@ -0,0 +1,321 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+import { parseArgs } from "node:util"
+import { Worker } from "node:worker_threads"
+import { collectInputs } from "./inputs"
+import type { CompressResponse, CompressTask } from "./worker"
+import {
+  DEFAULT_FILENAME_TEMPLATE,
+  FILENAME_TOKENS,
+  hashBlob,
+  renderFilename,
+  templateUsesHash,
+  uniqueFilename,
+} from "@/lib/filenames"
+import { formatSize } from "@/lib/format"
+import { OUTPUT_FORMATS, isOutputFormat } from "@/lib/output-formats"
+import { DEFAULT_PRESET_SETTINGS, builtInPresets, parsePresetFile, type PresetSettings } from "@/lib/presets"
+
+const EXIT_OK = 0
+const EXIT_FAILED = 1
+const EXIT_USAGE = 2
+const EXIT_NO_INPUT = 3
+const EXIT_TARGET_MISSED = 4
+
+const MAX_DIMENSION = 16384
+
+const USAGE = `Usage: pnpm aviff compress <input...> --out <dir> [options]
+
+Inputs can be files, directories or glob patterns. Quote globs so the shell
+leaves them alone: "photos/**/*.{jpg,png}".
+
+Options:
+  -o, --out <dir>          Output directory; the input folder structure is kept
+  -r, --recursive          Also read the subdirectories of directory inputs
+  -f, --format <format>    ${Object.keys(OUTPUT_FORMATS).join(", ")} (default: avif)
+  -q, --quality <1-100>    Encoder quality (default: 75)
+  -w, --width <px>         Output width; the height follows the aspect ratio if omitted
+      --height <px>        Output height; the width follows the aspect ratio if omitted
+      --target-size <KB>   Use the highest quality whose output fits in this many KB
+      --allow-downscale    Shrink images that don't fit the target size at minimum quality
+      --keep-icc           Keep the ICC profile instead of converting to sRGB
+      --keep-author        Keep the EXIF author and copyright
+  -p, --preset <preset>    A built-in preset (${builtInPresets()
+    .map((preset) => preset.id)
+    .join(", ")}) or a preset export (.json); flags override it
+      --preset-name <name> Which preset to use when the .json file holds several
+  -n, --name <template>    Output file name (default: ${DEFAULT_FILENAME_TEMPLATE})
+                           Tokens: ${FILENAME_TOKENS.map((token) => `{${token}}`).join(" ")}
+  -j, --jobs <n>           Images compressed in parallel (default: number of CPUs)
+      --dry-run            Compress in memory and print the size report without writing
+      --help               Show this help
+
+Exit codes:
+  0  every image was compressed
+  1  one or more images failed
+  2  invalid arguments or preset
+  3  no input images were found
+  4  every image was compressed, but some didn't fit --target-size`
+
+class UsageError extends Error {}
+
+const parseInteger = (flag: string, raw: string, min: number, max: number) => {
+  const value = Number(raw)
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new UsageError(`--${flag} must be an integer between ${min} and ${max}`)
+  }
+  return value
+}
+
+const loadPreset = async (preset: string, presetName?: string): Promise<PresetSettings> => {
+  const builtIn = builtInPresets().find(
+    (candidate) => candidate.id === preset || candidate.name.toLowerCase() === preset.toLowerCase(),
+  )
+  if (builtIn) return builtIn.settings
+  if (!preset.endsWith(".json")) throw new UsageError(`Unknown preset "${preset}"`)
+
+  let text: string
+  try {
+    text = await readFile(preset, "utf8")
+  } catch {
+    throw new UsageError(`Could not read the preset file ${preset}`)
+  }
+
+  let presets: ReturnType<typeof parsePresetFile>
+  try {
+    presets = parsePresetFile(text)
+  } catch (error) {
+    throw new UsageError(`${preset}: ${error instanceof Error ? error.message : "invalid preset file"}`)
+  }
+  if (presetName) {
+    const named = presets.find((candidate) => candidate.name === presetName)
+    if (!named) throw new UsageError(`${preset} has no preset named "${presetName}"`)
+    return named.settings
+  }
+  if (presets.length !== 1) {
+    throw new UsageError(`${preset} holds ${presets.length} presets; pick one with --preset-name`)
+  }
+  return presets[0].settings
+}
+
+const parse = (args: string[]) =>
+  parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      out: { type: "string", short: "o" },
+      recursive: { type: "boolean", short: "r" },
+      format: { type: "string", short: "f" },
+      quality: { type: "string", short: "q" },
+      width: { type: "string", short: "w" },
+      height: { type: "string" },
+      "target-size": { type: "string" },
+      "allow-downscale": { type: "boolean" },
+      "keep-icc": { type: "boolean" },
+      "keep-author": { type: "boolean" },
+      preset: { type: "string", short: "p" },
+      "preset-name": { type: "string" },
+      name: { type: "string", short: "n" },
+      jobs: { type: "string", short: "j" },
+      "dry-run": { type: "boolean" },
+      help: { type: "boolean" },
+    },
+  })
+
+const parseCommandLine = async (argv: string[]) => {
+  let parsed: ReturnType<typeof parse>
+  try {
+    parsed = parse(argv)
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error))
+  }
+
+  const { values, positionals } = parsed
+  if (values.help) return null
+  const [command, ...inputs] = positionals
+  if (command !== "compress") throw new UsageError(command ? `Unknown command "${command}"` : "Missing command")
+  if (inputs.length === 0) throw new UsageError("Pass at least one file, directory or glob to compress")
+  if (!values.out && !values["dry-run"]) throw new UsageError("--out is required unless --dry-run is set")
+
+  const settings: PresetSettings = values.preset
+    ? { ...(await loadPreset(values.preset, values["preset-name"])) }
+    : { ...DEFAULT_PRESET_SETTINGS }
+
+  if (values.format !== undefined) {
+    if (!isOutputFormat(values.format)) throw new UsageError(`Unknown format "${values.format}"`)
+    settings.format = values.format
+  }
+  if (values.quality !== undefined) {
+    settings.quality = parseInteger("quality", values.quality, 1, 100)
+    settings.sizeMode = "quality"
+  }
+  if (values.width !== undefined) settings.width = String(parseInteger("width", values.width, 1, MAX_DIMENSION))
+  if (values.height !== undefined) settings.height = String(parseInteger("height", values.height, 1, MAX_DIMENSION))
+  if (values["target-size"] !== undefined) {
+    const kilobytes = Number(values["target-size"])
+    if (!(kilobytes > 0)) throw new UsageError("--target-size must be a positive number of KB")
+    settings.sizeMode = "target"
+    settings.targetSize = String(kilobytes)
+  }
+  if (values["allow-downscale"]) settings.allowDownscale = true
+  if (values["keep-icc"]) settings.metadata = { ...settings.metadata, keepIcc: true }
+  if (values["keep-author"]) settings.metadata = { ...settings.metadata, keepAuthor: true }
+
+  return {
+    inputs,
+    settings,
+    out: values.out ?? ".",
+    recursive: values.recursive === true,
+    template: values.name ?? DEFAULT_FILENAME_TEMPLATE,
+    jobs: values.jobs !== undefined ? parseInteger("jobs", values.jobs, 1, 64) : os.availableParallelism(),
+    dryRun: values["dry-run"] === true,
+  }
+}
+
+const WORKER_BOOTSTRAP_URL = new URL("./worker-bootstrap.mjs", import.meta.url)
+
+/** Runs the tasks on a pool of worker threads; the promises come back in task order. */
+const runInWorkers = (tasks: CompressTask[], jobs: number): Promise<CompressResponse>[] => {
+  const settlers = new Map<number, (response: CompressResponse) => void>()
+  const results = tasks.map((task) => new Promise<CompressResponse>((resolve) => settlers.set(task.id, resolve)))
+  const queue = [...tasks]
+
+  const settle = (response: CompressResponse) => {
+    settlers.get(response.id)?.(response)
+    settlers.delete(response.id)
+  }
+
+  const start = () => {
+    const worker = new Worker(WORKER_BOOTSTRAP_URL)
+    let current: CompressTask | undefined
+
+    const next = () => {
+      current = queue.shift()
+      if (current) {
+        worker.postMessage(current)
+      } else {
+        void worker.terminate()
+      }
+    }
+
+    worker.on("message", (response: CompressResponse) => {
+      settle(response)
+      next()
+    })
+    // A crashed thread fails only the image it was on; a fresh one carries on with the queue.
+    worker.on("error", (error) => {
+      if (current) settle({ id: current.id, ok: false, error: error.message })
+      if (queue.length > 0) start()
+    })
+    next()
+  }
+
+  for (let i = 0; i < Math.min(jobs, tasks.length); i++) start()
+  return results
+}
+
+const savings = (before: number, after: number) => {
+  const percent = before > 0 ? Math.round((1 - after / before) * 100) : 0
+  return percent >= 0 ? `-${percent}%` : `+${-percent}%`
+}
+
+const main = async (argv: string[]): Promise<number> => {
+  let options: Awaited<ReturnType<typeof parseCommandLine>>
+  try {
+    options = await parseCommandLine(argv)
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error
+    console.error(`aviff: ${error.message}\n\n${USAGE}`)
+    return EXIT_USAGE
+  }
+  if (!options) {
+    console.log(USAGE)
+    return EXIT_OK
+  }
+
+  const { files, unmatched } = await collectInputs(options.inputs, options.recursive)
+  unmatched.forEach((input) => console.error(`aviff: no images found for ${input}`))
+  if (files.length === 0) return EXIT_NO_INPUT
+
+  const { settings, out, template, dryRun } = options
+  const jobs = Math.min(options.jobs, files.length)
+  console.log(
+    `${dryRun ? "Dry run: " : ""}${files.length} ${files.length === 1 ? "image" : "images"} → ` +
+      `${OUTPUT_FORMATS[settings.format].label}, ${jobs} in parallel`,
+  )
+
+  const tasks = files.map((file, id): CompressTask => ({ id, path: file.path, settings }))
+  const results = runInWorkers(tasks, jobs)
+  const usedNames = new Map<string, Set<string>>()
+  let failed = 0
+  let missed = 0
+  let totalBefore = 0
+  let totalAfter = 0
+
+  // Results are named and written in input order, so collisions resolve the same way every run.
+  for (const [index, file] of files.entries()) {
+    const response = await results[index]
+    if (!response.ok) {
+      failed++
+      console.error(`✗ ${file.path}: ${response.error}`)
+      continue
+    }
+
+    const { buffer, width, height, quality, originalSize, met } = response.result
+    const directory = path.join(out, path.dirname(file.relativePath))
+    const used = usedNames.get(directory) ?? new Set<string>()
+    usedNames.set(directory, used)
+    const name = uniqueFilename(
+      renderFilename(template, {
+        sourceName: path.basename(file.path),
+        width,
+        height,
+        quality,
+        format: settings.format,
+        hash: templateUsesHash(template) ? await hashBlob(new Blob([buffer])) : undefined,
+        index: index + 1,
+      }),
+      used,
+    )
+    const destination = path.join(directory, name)
+
+    try {
+      if (path.resolve(destination) === path.resolve(file.path)) throw new Error("the output would overwrite the source")
+      if (!dryRun) {
+        await mkdir(directory, { recursive: true })
+        await writeFile(destination, new Uint8Array(buffer))
+      }
+    } catch (error) {
+      failed++
+      console.error(`✗ ${file.path}: ${error instanceof Error ? error.message : String(error)}`)
+      continue
+    }
+
+    totalBefore += originalSize
+    totalAfter += buffer.byteLength
+    if (!met) missed++
+    console.log(
+      `${met ? "✓" : "!"} ${file.path} → ${destination}  ${formatSize(originalSize)} → ${formatSize(buffer.byteLength)} ` +
+        `(${savings(originalSize, buffer.byteLength)}), ${width}×${height}, q${quality}` +
+        (met ? "" : `, over the ${settings.targetSize} KB target`),
+    )
+  }
+
+  const done = files.length - failed
+  console.log(
+    `\n${done} compressed${failed > 0 ? `, ${failed} failed` : ""}${missed > 0 ? `, ${missed} over the target size` : ""}` +
+      ` · ${formatSize(totalBefore)} → ${formatSize(totalAfter)} (${savings(totalBefore, totalAfter)})`,
+  )
+
+  if (failed > 0) return EXIT_FAILED
+  return missed > 0 ? EXIT_TARGET_MISSED : EXIT_OK
+}
+
+main(process.argv.slice(2)).then(
+  (code) => (process.exitCode = code),
+  (error) => {
+    console.error("aviff:", error)
+    process.exitCode = EXIT_FAILED
+  },
+)
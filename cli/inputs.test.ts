@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest"
+import { globToRegExp } from "./inputs"
+
+const matches = (pattern: string, path: string) => globToRegExp(pattern).test(path)
+
+describe("globToRegExp", () => {
+  it("matches * within one directory", () => {
+    expect(matches("*.jpg", "photo.jpg")).toBe(true)
+    expect(matches("*.jpg", "trip/photo.jpg")).toBe(false)
+    expect(matches("trip/*.jpg", "trip/photo.jpg")).toBe(true)
+  })
+
+  it("matches ** across directories, including none", () => {
+    expect(matches("**/*.png", "logo.png")).toBe(true)
+    expect(matches("**/*.png", "a/b/logo.png")).toBe(true)
+    expect(matches("assets/**", "assets/a/b.png")).toBe(true)
+    expect(matches("assets/**", "other/b.png")).toBe(false)
+  })
+
+  it("matches ? as one character other than a slash", () => {
+    expect(matches("img?.webp", "img1.webp")).toBe(true)
+    expect(matches("img?.webp", "img10.webp")).toBe(false)
+    expect(matches("a?b", "a/b")).toBe(false)
+  })
+
+  it("supports character classes and their negation", () => {
+    expect(matches("[ab].jpg", "a.jpg")).toBe(true)
+    expect(matches("[ab].jpg", "c.jpg")).toBe(false)
+    expect(matches("[!ab].jpg", "c.jpg")).toBe(true)
+    expect(matches("[0-9].jpg", "7.jpg")).toBe(true)
+  })
+
+  it("expands braces into alternatives", () => {
+    expect(matches("*.{jpg,png}", "a.png")).toBe(true)
+    expect(matches("*.{jpg,png}", "a.gif")).toBe(false)
+    expect(matches("{raw,edited}/*.tif", "edited/a.tif")).toBe(true)
+  })
+
+  it("treats regular expression characters literally", () => {
+    expect(matches("a.jpg", "axjpg")).toBe(false)
+    expect(matches("photo (1)+.jpg", "photo (1)+.jpg")).toBe(true)
+    expect(matches("[unclosed.jpg", "[unclosed.jpg")).toBe(true)
+    expect(matches("a,b.jpg", "a,b.jpg")).toBe(true)
+  })
+})
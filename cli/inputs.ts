@@ -0,0 +1,118 @@
+import { readdir, stat } from "node:fs/promises"
+import path from "node:path"
+import { SOURCE_FORMATS } from "@/lib/source-formats"
+
+export interface InputFile {
+  path: string
+  /** Relative to the directory or glob base it was found under, so the output mirrors the tree. */
+  relativePath: string
+}
+
+const IMAGE_EXTENSIONS = new Set(Object.values(SOURCE_FORMATS).flatMap((format) => format.extensions))
+const GLOB_CHARACTERS = /[*?[{]/
+
+const isImagePath = (file: string) => {
+  const name = path.basename(file)
+  return !name.startsWith(".") && IMAGE_EXTENSIONS.has(path.extname(name).slice(1).toLowerCase())
+}
+
+/** Translates `*`, `**`, `?`, `[abc]` and `{a,b}` into a regular expression over "/"-separated paths. */
+export function globToRegExp(pattern: string): RegExp {
+  let source = ""
+  let braces = 0
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/" also matches no directory at all.
+      const slash = pattern[i + 2] === "/"
+      source += slash ? "(?:.*/)?" : ".*"
+      i += slash ? 2 : 1
+    } else if (char === "*") {
+      source += "[^/]*"
+    } else if (char === "?") {
+      source += "[^/]"
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", i + 1)
+      if (end === -1) {
+        source += "\\["
+      } else {
+        source += `[${pattern.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\")}]`
+        i = end
+      }
+    } else if (char === "{") {
+      braces++
+      source += "(?:"
+    } else if (char === "}" && braces > 0) {
+      braces--
+      source += ")"
+    } else if (char === "," && braces > 0) {
+      source += "|"
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, "\\$&")
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+const walk = async (directory: string, recursive: boolean): Promise<string[]> => {
+  const entries = await readdir(directory, { withFileTypes: true })
+  const files = await Promise.all(
+    entries.map(async (entry) => {
+      const full = path.join(directory, entry.name)
+      if (entry.isDirectory()) return recursive && !entry.name.startsWith(".") ? walk(full, true) : []
+      return entry.isFile() ? [full] : []
+    }),
+  )
+  return files.flat()
+}
+
+const toPosix = (file: string) => file.split(path.sep).join("/")
+
+const expandGlob = async (pattern: string): Promise<InputFile[]> => {
+  const segments = toPosix(pattern).split("/")
+  const firstGlob = segments.findIndex((segment) => GLOB_CHARACTERS.test(segment))
+  const base = segments.slice(0, firstGlob).join("/") || "."
+  const globbed = segments.slice(firstGlob)
+  const matcher = globToRegExp(globbed.join("/"))
+  const recursive = globbed.length > 1 || globbed.some((segment) => segment.includes("**"))
+
+  let files: string[]
+  try {
+    files = await walk(base, recursive)
+  } catch {
+    return []
+  }
+  return files
+    .map((file) => ({ path: file, relativePath: toPosix(path.relative(base, file)) }))
+    .filter((file) => matcher.test(file.relativePath) && isImagePath(file.path))
+}
+
+/**
+ * Resolves files, directories and glob patterns into a sorted, de-duplicated list of images.
+ * Files named explicitly are kept whatever their extension; the format is checked on decode.
+ */
+export async function collectInputs(
+  inputs: string[],
+  recursive: boolean,
+): Promise<{ files: InputFile[]; unmatched: string[] }> {
+  const found: InputFile[] = []
+  const unmatched: string[] = []
+
+  for (const input of inputs) {
+    const info = await stat(input).catch(() => null)
+    let matches: InputFile[] = []
+    if (info?.isFile()) {
+      matches = [{ path: input, relativePath: path.basename(input) }]
+    } else if (info?.isDirectory()) {
+      const files = (await walk(input, recursive)).filter(isImagePath)
+      matches = files.map((file) => ({ path: file, relativePath: toPosix(path.relative(input, file)) }))
+    } else if (GLOB_CHARACTERS.test(input)) {
+      matches = await expandGlob(input)
+    }
+    if (matches.length === 0) unmatched.push(input)
+    found.push(...matches)
+  }
+
+  const unique = new Map(found.map((file) => [path.resolve(file.path), file]))
+  return { files: [...unique.values()].sort((a, b) => a.path.localeCompare(b.path)), unmatched }
+}
@@ -0,0 +1,9 @@
+// Worker threads don't inherit tsx's loader, so each one registers it before loading the TypeScript entry.
+// Both tsx and the tsconfig (for the "@/" alias) are resolved from here, not from the working directory.
+import { fileURLToPath } from "node:url"
+import { tsImport } from "tsx/esm/api"
+
+await tsImport("./worker.ts", {
+  parentURL: import.meta.url,
+  tsconfig: fileURLToPath(new URL("../tsconfig.json", import.meta.url)),
+})
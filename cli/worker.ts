@@ -0,0 +1,64 @@
+import { readFile } from "node:fs/promises"
+import { parentPort } from "node:worker_threads"
+import { parseDimension } from "@/lib/dimensions"
+import { NODE_DECODERS, prepareNodeCodecs } from "@/lib/node-codecs"
+import { compressImage } from "@/lib/pipeline"
+import type { PresetSettings } from "@/lib/presets"
+import { SOURCE_FORMATS, detectSourceFormat } from "@/lib/source-formats"
+
+export interface CompressTask {
+  id: number
+  path: string
+  settings: PresetSettings
+}
+
+export interface CompressOutcome {
+  buffer: ArrayBuffer
+  width: number
+  height: number
+  originalSize: number
+  quality: number
+  /** False when a target size was set and even the smallest attempt didn't fit. */
+  met: boolean
+}
+
+export type CompressResponse = { id: number; ok: true; result: CompressOutcome } | { id: number; ok: false; error: string }
+
+/** The browser worker's compress path, run on a file from disk. */
+const compressFile = async ({ path, settings }: CompressTask): Promise<CompressOutcome> => {
+  const file = await readFile(path)
+  const buffer = file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer
+  // Checked here as well as in the pipeline so the report stays in English.
+  const sourceFormat = detectSourceFormat(buffer)
+  if (!sourceFormat) throw new Error("Unrecognised image format")
+  const { decoder, label } = SOURCE_FORMATS[sourceFormat]
+  if (!NODE_DECODERS.includes(decoder)) throw new Error(`${label} files can only be converted in the browser`)
+  await prepareNodeCodecs({ decode: [sourceFormat], encode: [settings.format] })
+
+  const result = await compressImage(buffer, {
+    metadata: settings.metadata,
+    decoders: NODE_DECODERS,
+    resample: settings.resample,
+    width: parseDimension(settings.width),
+    height: parseDimension(settings.height),
+    encoder: { format: settings.format, quality: settings.quality, preview: false, options: settings.formatOptions },
+    targetSize:
+      settings.sizeMode === "target"
+        ? { bytes: Math.round(Number.parseFloat(settings.targetSize) * 1024), allowDownscale: settings.allowDownscale }
+        : undefined,
+  })
+  const { buffer: output, width, height, quality, met } = result
+  return { buffer: output, width, height, originalSize: buffer.byteLength, quality, met }
+}
+
+parentPort?.on("message", async (task: CompressTask) => {
+  let response: CompressResponse
+  try {
+    const result = await compressFile(task)
+    response = { id: task.id, ok: true, result }
+    parentPort!.postMessage(response, [result.buffer])
+  } catch (error) {
+    response = { id: task.id, ok: false, error: error instanceof Error ? error.message : String(error) }
+    parentPort!.postMessage(response)
+  }
+})
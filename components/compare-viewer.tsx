@@ -0,0 +1,245 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useRef, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ZoomIn, ZoomOut, Maximize, SplitSquareHorizontal, Repeat } from "lucide-react"
+import { useI18n } from "@/components/locale-provider"
+
+interface CompareViewerProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  title: string
+  originalSrc: string
+  compressedSrc: string
+  compressedLabel: string
+  width: number
+  height: number
+}
+
+interface ViewState {
+  zoom: number
+  panX: number
+  panY: number
+}
+
+const MAX_ZOOM = 8
+const ZOOM_STEP = 1.25
+const FLICKER_INTERVAL_MS = 600
+
+export default function CompareViewer({
+  open,
+  onOpenChange,
+  title,
+  originalSrc,
+  compressedSrc,
+  compressedLabel,
+  width,
+  height,
+}: CompareViewerProps) {
+  const { t } = useI18n()
+  const viewportRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<{ kind: "pan" | "split"; x: number; y: number } | null>(null)
+
+  const [mode, setMode] = useState<"split" | "flicker">("split")
+  const [split, setSplit] = useState(50)
+  const [showCompressed, setShowCompressed] = useState(true)
+  const [autoFlicker, setAutoFlicker] = useState(false)
+  const [fitZoom, setFitZoom] = useState(1)
+  const [view, setView] = useState<ViewState>({ zoom: 1, panX: 0, panY: 0 })
+
+  // Zoom is expressed in device pixels per image pixel, so 100% shows every source pixel exactly once.
+  const devicePixelRatio = typeof window === "undefined" ? 1 : window.devicePixelRatio || 1
+  const cssScale = view.zoom / devicePixelRatio
+
+  const fitToViewport = useCallback(() => {
+    const viewport = viewportRef.current
+    if (!viewport || width === 0 || height === 0) return
+    const zoom = Math.min(viewport.clientWidth / width, viewport.clientHeight / height, 1) * devicePixelRatio
+    setFitZoom(zoom)
+    setView({ zoom, panX: 0, panY: 0 })
+  }, [width, height, devicePixelRatio])
+
+  useEffect(() => {
+    if (!open) return
+    const frame = requestAnimationFrame(fitToViewport)
+    return () => cancelAnimationFrame(frame)
+  }, [open, fitToViewport])
+
+  useEffect(() => {
+    if (!open || mode !== "flicker" || !autoFlicker) return
+    const interval = setInterval(() => setShowCompressed((prev) => !prev), FLICKER_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [open, mode, autoFlicker])
+
+  useEffect(() => {
+    if (!open || mode !== "flicker") return
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.code !== "Space") return
+      e.preventDefault()
+      setShowCompressed((prev) => !prev)
+    }
+    window.addEventListener("keydown", handleKey)
+    return () => window.removeEventListener("keydown", handleKey)
+  }, [open, mode])
+
+  const zoomAround = (nextZoom: number, originX = 0, originY = 0) => {
+    setView((prev) => {
+      const zoom = Math.min(MAX_ZOOM, Math.max(Math.min(fitZoom, 1), nextZoom))
+      const ratio = zoom / prev.zoom
+      return {
+        zoom,
+        panX: originX - (originX - prev.panX) * ratio,
+        panY: originY - (originY - prev.panY) * ratio,
+      }
+    })
+  }
+
+  const pointFromCenter = (clientX: number, clientY: number) => {
+    const rect = viewportRef.current!.getBoundingClientRect()
+    return { x: clientX - rect.left - rect.width / 2, y: clientY - rect.top - rect.height / 2 }
+  }
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    const { x, y } = pointFromCenter(e.clientX, e.clientY)
+    zoomAround(e.deltaY < 0 ? view.zoom * ZOOM_STEP : view.zoom / ZOOM_STEP, x, y)
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, kind: "pan" | "split") => {
+    e.stopPropagation()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    dragRef.current = { kind, x: e.clientX, y: e.clientY }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current
+    if (!drag) return
+
+    if (drag.kind === "split") {
+      const rect = viewportRef.current!.getBoundingClientRect()
+      setSplit(Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)))
+      return
+    }
+
+    const dx = e.clientX - drag.x
+    const dy = e.clientY - drag.y
+    dragRef.current = { ...drag, x: e.clientX, y: e.clientY }
+    setView((prev) => ({ ...prev, panX: prev.panX + dx, panY: prev.panY + dy }))
+  }
+
+  const handlePointerUp = () => {
+    dragRef.current = null
+  }
+
+  const renderLayer = (src: string, alt: string, style: React.CSSProperties = {}) => (
+    <div className="absolute inset-0 overflow-hidden" style={style}>
+      <img
+        src={src}
+        alt={alt}
+        draggable={false}
+        className="absolute left-1/2 top-1/2 max-w-none select-none"
+        style={{
+          width,
+          height,
+          transform: `translate(-50%, -50%) translate(${view.panX}px, ${view.panY}px) scale(${cssScale})`,
+          imageRendering: view.zoom >= 1 ? "pixelated" : "auto",
+        }}
+      />
+    </div>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-none w-[calc(100vw-2rem)] h-[calc(100vh-2rem)] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" variant={mode === "split" ? "default" : "outline"} onClick={() => setMode("split")}>
+            <SplitSquareHorizontal className="w-4 h-4 mr-2" />
+            {t("compare.split")}
+          </Button>
+          <Button size="sm" variant={mode === "flicker" ? "default" : "outline"} onClick={() => setMode("flicker")}>
+            <Repeat className="w-4 h-4 mr-2" />
+            {t("compare.flicker")}
+          </Button>
+
+          {mode === "flicker" && (
+            <>
+              <Button size="sm" variant="outline" onClick={() => setShowCompressed((prev) => !prev)}>
+                {t("compare.showing", { label: showCompressed ? compressedLabel : t("compare.original") })}
+              </Button>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="compare-auto-flicker"
+                  checked={autoFlicker}
+                  onCheckedChange={(checked) => setAutoFlicker(checked === true)}
+                />
+                <Label htmlFor="compare-auto-flicker">{t("compare.auto")}</Label>
+              </div>
+            </>
+          )}
+
+          <div className="flex items-center gap-2 ml-auto">
+            <Button size="icon" variant="outline" onClick={() => zoomAround(view.zoom / ZOOM_STEP)}>
+              <ZoomOut className="w-4 h-4" />
+            </Button>
+            <span className="w-16 text-center text-sm tabular-nums">{Math.round(view.zoom * 100)}%</span>
+            <Button size="icon" variant="outline" onClick={() => zoomAround(view.zoom * ZOOM_STEP)}>
+              <ZoomIn className="w-4 h-4" />
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setView({ zoom: 1, panX: 0, panY: 0 })}>
+              100%
+            </Button>
+            <Button size="sm" variant="outline" onClick={fitToViewport}>
+              <Maximize className="w-4 h-4 mr-2" />
+              {t("compare.fit")}
+            </Button>
+          </div>
+        </div>
+
+        <div
+          ref={viewportRef}
+          className="relative flex-1 bg-muted rounded-lg overflow-hidden cursor-grab active:cursor-grabbing touch-none"
+          onWheel={handleWheel}
+          onPointerDown={(e) => handlePointerDown(e, "pan")}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          {mode === "split" ? (
+            <>
+              {renderLayer(originalSrc, t("compare.original"))}
+              {renderLayer(compressedSrc, compressedLabel, { clipPath: `inset(0 0 0 ${split}%)` })}
+              <div
+                className="absolute inset-y-0 w-1 -ml-0.5 bg-primary cursor-ew-resize"
+                style={{ left: `${split}%` }}
+                onPointerDown={(e) => handlePointerDown(e, "split")}
+              />
+              <span className="absolute top-2 left-2 rounded bg-background/80 px-2 py-1 text-xs">
+                {t("compare.original")}
+              </span>
+              <span className="absolute top-2 right-2 rounded bg-background/80 px-2 py-1 text-xs">
+                {compressedLabel}
+              </span>
+            </>
+          ) : (
+            <>
+              {/* Both layers stay mounted so toggling never waits on a decode. */}
+              {renderLayer(originalSrc, t("compare.original"), { visibility: showCompressed ? "hidden" : "visible" })}
+              {renderLayer(compressedSrc, compressedLabel, { visibility: showCompressed ? "visible" : "hidden" })}
+              <span className="absolute top-2 left-2 rounded bg-background/80 px-2 py-1 text-xs">
+                {showCompressed ? compressedLabel : t("compare.original")}
+              </span>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -2,38 +2,316 @@
 
 import type React from "react"
 
-import { useState, useCallback, useRef } from "react"
+import { Fragment, useState, useRef, useEffect, useMemo } from "react"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Label } from "@/components/ui/label"
 import { Slider } from "@/components/ui/slider"
 import { Input } from "@/components/ui/input"
-import { Upload, Download, ImageIcon, Loader2, X, Crop } from "lucide-react"
+import { Progress } from "@/components/ui/progress"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Upload, Download, ImageIcon, Loader2, X, Crop, Layers, Pause, Play, Square, AlertCircle, Archive, ChevronDown, ChevronUp, Columns2, Copy, Save, RotateCcw, RotateCw, FlipHorizontal2, FlipVertical2, Grid3x3, Undo2, Redo2, History, Trash2, FolderOpen } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import { usePresets } from "@/hooks/use-presets"
+import { useSession } from "@/hooks/use-session"
+import { getWorkerPool } from "@/lib/worker-pool"
+import { finalDimensions, parseDimension } from "@/lib/dimensions"
+import { formatDuration } from "@/lib/format"
+import { useI18n } from "@/components/locale-provider"
+import { LOCALES, describeError, type Locale } from "@/lib/i18n"
+import type { MessageKey } from "@/lib/messages/es"
+import {
+  DEFAULT_IMAGE_LIMITS,
+  OVERSIZE_POLICIES,
+  decodesInBrowser,
+  checkImageLimits,
+  estimateJobMemory,
+  fitWithinPixels,
+  parseImageLimits,
+  planTiles,
+  toMegapixels,
+  type ImageLimits,
+  type OversizeInfo,
+} from "@/lib/image-limits"
+import { readImageSize } from "@/lib/image-size"
+import { orientedSize } from "@/lib/orientation"
+import type { QualityMetrics } from "@/lib/metrics"
+import { BatchQueue, type BatchProgress } from "@/lib/batch-queue"
+import { buildZipArchive, type ZipEntry } from "@/lib/zip"
+import { filesFromClipboard, filesFromDataTransfer, partitionFiles } from "@/lib/file-intake"
+import {
+  ANIMATED_OUTPUT_FORMAT,
+  DEFAULT_ANIMATION_SETTINGS,
+  MAX_STRIP_FRAMES,
+  detectAnimation,
+  isKeptFrame,
+  keptFrameDurations,
+  type AnimationInfo,
+  type AnimationSettings,
+} from "@/lib/animation"
+import {
+  DEFAULT_FILENAME_TEMPLATE,
+  FILENAME_TOKENS,
+  hashBlob,
+  renderFilename,
+  sanitizeFilename,
+  stripExtension,
+  templateUsesHash,
+  uniqueFilename,
+} from "@/lib/filenames"
+import {
+  DEFAULT_AVIF_OPTIONS,
+  DEFAULT_FORMAT_OPTIONS,
+  OUTPUT_FORMATS,
+  formatUsesQuality,
+  validateAvifOptions,
+  type AvifOptions,
+  type EncoderSettings,
+  type FormatOptions,
+  type OutputFormat,
+} from "@/lib/output-formats"
+import {
+  buildPictureMarkup,
+  buildResponsiveManifest,
+  parseNumberList,
+  planResponsiveVariants,
+  type ResponsiveVariant,
+} from "@/lib/responsive"
+import {
+  DEFAULT_METADATA_SETTINGS,
+  ICC_EMBED_FORMATS,
+  readImageMetadata,
+  type ImageMetadata,
+  type MetadataSettings,
+} from "@/lib/metadata"
+import { DEFAULT_PRESET_SETTINGS, type Preset, type PresetSettings } from "@/lib/presets"
+import { PreviewScheduler } from "@/lib/preview-scheduler"
+import {
+  DEFAULT_RESAMPLE_SETTINGS,
+  RESAMPLE_METHODS,
+  type ResampleMethod,
+  type ResampleSettings,
+} from "@/lib/resampling"
+import { ACCEPTED_INPUT_TYPES, SOURCE_FORMATS, detectSourceFormat, type SourceFormat } from "@/lib/source-formats"
+import type { SessionEntry } from "@/lib/session-store"
+import type { ImageTransform } from "@/lib/transform"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import CompareViewer from "@/components/compare-viewer"
+import PresetManager from "@/components/preset-manager"
 import Cropper from "react-easy-crop"
 import type { Area } from "react-easy-crop"
 
 interface CompressedImage {
+  /** Stable for the card's lifetime, so async work can find its card again after others are removed. */
+  id: string
   file: File
   preview: string
   compressedPreview?: string
   compressed?: Blob
   originalSize: number
   compressedSize?: number
+  /** Set while the card is being compressed for real. */
   processing?: boolean
+  /** Set while a debounced preview encodes; compressing the card cancels it. */
+  previewing?: boolean
   dimensions?: { width: number; height: number }
   quality: number
   width: string
   height: string
+  format: OutputFormat
+  formatOptions: FormatOptions
+  resample: ResampleSettings
+  metadata: MetadataSettings
+  sourceMetadata?: ImageMetadata
+  sourceFormat: SourceFormat | null
+  /** Edits replayed on `file`, which always stays the untouched upload. */
+  edits: ImageTransform[]
+  /** Undone edits, next redo first. */
+  undoneEdits: ImageTransform[]
+  /** Set while an edit renders; the next one has to start from its result. */
+  editing?: boolean
+  /** Frame timing and strip for animated sources; null for stills. */
+  animation: AnimationInfo | null
+  /** Set when the source is over the pixel limit; every job then works on a reduced copy. */
+  oversize?: OversizeInfo
+  exportingTiles?: boolean
+  animationSettings: AnimationSettings
+  responsive: ResponsiveSettings
+  responsiveSet?: ResponsiveSet
+  generatingSet?: boolean
+  /** Set together with `compressed`. */
+  encoded?: EncodeRecord
+  sizeMode: "quality" | "target"
+  targetSize: string
+  allowDownscale: boolean
+  targetResult?: TargetSizeOutcome
+  metrics?: QualityMetrics
+  measuring?: boolean
+  error?: string
 }
 
+// Object URLs, in-flight flags and responsive sets are rebuilt rather than stored.
+type SessionState = Omit<
+  CompressedImage,
+  | "file"
+  | "compressed"
+  | "preview"
+  | "compressedPreview"
+  | "processing"
+  | "previewing"
+  | "measuring"
+  | "editing"
+  | "generatingSet"
+  | "exportingTiles"
+  | "responsiveSet"
+>
+
+const toSessionEntry = (img: CompressedImage): SessionEntry<SessionState> => {
+  const {
+    file,
+    compressed,
+    preview,
+    compressedPreview,
+    processing,
+    previewing,
+    measuring,
+    editing,
+    generatingSet,
+    exportingTiles,
+    responsiveSet,
+    ...state
+  } = img
+  return { state, file, compressed }
+}
+
+interface ResponsiveSettings {
+  enabled: boolean
+  widths: string
+  densities: string
+  sizes: string
+  jpegFallback: boolean
+}
+
+interface ResponsiveSet {
+  variants: ResponsiveVariant[]
+  fallback: ResponsiveVariant[]
+  markup: string
+  manifest: ReturnType<typeof buildResponsiveManifest>
+}
+
+interface TargetSizeOutcome {
+  targetBytes: number
+  quality: number
+  passes: number
+  met: boolean
+  dimensions: { width: number; height: number }
+}
+
+/** What a compressed blob was encoded with. The card's controls may have moved on since. */
+interface EncodeRecord {
+  format: OutputFormat
+  quality: number
+  options: FormatOptions[OutputFormat]
+  resample: ResampleMethod
+  targetBytes: number | null
+  width: number | null
+  height: number | null
+}
+
+type EditHistory = Pick<CompressedImage, "edits" | "undoneEdits">
+
+type ImageSettings = Pick<
+  CompressedImage,
+  | "quality"
+  | "width"
+  | "height"
+  | "format"
+  | "formatOptions"
+  | "resample"
+  | "metadata"
+  | "responsive"
+  | "sizeMode"
+  | "targetSize"
+  | "allowDownscale"
+  | "animationSettings"
+>
+
+// Every setting the encoder reads. The responsive set is generated separately.
+const ENCODE_SETTINGS: Exclude<keyof ImageSettings, "responsive">[] = [
+  "quality",
+  "width",
+  "height",
+  "format",
+  "formatOptions",
+  "resample",
+  "metadata",
+  "sizeMode",
+  "targetSize",
+  "allowDownscale",
+  "animationSettings",
+]
+
+/** Settings are replaced, never mutated, so comparing references tells whether an encode still matches its card. */
+const sameEncodeInputs = (a: CompressedImage, b: CompressedImage) =>
+  a.edits === b.edits && ENCODE_SETTINGS.every((field) => a[field] === b[field])
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === "AbortError"
+
+const animatesOutput = (img: CompressedImage) => img.animation !== null && img.animationSettings.animate
+
+const outputFormatOf = (img: CompressedImage) => (animatesOutput(img) ? ANIMATED_OUTPUT_FORMAT : img.format)
+
+const encodeRecordOf = (img: CompressedImage, targetResult?: TargetSizeOutcome): EncodeRecord => {
+  const format = outputFormatOf(img)
+  const dimensions = targetResult?.dimensions ?? finalDimensions(img.dimensions, img.width, img.height)
+  return {
+    format,
+    quality: targetResult?.quality ?? img.quality,
+    options: img.formatOptions[format],
+    resample: img.resample.method,
+    targetBytes: img.sizeMode === "target" ? targetResult?.targetBytes ?? null : null,
+    width: dimensions?.width ?? null,
+    height: dimensions?.height ?? null,
+  }
+}
+
+const AVIF_OPTIONS_STORAGE_KEY = "image-compressor:avif-options"
+const FRAME_STEPS = [1, 2, 3, 4]
+const FILENAME_TEMPLATE_STORAGE_KEY = "image-compressor:filename-template"
+const IMAGE_LIMITS_STORAGE_KEY = "image-compressor:image-limits"
+
+const DEFAULT_RESPONSIVE_SETTINGS: ResponsiveSettings = {
+  enabled: false,
+  widths: "480, 800, 1200, 1600",
+  densities: "",
+  sizes: "100vw",
+  jpegFallback: true,
+}
+
+const SOURCE_FORMAT_LABELS = Object.values(SOURCE_FORMATS).map((format) => format.label)
+
 interface CropState {
   crop: { x: number; y: number }
   zoom: number
   croppedAreaPixels: Area | null
+  quarterTurns: number
+  straighten: number
+  flipH: boolean
+  flipV: boolean
+}
+
+const INITIAL_CROP_STATE: CropState = {
+  crop: { x: 0, y: 0 },
+  zoom: 1,
+  croppedAreaPixels: null,
+  quarterTurns: 0,
+  straighten: 0,
+  flipH: false,
+  flipV: false,
 }
 
+const cropRotation = ({ quarterTurns, straighten }: CropState) => quarterTurns * 90 + straighten
+
 interface AspectRatioState {
   type: "free" | "preset" | "custom"
   value: number | undefined
@@ -44,15 +322,66 @@ interface AspectRatioState {
 export default function ImageCompressor() {
   const [images, setImages] = useState<CompressedImage[]>([])
   const { toast } = useToast()
-  const previewTimeoutRefs = useRef<Map<number, NodeJS.Timeout>>(new Map())
+  const { locale, setLocale, t, formatSize } = useI18n()
+  // Per card: the latest preview, aborted by the next settings change, and the rest of its work, aborted on removal.
+  // The scheduler runs from timeouts, so it calls the latest updatePreview through a ref.
+  const updatePreviewRef = useRef<(id: string, signal: AbortSignal) => Promise<void>>(async () => {})
+  const [previews] = useState(
+    () =>
+      new PreviewScheduler<string>({
+        delay: 1500,
+        run: (id, signal) => updatePreviewRef.current(id, signal),
+        onActiveChange: (id, active) => updateImage(id, (current) => ({ ...current, previewing: active })),
+      }),
+  )
+  const cardControllers = useRef<Map<string, AbortController>>(new Map())
+  const imagesRef = useRef(images)
+  imagesRef.current = images
+
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null)
+  const [batchConcurrency, setBatchConcurrency] = useState(2)
+  const [imageLimits, setImageLimits] = useState<ImageLimits>(DEFAULT_IMAGE_LIMITS)
+  const batchQueueRef = useRef<BatchQueue<string> | null>(null)
+  const lastAvifOptionsRef = useRef<AvifOptions>(DEFAULT_AVIF_OPTIONS)
+  const [advancedOpen, setAdvancedOpen] = useState<Set<string>>(new Set())
+  const [metadataOpen, setMetadataOpen] = useState<Set<string>>(new Set())
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const folderInputRef = useRef<HTMLInputElement>(null)
+
+  // React doesn't know webkitdirectory, so it is set on the element directly.
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "")
+  }, [])
+  const [presetDraft, setPresetDraft] = useState<{ id: string; name: string } | null>(null)
+  const { presets, defaultPresetId, savePreset, removePreset, setDefaultPreset, importPresets, exportPresets, getDefaultPreset } =
+    usePresets()
+
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(AVIF_OPTIONS_STORAGE_KEY)
+      if (!stored) return
+      const options = { ...DEFAULT_AVIF_OPTIONS, ...JSON.parse(stored) }
+      if (validateAvifOptions(options).length === 0) {
+        lastAvifOptionsRef.current = options
+      }
+    } catch (error) {
+      console.error("Error reading saved AVIF options:", error)
+    }
+    setFilenameTemplate(localStorage.getItem(FILENAME_TEMPLATE_STORAGE_KEY) || DEFAULT_FILENAME_TEMPLATE)
+    setImageLimits(parseImageLimits(localStorage.getItem(IMAGE_LIMITS_STORAGE_KEY)))
+  }, [])
+
+  const [compareId, setCompareId] = useState<string | null>(null)
+  const [zipOptions, setZipOptions] = useState({ includeManifest: true, compressPending: false })
+  const [filenameTemplate, setFilenameTemplate] = useState(DEFAULT_FILENAME_TEMPLATE)
+  const [zipBuilding, setZipBuilding] = useState(false)
+  const batchActive = batchProgress?.status === "running" || batchProgress?.status === "paused"
 
   const [cropModalOpen, setCropModalOpen] = useState(false)
-  const [currentCropIndex, setCurrentCropIndex] = useState<number | null>(null)
-  const [cropState, setCropState] = useState<CropState>({
-    crop: { x: 0, y: 0 },
-    zoom: 1,
-    croppedAreaPixels: null,
-  })
+  const [currentCropId, setCurrentCropId] = useState<string | null>(null)
+  const [cropState, setCropState] = useState<CropState>(INITIAL_CROP_STATE)
+  const [cropGrid, setCropGrid] = useState(true)
+  const [applyingCrop, setApplyingCrop] = useState(false)
 
   const [aspectRatio, setAspectRatio] = useState<AspectRatioState>({
     type: "free",
@@ -62,13 +391,13 @@ export default function ImageCompressor() {
   })
 
   const presetAspectRatios = [
-    { label: "1:1 (Cuadrado)", value: 1 },
-    { label: "4:5 (Vertical)", value: 4 / 5 },
-    { label: "5:4 (Horizontal)", value: 5 / 4 },
-    { label: "16:9 (Panorámico)", value: 16 / 9 },
-    { label: "9:16 (Stories)", value: 9 / 16 },
-    { label: "3:2 (Fotografía)", value: 3 / 2 },
-    { label: "2:3 (Retrato)", value: 2 / 3 },
+    { label: `1:1 (${t("crop.ratio.square")})`, value: 1 },
+    { label: `4:5 (${t("crop.ratio.portrait")})`, value: 4 / 5 },
+    { label: `5:4 (${t("crop.ratio.landscape")})`, value: 5 / 4 },
+    { label: `16:9 (${t("crop.ratio.widescreen")})`, value: 16 / 9 },
+    { label: `9:16 (${t("crop.ratio.stories")})`, value: 9 / 16 },
+    { label: `3:2 (${t("crop.ratio.photo")})`, value: 3 / 2 },
+    { label: `2:3 (${t("crop.ratio.tall")})`, value: 2 / 3 },
   ]
 
   const calculateCustomAspectRatio = (): number | undefined => {
@@ -87,49 +416,13 @@ export default function ImageCompressor() {
     return undefined
   }
 
-  const createCroppedImage = async (imageSrc: string, croppedAreaPixels: Area): Promise<{ file: File; blob: Blob }> => {
-    const image = await createImageBitmap(await fetch(imageSrc).then((r) => r.blob()))
-    const canvas = document.createElement("canvas")
-    const ctx = canvas.getContext("2d")
-
-    if (!ctx) {
-      throw new Error("No se pudo obtener el contexto del canvas")
-    }
-
-    canvas.width = croppedAreaPixels.width
-    canvas.height = croppedAreaPixels.height
-
-    ctx.drawImage(
-      image,
-      croppedAreaPixels.x,
-      croppedAreaPixels.y,
-      croppedAreaPixels.width,
-      croppedAreaPixels.height,
-      0,
-      0,
-      croppedAreaPixels.width,
-      croppedAreaPixels.height,
-    )
-
-    return new Promise((resolve, reject) => {
-      canvas.toBlob((blob) => {
-        if (!blob) {
-          reject(new Error("Error al crear la imagen recortada"))
-          return
-        }
-        const file = new File([blob], "cropped-image.png", { type: "image/png" })
-        resolve({ file, blob })
-      }, "image/png")
-    })
+  const rotateCrop = (direction: 1 | -1) => {
+    setCropState((prev) => ({ ...prev, quarterTurns: (prev.quarterTurns + direction + 4) % 4 }))
   }
 
-  const openCropModal = (index: number) => {
-    setCurrentCropIndex(index)
-    setCropState({
-      crop: { x: 0, y: 0 },
-      zoom: 1,
-      croppedAreaPixels: null,
-    })
+  const openCropModal = (id: string) => {
+    setCurrentCropId(id)
+    setCropState(INITIAL_CROP_STATE)
     setAspectRatio({
       type: "free",
       value: undefined,
@@ -140,353 +433,1501 @@ export default function ImageCompressor() {
   }
 
   const applyCrop = async () => {
-    if (currentCropIndex === null || !cropState.croppedAreaPixels) return
+    if (currentCropId === null || !cropState.croppedAreaPixels) return
 
-    const img = images[currentCropIndex]
+    const img = imagesRef.current.find((img) => img.id === currentCropId)
     if (!img) return
 
-    try {
-      const { file, blob } = await createCroppedImage(img.preview, cropState.croppedAreaPixels)
-
-      const newPreview = URL.createObjectURL(blob)
-      const dimensions = await getImageDimensions(file)
-
-      setImages((prev) => {
-        const newImages = [...prev]
-        URL.revokeObjectURL(newImages[currentCropIndex].preview)
-        if (newImages[currentCropIndex].compressedPreview) {
-          URL.revokeObjectURL(newImages[currentCropIndex].compressedPreview!)
-        }
+    const transform: ImageTransform = {
+      rotation: cropRotation(cropState),
+      flipH: cropState.flipH,
+      flipV: cropState.flipV,
+      crop: cropState.croppedAreaPixels,
+    }
 
-        newImages[currentCropIndex] = {
-          ...newImages[currentCropIndex],
-          file,
-          preview: newPreview,
-          originalSize: blob.size,
-          dimensions,
-          compressedPreview: undefined,
-          compressed: undefined,
-          compressedSize: undefined,
-        }
-        return newImages
-      })
+    setApplyingCrop(true)
+    try {
+      await setEdits(img.id, ({ edits }) => ({ edits: [...edits, transform], undoneEdits: [] }))
 
       setCropModalOpen(false)
-      setCurrentCropIndex(null)
+      setCurrentCropId(null)
 
       toast({
-        title: "¡Éxito!",
-        description: "Imagen recortada correctamente",
+        title: t("toast.success"),
+        description: t("crop.applied"),
       })
     } catch (error) {
-      console.error("Error al recortar:", error)
+      console.error("Error cropping:", error)
       toast({
-        title: "Error",
-        description: "Hubo un problema al recortar la imagen",
+        title: t("toast.error"),
+        description: t("crop.failed"),
         variant: "destructive",
       })
+    } finally {
+      setApplyingCrop(false)
+    }
+  }
+
+  // Results land by id rather than index: by the time work finishes, the card may have moved or been removed.
+  const updateImage = (id: string, update: (img: CompressedImage) => CompressedImage) => {
+    setImages((prev) => {
+      const index = prev.findIndex((img) => img.id === id)
+      if (index === -1) return prev
+      const newImages = [...prev]
+      newImages[index] = update(newImages[index])
+      return newImages
+    })
+  }
+
+  const cardSignal = (id: string) => {
+    let controller = cardControllers.current.get(id)
+    if (!controller) {
+      controller = new AbortController()
+      cardControllers.current.set(id, controller)
     }
+    return controller.signal
   }
 
-  const compressImageWithJSquash = async (
-    file: File,
-    targetQuality: number,
-    targetWidth?: number,
-    targetHeight?: number,
-    isPreview = false,
-  ): Promise<{ blob: Blob; dimensions: { width: number; height: number } }> => {
-    const { encode } = await import("@jsquash/avif")
-
-    let canvasImageData: ImageData
-    let finalWidth = 0
-    let finalHeight = 0
-
-    const img = await createImageBitmap(file)
-    finalWidth = img.width
-    finalHeight = img.height
-
-    if (targetWidth || targetHeight) {
-      if (targetWidth && targetHeight) {
-        finalWidth = targetWidth
-        finalHeight = targetHeight
-      } else if (targetWidth) {
-        finalWidth = targetWidth
-        finalHeight = Math.round((img.height / img.width) * targetWidth)
-      } else if (targetHeight) {
-        finalHeight = targetHeight
-        finalWidth = Math.round((img.width / img.height) * targetHeight)
+  const cancelPreview = (id: string) => previews.cancel(id)
+
+  const cancelCardWork = (id: string) => {
+    cancelPreview(id)
+    cardControllers.current.get(id)?.abort()
+    cardControllers.current.delete(id)
+  }
+
+  // The card's file is never replaced: the preview is re-rendered from it with the whole
+  // edit list, at the working resolution, and compression replays the same list in the worker.
+  // Sources over the pixel limit are never handed to an <img>, which would decode them in full.
+  const renderPreview = async (file: File, edits: ImageTransform[], maxPixels?: number, signal?: AbortSignal) => {
+    if (edits.length === 0 && !maxPixels) return createPreview(file)
+    const { buffer, width, height } = await getWorkerPool().run(
+      { type: "transform", file, edits, maxPixels },
+      { signal },
+    )
+    return {
+      preview: URL.createObjectURL(new Blob([buffer], { type: "image/png" })),
+      dimensions: { width, height },
+    }
+  }
+
+  // The history is read from the latest card, and nothing else can edit it until this render lands.
+  const setEdits = async (id: string, change: (history: EditHistory) => EditHistory | null) => {
+    const img = imagesRef.current.find((img) => img.id === id)
+    if (!img || img.editing) return
+    const next = change(img)
+    if (!next) return
+
+    // Any preview on its way was encoded from the old edits.
+    cancelPreview(id)
+    updateImage(id, (current) => ({ ...current, editing: true }))
+    let rendered: Awaited<ReturnType<typeof renderPreview>>
+    try {
+      rendered = await renderPreview(img.file, next.edits, img.oversize?.maxPixels, cardSignal(id))
+    } catch (error) {
+      updateImage(id, (current) => ({ ...current, editing: false }))
+      throw error
+    }
+
+    // Including one a settings change scheduled while this rendered.
+    cancelPreview(id)
+    updateImage(id, (current) => {
+      URL.revokeObjectURL(current.preview)
+      if (current.compressedPreview) {
+        URL.revokeObjectURL(current.compressedPreview)
       }
 
-      const canvas = document.createElement("canvas")
-      canvas.width = finalWidth
-      canvas.height = finalHeight
-      const ctx = canvas.getContext("2d")
-      if (!ctx) throw new Error("No se pudo obtener el contexto del canvas")
-      ctx.drawImage(img, 0, 0, finalWidth, finalHeight)
-
-      canvasImageData = ctx.getImageData(0, 0, finalWidth, finalHeight)
-    } else {
-      const canvas = document.createElement("canvas")
-      canvas.width = img.width
-      canvas.height = img.height
-      const ctx = canvas.getContext("2d")
-      if (!ctx) throw new Error("No se pudo obtener el contexto del canvas")
-      ctx.drawImage(img, 0, 0)
-      canvasImageData = ctx.getImageData(0, 0, img.width, img.height)
-    }
-
-    const avifData = await encode(canvasImageData, {
-      quality: targetQuality,
-      speed: isPreview ? 8 : 4,
+      return {
+        ...current,
+        ...rendered,
+        ...next,
+        editing: false,
+        compressedPreview: undefined,
+        compressed: undefined,
+        encoded: undefined,
+        compressedSize: undefined,
+        targetResult: undefined,
+        metrics: undefined,
+        responsiveSet: undefined,
+      }
+    })
+  }
+
+  const runEditAction = async (id: string, change: (history: EditHistory) => EditHistory | null) => {
+    try {
+      await setEdits(id, change)
+    } catch (error) {
+      if (isAbortError(error)) return
+      console.error("Error applying edit:", error)
+      toast({
+        title: t("toast.error"),
+        description: t("edits.failed"),
+        variant: "destructive",
+      })
+    }
+  }
+
+  const undoEdit = (id: string) =>
+    runEditAction(id, ({ edits, undoneEdits }) =>
+      edits.length === 0 ? null : { edits: edits.slice(0, -1), undoneEdits: [edits[edits.length - 1], ...undoneEdits] },
+    )
+
+  const redoEdit = (id: string) =>
+    runEditAction(id, ({ edits, undoneEdits }) =>
+      undoneEdits.length === 0 ? null : { edits: [...edits, undoneEdits[0]], undoneEdits: undoneEdits.slice(1) },
+    )
+
+  // Resetting keeps the edits on the redo stack, so it can be stepped back through.
+  const resetEdits = (id: string) =>
+    runEditAction(id, ({ edits, undoneEdits }) =>
+      edits.length === 0 ? null : { edits: [], undoneEdits: [...edits, ...undoneEdits] },
+    )
+
+  // An oversized source never goes to an <img> whole: it falls back to its unedited working-size render,
+  // and is left out of the restore if even that fails, as intake would have rejected it.
+  const restorePreview = async (file: File, state: SessionState) => {
+    try {
+      return await renderPreview(file, state.edits, state.oversize?.maxPixels)
+    } catch {
+      if (state.oversize) return renderPreview(file, [], state.oversize.maxPixels)
+      return { preview: URL.createObjectURL(file), dimensions: state.dimensions }
+    }
+  }
+
+  const restoreSession = async (entries: SessionEntry<SessionState>[]) => {
+    const results = await Promise.allSettled(
+      entries.map(
+        async ({ state, file, compressed }): Promise<CompressedImage> => ({
+          ...state,
+          file,
+          compressed,
+          ...(await restorePreview(file, state)),
+          compressedPreview: compressed ? URL.createObjectURL(compressed) : undefined,
+        }),
+      ),
+    )
+    const restored: CompressedImage[] = []
+    results.forEach((result) => {
+      if (result.status === "fulfilled") restored.push(result.value)
+      else console.error("Error restoring image:", result.reason)
+    })
+    setImages((prev) => [...restored, ...prev])
+    toast({
+      title: t("session.restored"),
+      description: t("session.restoredCount", { count: restored.length }),
+    })
+  }
+
+  const sessionEntries = useMemo(() => images.map(toSessionEntry), [images])
+  const { usage: storageUsage, clear: clearStoredSession } = useSession(sessionEntries, restoreSession)
+
+  const clearWorkingSession = async () => {
+    if (!window.confirm(t("session.clearConfirm"))) return
+
+    images.forEach((img) => {
+      cancelCardWork(img.id)
+      URL.revokeObjectURL(img.preview)
+      if (img.compressedPreview) URL.revokeObjectURL(img.compressedPreview)
     })
+    setImages([])
+    setSelected(new Set())
+
+    try {
+      await clearStoredSession()
+      toast({ title: t("session.cleared"), description: t("session.clearedDescription") })
+    } catch (error) {
+      console.error("Error clearing session:", error)
+      toast({ title: t("toast.error"), description: t("session.clearFailed"), variant: "destructive" })
+    }
+  }
+
+  const blobOf = (buffer: ArrayBuffer, format: OutputFormat) =>
+    new Blob([buffer], { type: OUTPUT_FORMATS[format].mimeType })
+
+  const encodeImage = async (img: CompressedImage, isPreview: boolean, signal: AbortSignal) => {
+    const targetWidth = parseDimension(img.width)
+    const targetHeight = parseDimension(img.height)
+    const encoder: EncoderSettings = {
+      format: img.format,
+      quality: img.quality,
+      preview: isPreview,
+      options: img.formatOptions,
+    }
+
+    if (animatesOutput(img)) {
+      const { buffer, width, height } = await getWorkerPool().run(
+        {
+          type: "compress-animation",
+          file: img.file,
+          encoder,
+          resample: img.resample,
+          animation: img.animationSettings,
+          edits: img.edits,
+          width: targetWidth,
+          height: targetHeight,
+        },
+        { signal },
+      )
+      return { blob: blobOf(buffer, ANIMATED_OUTPUT_FORMAT), dimensions: { width, height }, targetResult: undefined }
+    }
+
+    const job = {
+      file: img.file,
+      encoder,
+      resample: img.resample,
+      metadata: img.metadata,
+      edits: img.edits,
+      width: targetWidth,
+      height: targetHeight,
+      maxPixels: img.oversize?.maxPixels,
+    }
 
-    const blob = new Blob([avifData], { type: "image/avif" })
+    if (img.sizeMode === "target" && formatUsesQuality(img.format, img.formatOptions)) {
+      const targetBytes = Math.round(Number.parseFloat(img.targetSize) * 1024)
+      if (!(targetBytes > 0)) throw new Error(t("compress.invalidTarget"))
+      const { allowDownscale } = img
+      const { buffer, width, height, quality, passes, met } = await getWorkerPool().run(
+        { type: "compress-to-size", ...job, targetBytes, allowDownscale },
+        { signal },
+      )
+      const dimensions = { width, height }
+      const targetResult = { targetBytes, quality, passes, met, dimensions }
+      return { blob: blobOf(buffer, img.format), dimensions, targetResult }
+    }
 
-    return { blob, dimensions: { width: finalWidth, height: finalHeight } }
+    const { buffer, width, height } = await getWorkerPool().run({ type: "compress", ...job }, { signal })
+    return { blob: blobOf(buffer, img.format), dimensions: { width, height }, targetResult: undefined }
   }
 
   const getImageDimensions = (file: File): Promise<{ width: number; height: number }> => {
-    return new Promise((resolve) => {
+    return new Promise((resolve, reject) => {
       const img = new Image()
+      const url = URL.createObjectURL(file)
       img.onload = () => {
+        URL.revokeObjectURL(url)
         resolve({ width: img.width, height: img.height })
       }
-      img.src = URL.createObjectURL(file)
+      img.onerror = () => {
+        URL.revokeObjectURL(url)
+        reject(new Error(t("intake.cannotDisplay")))
+      }
+      img.src = url
     })
   }
 
-  const handleDrop = useCallback(
-    async (e: React.DragEvent<HTMLDivElement>) => {
-      e.preventDefault()
-      const files = Array.from(e.dataTransfer.files).filter((file) => file.type.startsWith("image/"))
+  // Most browsers can't show HEIC, TIFF or RAW files, so those get a JPEG preview from the worker.
+  const createPreview = async (file: File) => {
+    try {
+      return { preview: URL.createObjectURL(file), dimensions: await getImageDimensions(file) }
+    } catch {
+      const { buffer, width, height } = await getWorkerPool().run({
+        type: "compress",
+        file,
+        encoder: { format: "jpeg", quality: 90, preview: false, options: DEFAULT_FORMAT_OPTIONS },
+        resample: DEFAULT_RESAMPLE_SETTINGS,
+        metadata: DEFAULT_METADATA_SETTINGS,
+        edits: [],
+      })
+      return { preview: URL.createObjectURL(blobOf(buffer, "jpeg")), dimensions: { width, height } }
+    }
+  }
 
-      if (files.length === 0) {
-        toast({
-          title: "Error",
-          description: "Por favor, sube solo archivos de imagen",
-          variant: "destructive",
-        })
-        return
-      }
+  // Without WebCodecs the animation can't be read frame by frame, so the card falls back to the first frame.
+  const inspectAnimation = async (file: File, buffer: ArrayBuffer): Promise<AnimationInfo | null> => {
+    if (!detectAnimation(buffer)) return null
+    try {
+      return await getWorkerPool().run({ type: "inspect-animation", file })
+    } catch (error) {
+      console.error("Error reading animation:", error)
+      toast({
+        title: t("animation.unavailable"),
+        description: t("animation.firstFrameOnly", {
+          name: file.name,
+          reason: describeError(error, t) ?? "",
+        }),
+        variant: "destructive",
+      })
+      return null
+    }
+  }
 
-      const newImages: CompressedImage[] = await Promise.all(
-        files.map(async (file) => ({
-          file,
-          preview: URL.createObjectURL(file),
-          originalSize: file.size,
-          dimensions: await getImageDimensions(file),
-          quality: 75,
-          width: "",
-          height: "",
-        })),
+  // The limits are checked against the file size, then the header, before anything is decoded.
+  const checkLimits = (file: File, buffer?: ArrayBuffer, orientation = 1) => {
+    const size = buffer && readImageSize(buffer)
+    const format = buffer ? detectSourceFormat(buffer) : null
+    const check = checkImageLimits(file.size, size ? orientedSize(size, orientation) : null, format, imageLimits)
+    if (check.status === "rejected") {
+      throw new Error(
+        check.limit === "file-size"
+          ? t("limits.fileTooLarge", { size: formatSize(file.size), limit: imageLimits.maxFileMegabytes })
+          : t("limits.tooManyPixels", {
+              width: String(check.size.width),
+              height: String(check.size.height),
+              megapixels: toMegapixels(check.size.width * check.size.height),
+              limit: imageLimits.maxMegapixels,
+            }),
       )
+    }
+    return check.status === "oversized" ? check.oversize : undefined
+  }
 
-      setImages((prev) => [...prev, ...newImages])
-    },
-    [toast],
-  )
+  const createImageEntry = async (file: File): Promise<CompressedImage> => {
+    const settings = getDefaultPreset()?.settings ?? {
+      ...DEFAULT_PRESET_SETTINGS,
+      formatOptions: { ...DEFAULT_FORMAT_OPTIONS, avif: lastAvifOptionsRef.current },
+    }
+
+    checkLimits(file)
+    const buffer = await file.arrayBuffer()
+    const sourceMetadata = readImageMetadata(buffer)
+    const oversize = checkLimits(file, buffer, sourceMetadata.exif?.orientation)
+
+    return {
+      id: crypto.randomUUID(),
+      file,
+      ...(await renderPreview(file, [], oversize?.maxPixels)),
+      originalSize: file.size,
+      sourceMetadata,
+      sourceFormat: detectSourceFormat(buffer),
+      edits: [],
+      undoneEdits: [],
+      oversize,
+      // Animations over the limit are kept to their first frame rather than decoded frame by frame.
+      animation: oversize ? null : await inspectAnimation(file, buffer),
+      animationSettings: DEFAULT_ANIMATION_SETTINGS,
+      ...settings,
+      responsive: DEFAULT_RESPONSIVE_SETTINGS,
+    }
+  }
+
+  const ingestFiles = async (files: File[]) => {
+    if (files.length === 0) return
+    const { accepted, skipped, empty } = partitionFiles(files)
+    const rejected = empty.map((file) => ({ name: file.name, reason: t("intake.empty") }))
+
+    const results = await Promise.allSettled(accepted.map(createImageEntry))
+    const added: CompressedImage[] = []
+    results.forEach((result, i) => {
+      if (result.status === "fulfilled") {
+        added.push(result.value)
+      } else {
+        const reason = describeError(result.reason, t) ?? t("intake.unreadable")
+        rejected.push({ name: accepted[i].name, reason })
+      }
+    })
+    setImages((prev) => [...prev, ...added])
+
+    const details = [
+      skipped.length > 0 && t("intake.skipped", { count: skipped.length }),
+      rejected.length > 0 &&
+        t("intake.rejected", {
+          count: rejected.length,
+          files:
+            rejected
+              .slice(0, 3)
+              .map(({ name, reason }) => `${name} (${reason})`)
+              .join(", ") + (rejected.length > 3 ? "…" : ""),
+        }),
+    ].filter(Boolean)
+
+    toast({
+      title: added.length > 0 ? t("intake.added", { count: added.length }) : t("intake.noneAdded"),
+      description: details.join(". ") || undefined,
+      variant: added.length === 0 ? "destructive" : undefined,
+    })
+  }
+
+  // The paste listener is registered once, so it calls the latest ingestFiles through a ref.
+  const ingestFilesRef = useRef(ingestFiles)
+  ingestFilesRef.current = ingestFiles
+
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      if (!e.clipboardData) return
+      const files = filesFromClipboard(e.clipboardData)
+      if (files.length === 0) return
+      e.preventDefault()
+      ingestFilesRef.current(files)
+    }
+    document.addEventListener("paste", handlePaste)
+    return () => document.removeEventListener("paste", handlePaste)
+  }, [])
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    try {
+      await ingestFiles(await filesFromDataTransfer(e.dataTransfer))
+    } catch (error) {
+      console.error("Error reading dropped files:", error)
+      toast({ title: t("toast.error"), description: t("intake.dropFailed"), variant: "destructive" })
+    }
+  }
 
   const handleFileInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || [])
-    const newImages: CompressedImage[] = await Promise.all(
-      files.map(async (file) => ({
-        file,
-        preview: URL.createObjectURL(file),
-        originalSize: file.size,
-        dimensions: await getImageDimensions(file),
-        quality: 75,
-        width: "",
-        height: "",
-      })),
-    )
-    setImages((prev) => [...prev, ...newImages])
+    // Clear the input so picking the same files or folder again fires another change.
+    e.target.value = ""
+    await ingestFiles(files)
   }
 
-  const removeImage = (index: number) => {
+  const removeImage = (id: string) => {
+    cancelCardWork(id)
     setImages((prev) => {
-      const newImages = [...prev]
-      URL.revokeObjectURL(newImages[index].preview)
-      if (newImages[index].compressedPreview) {
-        URL.revokeObjectURL(newImages[index].compressedPreview!)
+      const img = prev.find((img) => img.id === id)
+      if (!img) return prev
+      URL.revokeObjectURL(img.preview)
+      if (img.compressedPreview) {
+        URL.revokeObjectURL(img.compressedPreview)
       }
-      newImages.splice(index, 1)
-      return newImages
+      return prev.filter((img) => img.id !== id)
     })
+    const forget = (prev: Set<string>) => new Set([...prev].filter((selectedId) => selectedId !== id))
+    setSelected(forget)
+    setAdvancedOpen(forget)
+    setMetadataOpen(forget)
   }
 
-  const compressImage = async (index: number) => {
-    const img = images[index]
-    if (!img) return
+  const runCompression = async (
+    id: string,
+    batchSignal?: AbortSignal,
+  ): Promise<{ blob: Blob; encoded: EncodeRecord; bytesSaved: number }> => {
+    const img = imagesRef.current.find((img) => img.id === id)
+    if (!img) throw new Error(t("compress.missingImage"))
 
-    setImages((prev) => {
-      const newImages = [...prev]
-      newImages[index] = { ...newImages[index], processing: true }
-      return newImages
-    })
+    // A full compression supersedes any preview still on its way.
+    cancelPreview(id)
+    const signal = batchSignal ? AbortSignal.any([cardSignal(id), batchSignal]) : cardSignal(id)
+    updateImage(id, (current) => ({ ...current, processing: true, error: undefined }))
 
     try {
-      const targetWidth = img.width ? Number.parseInt(img.width) : undefined
-      const targetHeight = img.height ? Number.parseInt(img.height) : undefined
+      const { blob, targetResult } = await encodeImage(img, false, signal)
 
-      const { blob } = await compressImageWithJSquash(img.file, img.quality, targetWidth, targetHeight, false)
+      // Taken from the settings this encode started with, not whatever the card shows when it lands.
+      const encoded = encodeRecordOf(img, targetResult)
+      const bytesSaved = img.originalSize - blob.size
 
-      const compressedPreview = URL.createObjectURL(blob)
+      const latest = imagesRef.current.find((current) => current.id === id)
+      if (latest && !sameEncodeInputs(latest, img)) {
+        // The settings changed while this was encoding, so the blob isn't the card's result any more.
+        updateImage(id, (current) => ({ ...current, processing: false }))
+        return { blob, encoded, bytesSaved }
+      }
 
-      setImages((prev) => {
-        const newImages = [...prev]
-        if (newImages[index].compressedPreview) {
-          URL.revokeObjectURL(newImages[index].compressedPreview!)
+      const compressedPreview = URL.createObjectURL(blob)
+      updateImage(id, (current) => {
+        if (current.compressedPreview) {
+          URL.revokeObjectURL(current.compressedPreview)
         }
-        newImages[index] = {
-          ...newImages[index],
+        return {
+          ...current,
           compressed: blob,
+          encoded,
           compressedSize: blob.size,
           compressedPreview,
+          targetResult,
+          metrics: undefined,
+          measuring: true,
           processing: false,
         }
-        return newImages
       })
+      measureQuality(img, blob, compressedPreview, signal)
+
+      return { blob, encoded, bytesSaved }
+    } catch (error) {
+      updateImage(id, (current) => ({
+        ...current,
+        processing: false,
+        error: isAbortError(error) ? undefined : (describeError(error, t) ?? t("compress.failed")),
+      }))
+      throw error
+    }
+  }
+
+  const measureQuality = async (img: CompressedImage, blob: Blob, compressedPreview: string, signal: AbortSignal) => {
+    let metrics: QualityMetrics | undefined
+    try {
+      // The still decoders can't read an animated WebP back, so animations go unmeasured.
+      metrics = animatesOutput(img)
+        ? undefined
+        : await getWorkerPool().run(
+            {
+              type: "metrics",
+              source: img.file,
+              encoded: blob,
+              format: img.format,
+              resample: img.resample,
+              metadata: img.metadata,
+              edits: img.edits,
+              maxPixels: img.oversize?.maxPixels,
+            },
+            { signal },
+          )
+    } catch (error) {
+      if (isAbortError(error)) return
+      console.error("Error measuring quality:", error)
+    }
+
+    updateImage(img.id, (current) =>
+      current.compressedPreview === compressedPreview ? { ...current, metrics, measuring: false } : current,
+    )
+  }
+
+  const generateResponsiveSet = async (id: string) => {
+    const img = imagesRef.current.find((img) => img.id === id)
+    const finalDimensions = img && calculateFinalDimensions(img)
+    if (!img?.dimensions || !finalDimensions) return
 
+    const plans = planResponsiveVariants(
+      img.dimensions.width,
+      finalDimensions.width,
+      parseNumberList(img.responsive.widths),
+      parseNumberList(img.responsive.densities),
+    )
+    if (plans.length === 0) {
       toast({
-        title: "¡Éxito!",
-        description: "Imagen comprimida correctamente",
+        title: t("toast.error"),
+        description: t("responsive.noWidths"),
+        variant: "destructive",
       })
+      return
+    }
+
+    const signal = cardSignal(img.id)
+    updateImage(img.id, (current) => ({ ...current, generatingSet: true }))
+
+    const aspectRatio = finalDimensions.height / finalDimensions.width
+    const baseName = sanitizeFilename(stripExtension(img.file.name))
+    const encodeVariants = (format: OutputFormat) =>
+      Promise.all(
+        plans.map(async (plan): Promise<ResponsiveVariant> => {
+          const encoder: EncoderSettings = { format, quality: img.quality, preview: false, options: img.formatOptions }
+          const height = Math.max(1, Math.round(plan.width * aspectRatio))
+          const { buffer, ...dimensions } = await getWorkerPool().run(
+            {
+              type: "compress",
+              file: img.file,
+              encoder,
+              resample: img.resample,
+              metadata: img.metadata,
+              edits: img.edits,
+              width: plan.width,
+              height,
+              maxPixels: img.oversize?.maxPixels,
+            },
+            { signal },
+          )
+          const blob = blobOf(buffer, format)
+          return {
+            ...plan,
+            height: dimensions.height,
+            file: `${baseName}-${plan.width}w.${OUTPUT_FORMATS[format].extension}`,
+            mimeType: OUTPUT_FORMATS[format].mimeType,
+            size: blob.size,
+            blob,
+          }
+        }),
+      )
+
+    try {
+      const needsFallback = img.responsive.jpegFallback && img.format !== "jpeg" && img.format !== "png"
+      const [variants, fallback] = await Promise.all([
+        encodeVariants(img.format),
+        needsFallback ? encodeVariants("jpeg") : Promise.resolve([]),
+      ])
+      const responsiveSet: ResponsiveSet = {
+        variants,
+        fallback,
+        markup: buildPictureMarkup(variants, fallback, { sizes: img.responsive.sizes, alt: img.file.name }),
+        manifest: buildResponsiveManifest(img.file.name, img.responsive.sizes, variants, fallback),
+      }
+
+      updateImage(img.id, (current) => ({ ...current, responsiveSet, generatingSet: false }))
     } catch (error) {
-      console.error("Error al comprimir:", error)
+      if (isAbortError(error)) return
+      console.error("Error generating responsive set:", error)
       toast({
-        title: "Error",
-        description: error instanceof Error ? error.message : "Hubo un problema al comprimir la imagen",
+        title: t("toast.error"),
+        description: describeError(error, t) ?? t("responsive.failed"),
         variant: "destructive",
       })
-      setImages((prev) => {
-        const newImages = [...prev]
-        newImages[index] = { ...newImages[index], processing: false }
-        return newImages
+      updateImage(img.id, (current) => ({ ...current, generatingSet: false }))
+    }
+  }
+
+  const copyResponsiveMarkup = async (responsiveSet: ResponsiveSet) => {
+    try {
+      await navigator.clipboard.writeText(responsiveSet.markup)
+      toast({
+        title: t("toast.copied"),
+        description: t("responsive.markupCopied"),
+      })
+    } catch (error) {
+      console.error("Error copying:", error)
+      toast({
+        title: t("toast.error"),
+        description: t("toast.copyFailed"),
+        variant: "destructive",
       })
     }
   }
 
-  const downloadImage = (img: CompressedImage, index: number) => {
-    if (!img.compressed) return
+  const downloadResponsiveSet = async (img: CompressedImage, responsiveSet: ResponsiveSet) => {
+    const entries: ZipEntry[] = await Promise.all(
+      [...responsiveSet.variants, ...responsiveSet.fallback].map(async (variant) => ({
+        name: variant.file,
+        data: new Uint8Array(await variant.blob.arrayBuffer()),
+      })),
+    )
+    entries.push({ name: "picture.html", data: responsiveSet.markup + "\n" })
+    entries.push({ name: "manifest.json", data: JSON.stringify(responsiveSet.manifest, null, 2) })
+    saveBlob(buildZipArchive(entries), `${sanitizeFilename(stripExtension(img.file.name))}-responsive.zip`)
+  }
+
+  // Tiles are cut from the untouched source at full resolution, one at a time so only one is
+  // ever decoded. The card's edits and size apply to the reduced working copy, not to them.
+  const exportTiles = async (id: string) => {
+    const img = imagesRef.current.find((img) => img.id === id)
+    if (!img?.oversize?.tiles) return
+
+    const signal = cardSignal(img.id)
+    updateImage(img.id, (current) => ({ ...current, exportingTiles: true }))
+
+    const { source, maxPixels } = img.oversize
+    const encoder: EncoderSettings = {
+      format: img.format,
+      quality: img.quality,
+      preview: false,
+      options: img.formatOptions,
+    }
+    const baseName = sanitizeFilename(stripExtension(img.file.name))
+    const extension = OUTPUT_FORMATS[img.format].extension
+    try {
+      const entries: ZipEntry[] = []
+      const tiles = []
+      for (const [i, region] of planTiles(source, maxPixels).entries()) {
+        const { buffer } = await getWorkerPool().run(
+          {
+            type: "compress",
+            file: img.file,
+            encoder,
+            resample: img.resample,
+            metadata: img.metadata,
+            edits: [],
+            region,
+          },
+          { signal },
+        )
+        const file = `${baseName}-tile-${String(i + 1).padStart(3, "0")}.${extension}`
+        entries.push({ name: file, data: new Uint8Array(buffer) })
+        tiles.push({ file, ...region })
+      }
+      const manifest = { source: img.file.name, width: source.width, height: source.height, tiles }
+      entries.push({ name: "tiles.json", data: JSON.stringify(manifest, null, 2) })
+      saveBlob(buildZipArchive(entries), `${baseName}-tiles.zip`)
+      updateImage(img.id, (current) => ({ ...current, exportingTiles: false }))
+    } catch (error) {
+      if (isAbortError(error)) return
+      console.error("Error exporting tiles:", error)
+      toast({
+        title: t("toast.error"),
+        description: describeError(error, t) ?? t("tiles.failed"),
+        variant: "destructive",
+      })
+      updateImage(img.id, (current) => ({ ...current, exportingTiles: false }))
+    }
+  }
+
+  const compressImage = async (id: string) => {
+    try {
+      await runCompression(id)
+
+      toast({
+        title: t("toast.success"),
+        description: t("compress.done"),
+      })
+    } catch (error) {
+      if (isAbortError(error)) return
+      console.error("Error compressing:", error)
+      toast({
+        title: t("toast.error"),
+        description: describeError(error, t) ?? t("compress.failed"),
+        variant: "destructive",
+      })
+    }
+  }
+
+  const startBatch = () => {
+    // Cards with a preview on its way are included: compressing them cancels the preview.
+    const pending = images.filter((img) => !img.compressed && !img.processing)
+
+    if (pending.length === 0) {
+      toast({
+        title: t("batch.nothingToCompress"),
+        description: t("batch.allCompressed"),
+      })
+      return
+    }
+
+    const queue = new BatchQueue<string>({
+      concurrency: batchConcurrency,
+      process: runCompression,
+      onItemError: (id, error) => {
+        const name = imagesRef.current.find((img) => img.id === id)?.file.name ?? id
+        console.error(`Error compressing ${name}:`, error)
+      },
+      onProgress: setBatchProgress,
+    })
+    batchQueueRef.current = queue
+    queue.start(pending.map((img) => img.id))
+  }
+
+  const updateBatchConcurrency = (value: number) => {
+    setBatchConcurrency(value)
+    batchQueueRef.current?.setConcurrency(value)
+  }
+
+  const updateImageLimits = (patch: Partial<ImageLimits>) => {
+    const next = { ...imageLimits, ...patch }
+    setImageLimits(next)
+    localStorage.setItem(IMAGE_LIMITS_STORAGE_KEY, JSON.stringify(next))
+  }
+
+  const updateFilenameTemplate = (template: string) => {
+    setFilenameTemplate(template)
+    localStorage.setItem(FILENAME_TEMPLATE_STORAGE_KEY, template)
+  }
+
+  const filenameContextOf = (img: CompressedImage, index: number, encoded: EncodeRecord) => ({
+    sourceName: img.file.name,
+    width: encoded.width ?? 0,
+    height: encoded.height ?? 0,
+    quality: encoded.quality,
+    format: encoded.format,
+    index: index + 1,
+  })
+
+  const getDownloadName = async (img: CompressedImage, index: number, blob: Blob, encoded: EncodeRecord) =>
+    renderFilename(filenameTemplate, {
+      ...filenameContextOf(img, index, encoded),
+      hash: templateUsesHash(filenameTemplate) ? await hashBlob(blob) : undefined,
+    })
 
-    const url = URL.createObjectURL(img.compressed)
+  const saveBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob)
     const a = document.createElement("a")
     a.href = url
-    a.download = `compressed-${index + 1}.avif`
+    a.download = filename
     document.body.appendChild(a)
     a.click()
     document.body.removeChild(a)
     URL.revokeObjectURL(url)
   }
 
-  const formatSize = (bytes: number) => {
-    if (bytes === 0) return "0 Bytes"
-    const k = 1024
-    const sizes = ["Bytes", "KB", "MB"]
-    const i = Math.floor(Math.log(bytes) / Math.log(k))
-    return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + " " + sizes[i]
+  const downloadImage = async (img: CompressedImage, index: number) => {
+    if (!img.compressed || !img.encoded) return
+    saveBlob(img.compressed, await getDownloadName(img, index, img.compressed, img.encoded))
+  }
+
+  const downloadAll = async () => {
+    setZipBuilding(true)
+    try {
+      const snapshot = imagesRef.current
+      const blobs = new Map<number, { blob: Blob; encoded: EncodeRecord }>()
+      const skipped: { source: string; reason: string }[] = []
+
+      await Promise.all(
+        snapshot.map(async (img, index) => {
+          if (img.compressed && img.encoded) {
+            blobs.set(index, { blob: img.compressed, encoded: img.encoded })
+          } else if (zipOptions.compressPending) {
+            try {
+              const { blob, encoded } = await runCompression(img.id)
+              blobs.set(index, { blob, encoded })
+            } catch (error) {
+              skipped.push({
+                source: img.file.name,
+                reason: describeError(error, t) ?? t("compress.failed"),
+              })
+            }
+          } else {
+            skipped.push({ source: img.file.name, reason: t("zip.notCompressed") })
+          }
+        }),
+      )
+
+      if (blobs.size === 0) {
+        toast({
+          title: t("zip.nothingToDownload"),
+          description: t("zip.compressFirst"),
+          variant: "destructive",
+        })
+        return
+      }
+
+      const entries: ZipEntry[] = []
+      const manifestFiles = []
+      // Templates without {index} or {hash8} can easily give two images the same name.
+      const usedNames = new Set(zipOptions.includeManifest ? ["manifest.json"] : [])
+      for (const [index, { blob, encoded }] of [...blobs.entries()].sort(([a], [b]) => a - b)) {
+        const img = snapshot[index]
+        const name = uniqueFilename(await getDownloadName(img, index, blob, encoded), usedNames)
+        entries.push({ name, data: new Uint8Array(await blob.arrayBuffer()) })
+        manifestFiles.push({
+          file: name,
+          source: img.file.name,
+          format: encoded.format,
+          quality: encoded.quality,
+          options: encoded.options,
+          resample: encoded.resample,
+          targetSize: encoded.targetBytes,
+          width: encoded.width,
+          height: encoded.height,
+          originalSize: img.originalSize,
+          compressedSize: blob.size,
+          metrics: img.compressed === blob ? img.metrics ?? null : null,
+        })
+      }
+
+      if (zipOptions.includeManifest) {
+        const manifest = { generatedAt: new Date().toISOString(), files: manifestFiles, skipped }
+        entries.push({ name: "manifest.json", data: JSON.stringify(manifest, null, 2) })
+      }
+
+      saveBlob(buildZipArchive(entries), "compressed-images.zip")
+
+      toast({
+        title: t("toast.success"),
+        description:
+          skipped.length > 0
+            ? t("zip.builtWithSkipped", { count: blobs.size, skipped: skipped.length })
+            : t("zip.built", { count: blobs.size }),
+      })
+    } catch (error) {
+      console.error("Error creating ZIP:", error)
+      toast({
+        title: t("toast.error"),
+        description: t("zip.failed"),
+        variant: "destructive",
+      })
+    } finally {
+      setZipBuilding(false)
+    }
+  }
+
+  const calculateFinalDimensions = (img: CompressedImage) => finalDimensions(img.dimensions, img.width, img.height)
+
+  // Formats the browser can't scale while decoding are decoded at full size before being reduced.
+  const decodedSizeOf = (img: CompressedImage) =>
+    img.oversize && !decodesInBrowser(img.sourceFormat) ? img.oversize.source : img.dimensions
+
+  const jobMemoryOf = (img: CompressedImage) => {
+    const decoded = decodedSizeOf(img)
+    const output = calculateFinalDimensions(img)
+    return decoded && output ? estimateJobMemory(decoded, output) : 0
+  }
+
+  const patchImageSettings = (id: string, patch: Partial<ImageSettings>) => {
+    updateImage(id, (current) => {
+      const patched = { ...current, ...patch }
+      // A blob encoded with the old settings is stale: the card goes back to pending for "Compress all".
+      return sameEncodeInputs(patched, current) ? patched : { ...patched, compressed: undefined, encoded: undefined }
+    })
+
+    // The responsive set is generated on demand and doesn't affect the preview.
+    if (Object.keys(patch).every((field) => field === "responsive")) return
+
+    // A preview still encoding the old settings is stale already, so it is dropped right away.
+    previews.schedule(id)
   }
 
-  const calculateFinalDimensions = (img: CompressedImage) => {
-    if (!img.dimensions) return null
+  const updateImageSettings = <K extends keyof ImageSettings>(id: string, field: K, value: ImageSettings[K]) => {
+    patchImageSettings(id, { [field]: value })
+  }
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (checked) {
+        next.add(id)
+      } else {
+        next.delete(id)
+      }
+      return next
+    })
+  }
+
+  const settingsOf = (img: CompressedImage): PresetSettings => ({
+    quality: img.quality,
+    width: img.width,
+    height: img.height,
+    format: img.format,
+    formatOptions: img.formatOptions,
+    resample: img.resample,
+    metadata: img.metadata,
+    sizeMode: img.sizeMode,
+    targetSize: img.targetSize,
+    allowDownscale: img.allowDownscale,
+  })
+
+  const applyPreset = (preset: Preset) => {
+    const targets = images.filter((img) => selected.has(img.id))
+    targets.forEach((img) => patchImageSettings(img.id, preset.settings))
+    toast({
+      title: t("presets.applied"),
+      description: t("presets.appliedDescription", { name: preset.name, count: targets.length }),
+    })
+  }
+
+  const confirmSavePreset = () => {
+    if (!presetDraft || !presetDraft.name.trim()) return
+    const img = images.find((img) => img.id === presetDraft.id)
+    if (!img) {
+      setPresetDraft(null)
+      return
+    }
+    savePreset(presetDraft.name, settingsOf(img))
+    toast({
+      title: t("presets.saved"),
+      description: t("presets.savedDescription", { name: presetDraft.name.trim() }),
+    })
+    setPresetDraft(null)
+  }
+
+  const handlePresetImport = (text: string) => {
+    try {
+      const count = importPresets(text)
+      toast({
+        title: t("presets.imported"),
+        description: t("presets.importedCount", { count }),
+      })
+    } catch (error) {
+      toast({
+        title: t("toast.error"),
+        description: describeError(error, t) ?? t("presets.importFailed"),
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handlePresetExport = () => {
+    saveBlob(new Blob([exportPresets()], { type: "application/json" }), "image-compressor-presets.json")
+  }
+
+  const updateFormatOptions = <F extends keyof FormatOptions>(
+    id: string,
+    format: F,
+    patch: Partial<FormatOptions[F]>,
+  ) => {
+    const img = imagesRef.current.find((img) => img.id === id)
+    if (!img) return
+    const next = { ...img.formatOptions, [format]: { ...img.formatOptions[format], ...patch } }
+    updateImageSettings(id, "formatOptions", next)
+
+    if (format === "avif") {
+      lastAvifOptionsRef.current = next.avif
+      localStorage.setItem(AVIF_OPTIONS_STORAGE_KEY, JSON.stringify(next.avif))
+    }
+  }
+
+  const toggleAdvanced = (id: string) => {
+    setAdvancedOpen((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const toggleMetadata = (id: string) => {
+    setMetadataOpen((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
 
-    const targetWidth = img.width ? Number.parseInt(img.width) : null
-    const targetHeight = img.height ? Number.parseInt(img.height) : null
+  const renderOversize = (img: CompressedImage, oversize: OversizeInfo) => {
+    const { width, height } = oversize.source
+    const working = fitWithinPixels(oversize.source, oversize.maxPixels)
+    return (
+      <div className="space-y-2 mb-6 text-sm">
+        <p className="flex items-center gap-2">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          {t("limits.oversized", {
+            width: String(width),
+            height: String(height),
+            megapixels: toMegapixels(width * height),
+            limit: toMegapixels(oversize.maxPixels),
+            workingWidth: String(working.width),
+            workingHeight: String(working.height),
+          })}
+        </p>
+        {!decodesInBrowser(img.sourceFormat) && <p className="text-muted-foreground">{t("limits.fullDecode")}</p>}
+        {oversize.tiles && (
+          <div className="flex flex-wrap items-center gap-3">
+            <Button size="sm" variant="outline" onClick={() => exportTiles(img.id)} disabled={img.exportingTiles}>
+              {img.exportingTiles ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Grid3x3 className="w-4 h-4 mr-2" />
+              )}
+              {t("tiles.export", { count: planTiles(oversize.source, oversize.maxPixels).length })}
+            </Button>
+            <span className="text-muted-foreground">
+              {t("tiles.description", { format: OUTPUT_FORMATS[img.format].label })}
+            </span>
+          </div>
+        )}
+      </div>
+    )
+  }
 
-    if (!targetWidth && !targetHeight) {
-      return img.dimensions
+  const renderAnimation = (img: CompressedImage, index: number, animation: AnimationInfo) => {
+    const settings = img.animationSettings
+    const updateAnimation = (patch: Partial<AnimationSettings>) =>
+      updateImageSettings(img.id, "animationSettings", { ...settings, ...patch })
+    const kept = keptFrameDurations(animation.durations, settings.frameStep)
+    const seconds = Math.round(animation.durations.reduce((total, duration) => total + duration, 0) / 100) / 10
+    const plays = (count: number) => (count === 0 ? t("animation.loops") : t("animation.plays", { count }))
+    const notes: string[] = []
+
+    if (img.format !== ANIMATED_OUTPUT_FORMAT) {
+      notes.push(t("animation.stillFormat", { format: OUTPUT_FORMATS[img.format].label }))
     }
+    if (img.sizeMode === "target") notes.push(t("animation.noTargetSize"))
+    notes.push(t("animation.editsApplyToAll"))
+
+    return (
+      <div className="space-y-3 mb-6">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id={`animate-${index}`}
+            checked={settings.animate}
+            onCheckedChange={(checked) => updateAnimation({ animate: checked === true })}
+          />
+          <Label htmlFor={`animate-${index}`}>{t("animation.keep")}</Label>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {t("animation.summary", { count: animation.frameCount, seconds, plays: plays(animation.loopCount) })}
+          {settings.animate
+            ? ` · ${t("animation.exportedFrames", { count: kept.length })}`
+            : `. ${t("animation.firstFrame")}`}
+        </p>
+        {settings.animate && (
+          <>
+            <div className="flex flex-wrap items-end gap-6">
+              <div className="space-y-2">
+                <Label>{t("animation.frames")}</Label>
+                <div className="flex flex-wrap gap-2">
+                  {FRAME_STEPS.map((step) => (
+                    <Button
+                      key={step}
+                      size="sm"
+                      variant={settings.frameStep === step ? "default" : "outline"}
+                      onClick={() => updateAnimation({ frameStep: step })}
+                    >
+                      {step === 1 ? t("animation.allFrames") : t("animation.everyNth", { step })}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`loop-count-${index}`}>{t("animation.loopCount")}</Label>
+                <Input
+                  id={`loop-count-${index}`}
+                  type="number"
+                  min="0"
+                  max="65535"
+                  className="w-40"
+                  placeholder={t("animation.originalLoopCount", { count: animation.loopCount })}
+                  value={settings.loopCount ?? ""}
+                  onChange={(e) =>
+                    updateAnimation({
+                      loopCount: e.target.value === "" ? null : Math.max(0, Number.parseInt(e.target.value) || 0),
+                    })
+                  }
+                />
+              </div>
+            </div>
+            <div className="flex gap-1 overflow-x-auto pb-1">
+              {animation.strip.map(({ index: frame, src }) => (
+                <img
+                  key={frame}
+                  src={src}
+                  alt={t("animation.frame", { frame: frame + 1 })}
+                  title={`${t("animation.frame", { frame: frame + 1 })} · ${animation.durations[frame]} ms`}
+                  className={`h-12 w-auto rounded border ${isKeptFrame(frame, settings.frameStep) ? "" : "opacity-30"}`}
+                />
+              ))}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {animation.frameCount > MAX_STRIP_FRAMES &&
+                `${t("animation.stripSample", { shown: MAX_STRIP_FRAMES, count: animation.frameCount })} `}
+              {notes.join(". ")}.
+            </p>
+          </>
+        )}
+      </div>
+    )
+  }
 
-    if (targetWidth && targetHeight) {
-      return { width: targetWidth, height: targetHeight }
+  const renderMetadata = (img: CompressedImage, index: number) => {
+    const source = img.sourceMetadata
+    const icc = source?.icc
+    const exif = source?.exif
+    const keepsIcc = img.metadata.keepIcc && icc && ICC_EMBED_FORMATS.includes(img.format)
+    const notes: string[] = []
+
+    if (exif && exif.orientation !== 1) notes.push(t("metadata.orientationApplied"))
+    if (icc && !keepsIcc && !icc.srgb) {
+      notes.push(
+        icc.convertible
+          ? t("metadata.iccConverted", { profile: icc.description })
+          : t("metadata.iccNotConvertible", { profile: icc.description }),
+      )
     }
-
-    const aspectRatio = img.dimensions.width / img.dimensions.height
-
-    if (targetWidth) {
-      return { width: targetWidth, height: Math.round(targetWidth / aspectRatio) }
+    if (img.metadata.keepIcc && icc && !keepsIcc) {
+      notes.push(t("metadata.iccNotSupported", { format: OUTPUT_FORMATS[img.format].label }))
     }
-
-    if (targetHeight) {
-      return { width: Math.round(targetHeight * aspectRatio), height: targetHeight }
+    if (img.metadata.keepAuthor && !exif?.artist && !exif?.copyright) {
+      notes.push(t("metadata.noAuthor"))
     }
 
-    return img.dimensions
+    const fields = [
+      ...(icc ? [{ label: t("metadata.iccProfile"), value: icc.description }] : []),
+      ...(exif?.fields ?? []).map(({ key, value }) => ({
+        label: t(`exif.${key}` as const),
+        value: key === "orientation" ? t(`exif.orientationValue.${value}` as MessageKey) : value,
+      })),
+      ...(source?.xmp ? [{ label: "XMP", value: t("metadata.xmpPresent") }] : []),
+    ]
+    const isOpen = metadataOpen.has(img.id)
+
+    return (
+      <div className="space-y-3 mt-6">
+        <Label>{t("metadata.title")}</Label>
+        <div className="flex flex-wrap gap-6">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`keep-author-${index}`}
+              checked={img.metadata.keepAuthor}
+              onCheckedChange={(checked) =>
+                updateImageSettings(img.id, "metadata", { ...img.metadata, keepAuthor: checked === true })
+              }
+            />
+            <Label htmlFor={`keep-author-${index}`}>{t("metadata.keepAuthor")}</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`keep-icc-${index}`}
+              checked={img.metadata.keepIcc}
+              onCheckedChange={(checked) => updateImageSettings(img.id, "metadata", { ...img.metadata, keepIcc: checked === true })}
+            />
+            <Label htmlFor={`keep-icc-${index}`}>{t("metadata.keepIcc")}</Label>
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {t("metadata.stripped")}
+          {notes.length > 0 && ` ${notes.join(". ")}.`}
+        </p>
+        {fields.length > 0 && (
+          <>
+            <Button size="sm" variant="ghost" className="px-0" onClick={() => toggleMetadata(img.id)}>
+              {isOpen ? <ChevronUp className="w-4 h-4 mr-1" /> : <ChevronDown className="w-4 h-4 mr-1" />}
+              {t("metadata.original", { count: fields.length })}
+            </Button>
+            {isOpen && (
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 rounded-lg border p-4 text-sm">
+                {fields.map((field) => (
+                  <Fragment key={field.label}>
+                    <dt className="text-muted-foreground">{field.label}</dt>
+                    <dd className="break-words">{field.value}</dd>
+                  </Fragment>
+                ))}
+              </dl>
+            )}
+          </>
+        )}
+      </div>
+    )
   }
 
-  const updateImageSettings = (index: number, field: "quality" | "width" | "height", value: number | string) => {
-    setImages((prev) => {
-      const newImages = [...prev]
-      if (field === "quality") {
-        newImages[index] = { ...newImages[index], quality: value as number }
-      } else {
-        newImages[index] = { ...newImages[index], [field]: value as string }
-      }
-      return newImages
-    })
-
-    const timeoutId = previewTimeoutRefs.current.get(index)
-    if (timeoutId) {
-      clearTimeout(timeoutId)
-    }
+  const renderFormatOptions = (img: CompressedImage, index: number) => {
+    const options = img.formatOptions
+    const checkbox = (id: string, label: string, checked: boolean, onChange: (checked: boolean) => void) => (
+      <div className="flex items-center gap-2">
+        <Checkbox id={`${id}-${index}`} checked={checked} onCheckedChange={(value) => onChange(value === true)} />
+        <Label htmlFor={`${id}-${index}`}>{label}</Label>
+      </div>
+    )
 
-    const newTimeoutId = setTimeout(() => {
-      updatePreview(index)
-    }, 1500)
+    const optionButtons = <T extends string | number>(
+      label: string,
+      choices: { label: string; value: T }[],
+      current: T,
+      onChange: (value: T) => void,
+    ) => (
+      <div className="space-y-2">
+        <Label>{label}</Label>
+        <div className="flex flex-wrap gap-2">
+          {choices.map((choice) => (
+            <Button
+              key={choice.label}
+              size="sm"
+              variant={current === choice.value ? "default" : "outline"}
+              onClick={() => onChange(choice.value)}
+            >
+              {choice.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+    )
 
-    previewTimeoutRefs.current.set(index, newTimeoutId)
+    switch (img.format) {
+      case "avif": {
+        const avif = options.avif
+        const isOpen = advancedOpen.has(img.id)
+        return (
+          <div className="space-y-4">
+            <Button size="sm" variant="ghost" onClick={() => toggleAdvanced(img.id)}>
+              {isOpen ? <ChevronUp className="w-4 h-4 mr-2" /> : <ChevronDown className="w-4 h-4 mr-2" />}
+              {t("formatOptions.advanced")}
+            </Button>
+            {isOpen && (
+              <div className="grid md:grid-cols-3 gap-6 rounded-lg border p-4">
+                <div className="space-y-2">
+                  <Label>{t("formatOptions.speed", { speed: avif.speed })}</Label>
+                  <Slider
+                    value={[avif.speed]}
+                    onValueChange={(value) => updateFormatOptions(img.id, "avif", { speed: value[0] })}
+                    min={0}
+                    max={10}
+                    step={1}
+                  />
+                  <p className="text-xs text-muted-foreground">{t("formatOptions.speedHint")}</p>
+                </div>
+                {optionButtons(
+                  t("formatOptions.subsample"),
+                  [
+                    { label: "4:2:0", value: 1 as const },
+                    { label: "4:4:4", value: 3 as const },
+                  ],
+                  avif.subsample,
+                  (subsample) => updateFormatOptions(img.id, "avif", { subsample }),
+                )}
+                {optionButtons(
+                  t("formatOptions.tune"),
+                  [
+                    { label: "Auto", value: 0 as const },
+                    { label: "PSNR", value: 1 as const },
+                    { label: "SSIM", value: 2 as const },
+                  ],
+                  avif.tune,
+                  (tune) => updateFormatOptions(img.id, "avif", { tune }),
+                )}
+                <div className="space-y-2">
+                  <Label>
+                    {avif.qualityAlpha === -1
+                      ? t("formatOptions.alphaQualitySame")
+                      : t("formatOptions.alphaQuality", { quality: avif.qualityAlpha })}
+                  </Label>
+                  <Slider
+                    value={[avif.qualityAlpha === -1 ? img.quality : avif.qualityAlpha]}
+                    onValueChange={(value) => updateFormatOptions(img.id, "avif", { qualityAlpha: value[0] })}
+                    min={0}
+                    max={100}
+                    step={1}
+                    disabled={avif.qualityAlpha === -1}
+                  />
+                  {checkbox(
+                    "avif-alpha-separate",
+                    t("formatOptions.separateAlpha"),
+                    avif.qualityAlpha !== -1,
+                    (separate) => updateFormatOptions(img.id, "avif", { qualityAlpha: separate ? img.quality : -1 }),
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label>{t("formatOptions.sharpness", { sharpness: avif.sharpness })}</Label>
+                  <Slider
+                    value={[avif.sharpness]}
+                    onValueChange={(value) => updateFormatOptions(img.id, "avif", { sharpness: value[0] })}
+                    min={0}
+                    max={7}
+                    step={1}
+                  />
+                </div>
+                {optionButtons(
+                  t("formatOptions.bitDepth"),
+                  [
+                    { label: t("formatOptions.bits", { bits: 8 }), value: 8 as const },
+                    { label: t("formatOptions.bits", { bits: 10 }), value: 10 as const },
+                    { label: t("formatOptions.bits", { bits: 12 }), value: 12 as const },
+                  ],
+                  avif.bitDepth,
+                  (bitDepth) => updateFormatOptions(img.id, "avif", { bitDepth }),
+                )}
+                {checkbox("avif-lossless", t("formatOptions.lossless"), avif.lossless, (lossless) =>
+                  updateFormatOptions(img.id, "avif", { lossless }),
+                )}
+              </div>
+            )}
+          </div>
+        )
+      }
+      case "webp":
+        return (
+          <div className="grid md:grid-cols-3 gap-6 items-end">
+            <div className="space-y-2">
+              <Label>{t("formatOptions.effort", { effort: options.webp.method })}</Label>
+              <Slider
+                value={[options.webp.method]}
+                onValueChange={(value) => updateFormatOptions(img.id, "webp", { method: value[0] })}
+                min={0}
+                max={6}
+                step={1}
+              />
+            </div>
+            {checkbox("webp-lossless", t("formatOptions.lossless"), options.webp.lossless, (lossless) =>
+              updateFormatOptions(img.id, "webp", { lossless }),
+            )}
+          </div>
+        )
+      case "jpeg":
+        return checkbox(
+          "jpeg-progressive",
+          t("formatOptions.progressiveJpeg"),
+          options.jpeg.progressive,
+          (progressive) => updateFormatOptions(img.id, "jpeg", { progressive }),
+        )
+      case "png":
+        return (
+          <div className="grid md:grid-cols-3 gap-6 items-end">
+            <div className="space-y-2">
+              <Label>{t("formatOptions.optimizationLevel", { level: options.png.level })}</Label>
+              <Slider
+                value={[options.png.level]}
+                onValueChange={(value) => updateFormatOptions(img.id, "png", { level: value[0] })}
+                min={1}
+                max={6}
+                step={1}
+              />
+            </div>
+            {checkbox("png-interlace", t("formatOptions.interlaced"), options.png.interlace, (interlace) =>
+              updateFormatOptions(img.id, "png", { interlace }),
+            )}
+          </div>
+        )
+      case "jxl":
+        return (
+          <div className="grid md:grid-cols-3 gap-6 items-end">
+            <div className="space-y-2">
+              <Label>{t("formatOptions.effort", { effort: options.jxl.effort })}</Label>
+              <Slider
+                value={[options.jxl.effort]}
+                onValueChange={(value) => updateFormatOptions(img.id, "jxl", { effort: value[0] })}
+                min={1}
+                max={9}
+                step={1}
+              />
+            </div>
+            {checkbox("jxl-lossless", t("formatOptions.lossless"), options.jxl.lossless, (lossless) =>
+              updateFormatOptions(img.id, "jxl", { lossless }),
+            )}
+            {checkbox("jxl-progressive", t("formatOptions.progressive"), options.jxl.progressive, (progressive) =>
+              updateFormatOptions(img.id, "jxl", { progressive }),
+            )}
+          </div>
+        )
+      default:
+        return null
+    }
   }
 
-  const updatePreview = async (index: number) => {
-    const img = images[index]
+  // Runs from a timeout, so the card is read from the ref: the render that scheduled it is stale by now.
+  // The scheduler keeps the card's in-flight flag, including when the preview is cancelled.
+  const updatePreview = async (id: string, signal: AbortSignal) => {
+    const img = imagesRef.current.find((img) => img.id === id)
     if (!img) return
 
-    setImages((prev) => {
-      const newImages = [...prev]
-      newImages[index] = { ...newImages[index], processing: true }
-      return newImages
-    })
-
     try {
-      const targetWidth = img.width ? Number.parseInt(img.width) : undefined
-      const targetHeight = img.height ? Number.parseInt(img.height) : undefined
-
-      const { blob } = await compressImageWithJSquash(img.file, img.quality, targetWidth, targetHeight, true)
+      const { blob, targetResult } = await encodeImage(img, true, signal)
       const compressedPreview = URL.createObjectURL(blob)
 
-      setImages((prev) => {
-        const newImages = [...prev]
-        if (newImages[index].compressedPreview) {
-          URL.revokeObjectURL(newImages[index].compressedPreview!)
+      updateImage(id, (current) => {
+        if (current.compressedPreview) {
+          URL.revokeObjectURL(current.compressedPreview)
         }
-        newImages[index] = {
-          ...newImages[index],
+        return {
+          ...current,
           compressedPreview,
           compressedSize: blob.size,
-          processing: false,
+          targetResult,
+          metrics: undefined,
+          measuring: true,
         }
-        return newImages
       })
+      measureQuality(img, blob, compressedPreview, signal)
     } catch (error) {
-      console.error("Error en preview:", error)
-      setImages((prev) => {
-        const newImages = [...prev]
-        newImages[index] = { ...newImages[index], processing: false }
-        return newImages
-      })
+      if (isAbortError(error)) return
+      console.error("Error rendering preview:", error)
     }
   }
+  updatePreviewRef.current = updatePreview
+
+  // {hash8} depends on the encoded bytes, so the example shows a stand-in.
+  const filenameExample =
+    images.length > 0
+      ? renderFilename(filenameTemplate, {
+          ...filenameContextOf(images[0], 0, images[0].encoded ?? encodeRecordOf(images[0], images[0].targetResult)),
+          hash: "3fa91c07",
+        })
+      : ""
+
+  // The worst case for a batch: the heaviest pending images all running at once.
+  const batchPeakMemory = images
+    .filter((img) => !img.compressed)
+    .map(jobMemoryOf)
+    .sort((a, b) => b - a)
+    .slice(0, batchConcurrency)
+    .reduce((total, bytes) => total + bytes, 0)
+
+  const cropImage = images.find((img) => img.id === currentCropId)
+
+  const compareIndex = images.findIndex((img) => img.id === compareId)
+  const compareImage = compareIndex !== -1 ? images[compareIndex] : undefined
+  const compareDimensions = compareImage && (compareImage.targetResult?.dimensions ?? calculateFinalDimensions(compareImage))
 
   return (
     <div className="max-w-7xl mx-auto space-y-6">
-      <div className="flex items-center justify-center py-8 border-border border-b-0">
+      <div className="relative flex items-center justify-center py-8 border-border border-b-0">
         <div className="w-48 h-16 rounded-lg flex items-center justify-center bg-[rgba(54,54,54,0)]">
           <img
             src="/images/design-mode/Frame%201000003885(1).png"
-            alt="Logo de la empresa"
+            alt={t("header.logo")}
             className="max-w-full max-h-full object-contain p-2"
           />
         </div>
+        <div role="group" aria-label={t("language.label")} className="absolute right-0 flex gap-1">
+          {(Object.keys(LOCALES) as Locale[]).map((option) => (
+            <Button
+              key={option}
+              size="sm"
+              variant={locale === option ? "default" : "ghost"}
+              lang={option}
+              onClick={() => setLocale(option)}
+            >
+              {LOCALES[option].label}
+            </Button>
+          ))}
+        </div>
       </div>
 
       <Card className="p-8">
@@ -495,109 +1936,606 @@ export default function ImageCompressor() {
           onDragOver={(e) => e.preventDefault()}
           className="border-2 border-dashed border-border rounded-lg p-12 text-center hover:border-primary transition-colors cursor-pointer"
         >
-          <input type="file" id="file-input" multiple accept="image/*" onChange={handleFileInput} className="hidden" />
+          <input type="file" id="file-input" multiple accept={ACCEPTED_INPUT_TYPES} onChange={handleFileInput} className="hidden" />
+          <input type="file" id="folder-input" ref={folderInputRef} multiple onChange={handleFileInput} className="hidden" />
           <label htmlFor="file-input" className="cursor-pointer">
             <Upload className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
-            <p className="text-lg font-medium mb-2">Arrastra imágenes aquí o haz clic para seleccionar</p>
-            <p className="text-sm text-muted-foreground">Soporta JPG, PNG, WebP y otros formatos</p>
+            <p className="text-lg font-medium mb-2">{t("upload.prompt")}</p>
+            <p className="text-sm text-muted-foreground">
+              {t("upload.formats", {
+                formats: new Intl.ListFormat(locale, { type: "conjunction" }).format(SOURCE_FORMAT_LABELS),
+              })}
+            </p>
+            <p className="text-sm text-muted-foreground">{t("upload.paste")}</p>
           </label>
+          <Button variant="outline" size="sm" className="mt-4" onClick={() => folderInputRef.current?.click()}>
+            <FolderOpen className="w-4 h-4 mr-2" />
+            {t("upload.chooseFolder")}
+          </Button>
+        </div>
+        <div className="flex flex-wrap items-end gap-4 mt-6">
+          <div className="space-y-2">
+            <Label htmlFor="max-megapixels">{t("limits.maxMegapixels")}</Label>
+            <Input
+              id="max-megapixels"
+              type="number"
+              min={1}
+              value={imageLimits.maxMegapixels}
+              onChange={(e) => {
+                const value = Number.parseFloat(e.target.value)
+                if (value > 0) updateImageLimits({ maxMegapixels: value })
+              }}
+              className="w-28"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="max-file-size">{t("limits.maxFileSize")}</Label>
+            <Input
+              id="max-file-size"
+              type="number"
+              min={1}
+              value={imageLimits.maxFileMegabytes}
+              onChange={(e) => {
+                const value = Number.parseFloat(e.target.value)
+                if (value > 0) updateImageLimits({ maxFileMegabytes: value })
+              }}
+              className="w-28"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>{t("limits.oversizedPolicy")}</Label>
+            <div className="flex flex-wrap gap-2">
+              {OVERSIZE_POLICIES.map((policy) => (
+                <Button
+                  key={policy}
+                  size="sm"
+                  variant={imageLimits.oversized === policy ? "default" : "outline"}
+                  title={t(`limits.policy.${policy}.description`)}
+                  onClick={() => updateImageLimits({ oversized: policy })}
+                >
+                  {t(`limits.policy.${policy}.label`)}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">{t(`limits.policy.${imageLimits.oversized}.description`)}</p>
         </div>
       </Card>
 
+      <PresetManager
+        presets={presets}
+        defaultPresetId={defaultPresetId}
+        selectedCount={selected.size}
+        totalCount={images.length}
+        onSelectAll={(all) => setSelected(all ? new Set(images.map((img) => img.id)) : new Set())}
+        onApply={applyPreset}
+        onSetDefault={setDefaultPreset}
+        onRemove={removePreset}
+        onImport={handlePresetImport}
+        onExport={handlePresetExport}
+      />
+
+      {images.length > 0 && (
+        <Card className="p-6 space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="batch-concurrency">{t("batch.concurrency")}</Label>
+              <Input
+                id="batch-concurrency"
+                type="number"
+                min={1}
+                max={8}
+                value={batchConcurrency}
+                onChange={(e) => updateBatchConcurrency(Math.min(8, Math.max(1, Number.parseInt(e.target.value) || 1)))}
+                className="w-24"
+              />
+              {batchPeakMemory > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {t("batch.peakMemory", { size: formatSize(batchPeakMemory) })}
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="zip-manifest"
+                  checked={zipOptions.includeManifest}
+                  onCheckedChange={(checked) => setZipOptions((prev) => ({ ...prev, includeManifest: checked === true }))}
+                />
+                <Label htmlFor="zip-manifest">{t("zip.includeManifest")}</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="zip-compress-pending"
+                  checked={zipOptions.compressPending}
+                  onCheckedChange={(checked) => setZipOptions((prev) => ({ ...prev, compressPending: checked === true }))}
+                />
+                <Label htmlFor="zip-compress-pending">{t("zip.compressPending")}</Label>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="filename-template">{t("filenames.label")}</Label>
+              <Input
+                id="filename-template"
+                value={filenameTemplate}
+                onChange={(e) => updateFilenameTemplate(e.target.value)}
+                placeholder={DEFAULT_FILENAME_TEMPLATE}
+                className="w-72 font-mono"
+              />
+              <div className="flex flex-wrap gap-1">
+                {FILENAME_TOKENS.map((token) => (
+                  <button
+                    key={token}
+                    type="button"
+                    title={t(`filenames.token.${token}`)}
+                    onClick={() => updateFilenameTemplate(`${filenameTemplate}{${token}}`)}
+                    className="rounded border px-1.5 py-0.5 font-mono text-xs text-muted-foreground hover:text-foreground"
+                  >
+                    {`{${token}}`}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {t("filenames.example")} <span className="font-mono">{filenameExample}</span>
+              </p>
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                {storageUsage && storageUsage.quota > 0
+                  ? t("session.savedUsage", {
+                      usage: formatSize(storageUsage.usage),
+                      quota: formatSize(storageUsage.quota),
+                    })
+                  : t("session.saved")}
+              </p>
+              {storageUsage && storageUsage.quota > 0 && (
+                <Progress value={(storageUsage.usage / storageUsage.quota) * 100} className="h-1.5 w-56" />
+              )}
+              <Button variant="ghost" size="sm" onClick={clearWorkingSession} disabled={batchActive || zipBuilding}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                {t("session.clear")}
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2 ml-auto">
+              <Button variant="outline" onClick={downloadAll} disabled={zipBuilding || batchActive}>
+                {zipBuilding ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Archive className="w-4 h-4 mr-2" />}
+                {t("zip.downloadAll")}
+              </Button>
+              {!batchActive ? (
+                <Button onClick={startBatch} disabled={zipBuilding}>
+                  <Layers className="w-4 h-4 mr-2" />
+                  {t("batch.compressAll")}
+                </Button>
+              ) : (
+                <>
+                  {batchProgress?.status === "running" ? (
+                    <Button variant="outline" onClick={() => batchQueueRef.current?.pause()}>
+                      <Pause className="w-4 h-4 mr-2" />
+                      {t("batch.pause")}
+                    </Button>
+                  ) : (
+                    <Button variant="outline" onClick={() => batchQueueRef.current?.resume()}>
+                      <Play className="w-4 h-4 mr-2" />
+                      {t("batch.resume")}
+                    </Button>
+                  )}
+                  <Button variant="destructive" onClick={() => batchQueueRef.current?.cancel()}>
+                    <Square className="w-4 h-4 mr-2" />
+                    {t("batch.cancel")}
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+
+          {batchProgress && batchProgress.total > 0 && (
+            <div className="space-y-2">
+              <Progress value={((batchProgress.completed + batchProgress.failed) / batchProgress.total) * 100} />
+              <div className="flex flex-wrap justify-between gap-2 text-sm text-muted-foreground">
+                <span>
+                  {t("batch.processed", {
+                    done: batchProgress.completed + batchProgress.failed,
+                    count: batchProgress.total,
+                  })}
+                  {batchProgress.failed > 0 && (
+                    <span className="text-destructive">
+                      {" "}
+                      · {t("batch.failedCount", { count: batchProgress.failed })}
+                    </span>
+                  )}
+                </span>
+                <span>{t("batch.saved", { size: formatSize(Math.max(0, batchProgress.bytesSaved)) })}</span>
+                <span>
+                  {batchProgress.status === "paused" && t("batch.paused")}
+                  {batchProgress.status === "cancelled" && t("batch.cancelled")}
+                  {batchProgress.status === "done" && t("batch.done")}
+                  {batchProgress.status === "running" &&
+                    (batchProgress.etaMs !== null
+                      ? t("batch.remaining", { time: formatDuration(batchProgress.etaMs) })
+                      : t("batch.estimating"))}
+                </span>
+              </div>
+            </div>
+          )}
+        </Card>
+      )}
+
       {images.length > 0 && (
         <div className="space-y-4">
           {images.map((img, index) => {
             const finalDimensions = calculateFinalDimensions(img)
             return (
-              <Card key={index} className="p-6 relative">
+              <Card key={img.id} className={`p-6 relative ${img.error ? "border-destructive" : ""}`}>
                 <Button
                   size="icon"
                   variant="destructive"
                   className="absolute top-4 right-4 z-10"
-                  onClick={() => removeImage(index)}
+                  onClick={() => removeImage(img.id)}
+                  disabled={batchActive}
                 >
                   <X className="w-4 h-4" />
                 </Button>
 
                 <div className="mb-6">
-                  <h3 className="text-lg font-semibold mb-4">Configuración - Imagen {index + 1}</h3>
-                  <div className="grid md:grid-cols-3 gap-6">
-                    <div className="space-y-2">
-                      <Label>Calidad: {img.quality}%</Label>
-                      <Slider
-                        value={[img.quality]}
-                        onValueChange={(value) => updateImageSettings(index, "quality", value[0])}
-                        min={1}
-                        max={100}
-                        step={1}
-                        className="w-full"
-                      />
+                  <div className="flex flex-wrap items-center gap-3 mb-4 pr-12">
+                    <Checkbox
+                      id={`select-image-${index}`}
+                      checked={selected.has(img.id)}
+                      onCheckedChange={(checked) => toggleSelected(img.id, checked === true)}
+                      aria-label={t("card.select", { number: index + 1 })}
+                    />
+                    <h3 className="text-lg font-semibold">{t("card.title", { number: index + 1 })}</h3>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="ml-auto"
+                      onClick={() => setPresetDraft({ id: img.id, name: "" })}
+                    >
+                      <Save className="w-4 h-4 mr-2" />
+                      {t("presets.saveAs")}
+                    </Button>
+                  </div>
+                  <div className="space-y-3 mb-6">
+                    <Label>{t("card.outputFormat")}</Label>
+                    <div className="flex flex-wrap gap-2">
+                      {(Object.keys(OUTPUT_FORMATS) as OutputFormat[]).map((format) => (
+                        <Button
+                          key={format}
+                          size="sm"
+                          variant={img.format === format ? "default" : "outline"}
+                          onClick={() => updateImageSettings(img.id, "format", format)}
+                        >
+                          {OUTPUT_FORMATS[format].label}
+                        </Button>
+                      ))}
                     </div>
+                    {renderFormatOptions(img, index)}
+                  </div>
+                  {img.animation && renderAnimation(img, index, img.animation)}
+                  {img.oversize && renderOversize(img, img.oversize)}
+                  <div className="grid md:grid-cols-3 gap-6">
+                    {!formatUsesQuality(img.format, img.formatOptions) ? (
+                      <div className="space-y-2">
+                        <Label>{t("card.quality")}</Label>
+                        <p className="text-sm text-muted-foreground">
+                          {t("card.losslessQuality", { format: OUTPUT_FORMATS[img.format].label })}
+                        </p>
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant={img.sizeMode === "quality" ? "default" : "outline"}
+                            onClick={() => updateImageSettings(img.id, "sizeMode", "quality")}
+                          >
+                            {t("card.quality")}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant={img.sizeMode === "target" ? "default" : "outline"}
+                            onClick={() => updateImageSettings(img.id, "sizeMode", "target")}
+                          >
+                            {t("card.targetSize")}
+                          </Button>
+                        </div>
+                        {img.sizeMode === "quality" ? (
+                          <>
+                            <Label>{t("card.qualityValue", { quality: img.quality })}</Label>
+                            <Slider
+                              value={[img.quality]}
+                              onValueChange={(value) => updateImageSettings(img.id, "quality", value[0])}
+                              min={1}
+                              max={100}
+                              step={1}
+                              className="w-full"
+                            />
+                          </>
+                        ) : (
+                          <>
+                            <Label htmlFor={`target-size-${index}`}>{t("card.maxSize")}</Label>
+                            <Input
+                              id={`target-size-${index}`}
+                              type="number"
+                              min="1"
+                              value={img.targetSize}
+                              onChange={(e) => updateImageSettings(img.id, "targetSize", e.target.value)}
+                            />
+                            <div className="flex items-center gap-2">
+                              <Checkbox
+                                id={`allow-downscale-${index}`}
+                                checked={img.allowDownscale}
+                                onCheckedChange={(checked) => updateImageSettings(img.id, "allowDownscale", checked === true)}
+                              />
+                              <Label htmlFor={`allow-downscale-${index}`}>{t("card.allowDownscale")}</Label>
+                            </div>
+                          </>
+                        )}
+                      </div>
+                    )}
                     <div className="space-y-2">
-                      <Label htmlFor={`width-${index}`}>Ancho (px)</Label>
+                      <Label htmlFor={`width-${index}`}>{t("card.width")}</Label>
                       <Input
                         id={`width-${index}`}
                         type="number"
                         placeholder="Auto"
                         value={img.width}
-                        onChange={(e) => updateImageSettings(index, "width", e.target.value)}
+                        onChange={(e) => updateImageSettings(img.id, "width", e.target.value)}
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor={`height-${index}`}>Alto (px)</Label>
+                      <Label htmlFor={`height-${index}`}>{t("card.height")}</Label>
                       <Input
                         id={`height-${index}`}
                         type="number"
                         placeholder="Auto"
                         value={img.height}
-                        onChange={(e) => updateImageSettings(index, "height", e.target.value)}
+                        onChange={(e) => updateImageSettings(img.id, "height", e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-3 mt-6">
+                    <Label>{t("card.resample")}</Label>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {(Object.keys(RESAMPLE_METHODS) as ResampleMethod[]).map((method) => (
+                        <Button
+                          key={method}
+                          size="sm"
+                          variant={img.resample.method === method ? "default" : "outline"}
+                          onClick={() => updateImageSettings(img.id, "resample", { ...img.resample, method })}
+                        >
+                          {RESAMPLE_METHODS[method]}
+                        </Button>
+                      ))}
+                    </div>
+                    <div className="flex flex-wrap gap-6">
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id={`linear-rgb-${index}`}
+                          checked={img.resample.linearRGB}
+                          onCheckedChange={(checked) =>
+                            updateImageSettings(img.id, "resample", { ...img.resample, linearRGB: checked === true })
+                          }
+                        />
+                        <Label htmlFor={`linear-rgb-${index}`}>{t("card.linearRgb")}</Label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id={`premultiply-${index}`}
+                          checked={img.resample.premultiply}
+                          onCheckedChange={(checked) =>
+                            updateImageSettings(img.id, "resample", { ...img.resample, premultiply: checked === true })
+                          }
+                        />
+                        <Label htmlFor={`premultiply-${index}`}>{t("card.premultiply")}</Label>
+                      </div>
+                    </div>
+                  </div>
+                  {renderMetadata(img, index)}
+                  <div className="space-y-3 mt-6">
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id={`responsive-${index}`}
+                        checked={img.responsive.enabled}
+                        onCheckedChange={(checked) =>
+                          updateImageSettings(img.id, "responsive", { ...img.responsive, enabled: checked === true })
+                        }
                       />
+                      <Label htmlFor={`responsive-${index}`}>{t("responsive.enable")}</Label>
                     </div>
+                    {img.responsive.enabled && (
+                      <div className="space-y-4 rounded-lg border p-4">
+                        <div className="grid md:grid-cols-3 gap-6">
+                          <div className="space-y-2">
+                            <Label htmlFor={`responsive-widths-${index}`}>{t("responsive.widths")}</Label>
+                            <Input
+                              id={`responsive-widths-${index}`}
+                              placeholder="480, 800, 1200"
+                              value={img.responsive.widths}
+                              onChange={(e) =>
+                                updateImageSettings(img.id, "responsive", { ...img.responsive, widths: e.target.value })
+                              }
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor={`responsive-densities-${index}`}>{t("responsive.densities")}</Label>
+                            <Input
+                              id={`responsive-densities-${index}`}
+                              placeholder="1x, 2x, 3x"
+                              value={img.responsive.densities}
+                              onChange={(e) =>
+                                updateImageSettings(img.id, "responsive", { ...img.responsive, densities: e.target.value })
+                              }
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor={`responsive-sizes-${index}`}>{t("responsive.sizes")}</Label>
+                            <Input
+                              id={`responsive-sizes-${index}`}
+                              placeholder="(min-width: 1024px) 50vw, 100vw"
+                              value={img.responsive.sizes}
+                              onChange={(e) =>
+                                updateImageSettings(img.id, "responsive", { ...img.responsive, sizes: e.target.value })
+                              }
+                            />
+                          </div>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {t("responsive.hint", { width: finalDimensions ? String(finalDimensions.width) : "?" })}
+                        </p>
+                        <div className="flex flex-wrap items-center gap-4">
+                          {img.format !== "jpeg" && img.format !== "png" && (
+                            <div className="flex items-center gap-2">
+                              <Checkbox
+                                id={`responsive-fallback-${index}`}
+                                checked={img.responsive.jpegFallback}
+                                onCheckedChange={(checked) =>
+                                  updateImageSettings(img.id, "responsive", {
+                                    ...img.responsive,
+                                    jpegFallback: checked === true,
+                                  })
+                                }
+                              />
+                              <Label htmlFor={`responsive-fallback-${index}`}>{t("responsive.jpegFallback")}</Label>
+                            </div>
+                          )}
+                          <Button
+                            size="sm"
+                            className="ml-auto"
+                            onClick={() => generateResponsiveSet(img.id)}
+                            disabled={img.generatingSet}
+                          >
+                            {img.generatingSet ? (
+                              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                            ) : (
+                              <Layers className="w-4 h-4 mr-2" />
+                            )}
+                            {t("responsive.generate")}
+                          </Button>
+                        </div>
+                        {img.responsiveSet && (
+                          <div className="space-y-3">
+                            <div className="space-y-1 text-sm">
+                              {[...img.responsiveSet.variants, ...img.responsiveSet.fallback].map((variant) => (
+                                <div key={variant.file} className="flex justify-between">
+                                  <span className="text-muted-foreground">
+                                    {variant.file} ({variant.width} × {variant.height})
+                                  </span>
+                                  <span className="font-medium">{formatSize(variant.size)}</span>
+                                </div>
+                              ))}
+                            </div>
+                            <pre className="max-h-48 overflow-auto rounded-md bg-muted p-3 text-xs">
+                              {img.responsiveSet.markup}
+                            </pre>
+                            <div className="flex flex-wrap gap-2">
+                              <Button size="sm" variant="outline" onClick={() => copyResponsiveMarkup(img.responsiveSet!)}>
+                                <Copy className="w-4 h-4 mr-2" />
+                                {t("responsive.copyMarkup")}
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => downloadResponsiveSet(img, img.responsiveSet!)}
+                              >
+                                <Archive className="w-4 h-4 mr-2" />
+                                {t("responsive.download")}
+                              </Button>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
 
                 <div className="grid lg:grid-cols-2 gap-6 mb-6">
                   <div className="space-y-2">
                     <div className="flex items-center justify-between">
-                      <p className="text-sm font-medium text-muted-foreground">Original</p>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => openCropModal(index)}
-                        disabled={img.processing}
-                      >
-                        <Crop className="w-4 h-4 mr-2" />
-                        Recortar
-                      </Button>
+                      <p className="text-sm font-medium text-muted-foreground">
+                        {t("card.original")}
+                        {img.edits.length > 0 && ` · ${t("card.edits", { count: img.edits.length })}`}
+                      </p>
+                      <div className="flex gap-1">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => undoEdit(img.id)}
+                          disabled={img.processing || img.editing || img.edits.length === 0}
+                          title={t("card.undo")}
+                        >
+                          <Undo2 className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => redoEdit(img.id)}
+                          disabled={img.processing || img.editing || img.undoneEdits.length === 0}
+                          title={t("card.redo")}
+                        >
+                          <Redo2 className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => resetEdits(img.id)}
+                          disabled={img.processing || img.editing || img.edits.length === 0}
+                          title={t("card.resetEdits")}
+                        >
+                          <History className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => openCropModal(img.id)}
+                          disabled={img.processing || img.editing}
+                        >
+                          <Crop className="w-4 h-4 mr-2" />
+                          {t("crop.open")}
+                        </Button>
+                      </div>
                     </div>
                     <div className="relative w-full bg-muted rounded-lg overflow-hidden" style={{ minHeight: "400px" }}>
                       <img
                         src={img.preview || "/placeholder.svg"}
-                        alt={`Original ${index + 1}`}
+                        alt={t("card.originalAlt", { number: index + 1 })}
                         className="w-full h-full object-contain"
                       />
                     </div>
                   </div>
                   <div className="space-y-2">
-                    <p className="text-sm font-medium text-muted-foreground">
-                      {img.compressed ? "Comprimido AVIF" : "Vista previa"}
-                    </p>
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm font-medium text-muted-foreground">
+                        {img.compressed
+                          ? t("card.compressed", { format: OUTPUT_FORMATS[img.encoded?.format ?? img.format].label })
+                          : t("card.preview")}
+                      </p>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setCompareId(img.id)}
+                        disabled={!img.compressedPreview}
+                      >
+                        <Columns2 className="w-4 h-4 mr-2" />
+                        {t("compare.open")}
+                      </Button>
+                    </div>
                     <div className="relative w-full bg-muted rounded-lg overflow-hidden" style={{ minHeight: "400px" }}>
                       {img.compressedPreview ? (
                         <img
                           src={img.compressedPreview || "/placeholder.svg"}
-                          alt={`Compressed ${index + 1}`}
+                          alt={t("card.compressedAlt", { number: index + 1 })}
                           className="w-full h-full object-contain"
                         />
                       ) : (
                         <div className="w-full h-full flex items-center justify-center text-sm text-muted-foreground">
-                          {img.processing ? (
+                          {img.processing || img.previewing ? (
                             <div className="flex flex-col items-center gap-2">
                               <Loader2 className="w-8 h-8 animate-spin" />
-                              <span>Generando preview...</span>
+                              <span>{t("card.generatingPreview")}</span>
                             </div>
                           ) : (
-                            "Ajusta los controles para ver el preview"
+                            t("card.previewHint")
                           )}
                         </div>
                       )}
@@ -609,7 +2547,7 @@ export default function ImageCompressor() {
                   <div className="space-y-2 text-sm">
                     {img.dimensions && (
                       <div className="flex justify-between">
-                        <span className="text-muted-foreground">Dimensiones:</span>
+                        <span className="text-muted-foreground">{t("card.dimensions")}</span>
                         <span className="font-medium">
                           {img.dimensions.width} × {img.dimensions.height}
                           {finalDimensions &&
@@ -623,29 +2561,113 @@ export default function ImageCompressor() {
                       </div>
                     )}
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">Peso original:</span>
+                      <span className="text-muted-foreground">{t("card.sourceFormat")}</span>
+                      <span className="font-medium">
+                        {img.sourceFormat
+                          ? SOURCE_FORMATS[img.sourceFormat].label
+                          : img.file.type || t("card.unknownFormat")}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">{t("card.originalSize")}</span>
                       <span className="font-medium">{formatSize(img.originalSize)}</span>
                     </div>
+                    {jobMemoryOf(img) > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">{t("card.jobMemory")}</span>
+                        <span className="font-medium">~{formatSize(jobMemoryOf(img))}</span>
+                      </div>
+                    )}
                     {img.compressedSize && (
                       <>
                         <div className="flex justify-between">
-                          <span className="text-muted-foreground">Peso AVIF:</span>
+                          <span className="text-muted-foreground">
+                            {t("card.compressedSize", {
+                              format: OUTPUT_FORMATS[img.encoded?.format ?? img.format].label,
+                            })}
+                          </span>
                           <span className="font-medium text-accent">{formatSize(img.compressedSize)}</span>
                         </div>
                         <div className="flex justify-between">
-                          <span className="text-muted-foreground">Reducción:</span>
+                          <span className="text-muted-foreground">{t("card.reduction")}</span>
                           <span className="font-medium text-accent">
                             {Math.round((1 - img.compressedSize / img.originalSize) * 100)}%
                           </span>
                         </div>
                       </>
                     )}
+                    {img.metrics && (
+                      <>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">SSIM:</span>
+                          <span className="font-medium">{img.metrics.ssim.toFixed(4)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">PSNR:</span>
+                          <span className="font-medium">
+                            {Number.isFinite(img.metrics.psnr)
+                              ? `${img.metrics.psnr.toFixed(2)} dB`
+                              : t("card.identical")}
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">{t("card.distance")}</span>
+                          <span className="font-medium">{img.metrics.distance.toFixed(2)}</span>
+                        </div>
+                      </>
+                    )}
+                    {img.measuring && (
+                      <div className="flex justify-between text-muted-foreground">
+                        <span>{t("card.metrics")}</span>
+                        <span className="flex items-center gap-1">
+                          <Loader2 className="w-3 h-3 animate-spin" />
+                          {t("batch.estimating")}
+                        </span>
+                      </div>
+                    )}
+                    {img.sizeMode === "target" && img.targetResult && (
+                      <>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">{t("card.chosenQuality")}</span>
+                          <span className="font-medium">
+                            {t("card.chosenQualityValue", {
+                              quality: img.targetResult.quality,
+                              count: img.targetResult.passes,
+                            })}
+                          </span>
+                        </div>
+                        {finalDimensions &&
+                          (img.targetResult.dimensions.width !== finalDimensions.width ||
+                            img.targetResult.dimensions.height !== finalDimensions.height) && (
+                            <div className="flex justify-between">
+                              <span className="text-muted-foreground">{t("card.reducedTo")}</span>
+                              <span className="font-medium">
+                                {img.targetResult.dimensions.width} × {img.targetResult.dimensions.height}
+                              </span>
+                            </div>
+                          )}
+                        {!img.targetResult.met && (
+                          <p className="flex items-center gap-2 text-destructive">
+                            <AlertCircle className="w-4 h-4 shrink-0" />
+                            {t(img.allowDownscale ? "card.targetMissedDownscaled" : "card.targetMissed", {
+                              size: formatSize(img.targetResult.targetBytes),
+                            })}
+                          </p>
+                        )}
+                      </>
+                    )}
                   </div>
 
-                  <div className="flex items-end">
+                  <div className="flex flex-col justify-end gap-2">
+                    {img.error && (
+                      <p className="flex items-center gap-2 text-sm text-destructive">
+                        <AlertCircle className="w-4 h-4 shrink-0" />
+                        {img.error}
+                      </p>
+                    )}
                     {!img.compressed ? (
                       <Button
-                        onClick={() => compressImage(index)}
+                        onClick={() => compressImage(img.id)}
                         disabled={img.processing}
                         className="w-full"
                         size="lg"
@@ -653,19 +2675,19 @@ export default function ImageCompressor() {
                         {img.processing ? (
                           <>
                             <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                            Comprimiendo...
+                            {t("card.compressing")}
                           </>
                         ) : (
                           <>
                             <ImageIcon className="w-5 h-5 mr-2" />
-                            Comprimir
+                            {t("card.compress")}
                           </>
                         )}
                       </Button>
                     ) : (
                       <Button onClick={() => downloadImage(img, index)} className="w-full" size="lg">
                         <Download className="w-5 h-5 mr-2" />
-                        Descargar AVIF
+                        {t("card.download", { format: OUTPUT_FORMATS[img.encoded?.format ?? img.format].label })}
                       </Button>
                     )}
                   </div>
@@ -676,14 +2698,62 @@ export default function ImageCompressor() {
         </div>
       )}
 
+      {compareImage?.compressedPreview && compareDimensions && (
+        <CompareViewer
+          open
+          onOpenChange={(open) => !open && setCompareId(null)}
+          title={t("compare.title", { number: compareIndex + 1 })}
+          originalSrc={compareImage.preview}
+          compressedSrc={compareImage.compressedPreview}
+          compressedLabel={OUTPUT_FORMATS[compareImage.encoded?.format ?? compareImage.format].label}
+          width={compareDimensions.width}
+          height={compareDimensions.height}
+        />
+      )}
+
+      <Dialog open={presetDraft !== null} onOpenChange={(open) => !open && setPresetDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("presets.saveAs")}</DialogTitle>
+          </DialogHeader>
+          <form
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              confirmSavePreset()
+            }}
+          >
+            <Label htmlFor="preset-name">{t("presets.name")}</Label>
+            <Input
+              id="preset-name"
+              autoFocus
+              placeholder="Blog hero"
+              value={presetDraft?.name ?? ""}
+              onChange={(e) => setPresetDraft((prev) => prev && { ...prev, name: e.target.value })}
+            />
+            {presetDraft && presets.some((preset) => preset.name === presetDraft.name.trim()) && (
+              <p className="text-sm text-muted-foreground">{t("presets.replaces")}</p>
+            )}
+          </form>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPresetDraft(null)}>
+              {t("dialog.cancel")}
+            </Button>
+            <Button onClick={confirmSavePreset} disabled={!presetDraft?.name.trim()}>
+              {t("dialog.save")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={cropModalOpen} onOpenChange={setCropModalOpen}>
         <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col">
           <DialogHeader>
-            <DialogTitle>Recortar imagen</DialogTitle>
+            <DialogTitle>{t("crop.title")}</DialogTitle>
           </DialogHeader>
 
           <div className="space-y-4 border-b pb-4">
-            <Label className="text-base font-semibold">Relación de aspecto</Label>
+            <Label className="text-base font-semibold">{t("crop.aspectRatio")}</Label>
 
             {/* Free crop button */}
             <div className="flex flex-wrap gap-2">
@@ -692,7 +2762,7 @@ export default function ImageCompressor() {
                 size="sm"
                 onClick={() => setAspectRatio({ ...aspectRatio, type: "free", value: undefined })}
               >
-                Libre
+                {t("crop.free")}
               </Button>
 
               {/* Preset aspect ratio buttons */}
@@ -716,12 +2786,12 @@ export default function ImageCompressor() {
                   size="sm"
                   onClick={() => setAspectRatio({ ...aspectRatio, type: "custom" })}
                 >
-                  Personalizado
+                  {t("crop.custom")}
                 </Button>
                 <div className="flex items-center gap-2">
                   <Input
                     type="number"
-                    placeholder="Ancho"
+                    placeholder={t("crop.customWidth")}
                     value={aspectRatio.customWidth}
                     onChange={(e) => setAspectRatio({ ...aspectRatio, customWidth: e.target.value, type: "custom" })}
                     className="w-20"
@@ -731,7 +2801,7 @@ export default function ImageCompressor() {
                   <span className="text-muted-foreground">:</span>
                   <Input
                     type="number"
-                    placeholder="Alto"
+                    placeholder={t("crop.customHeight")}
                     value={aspectRatio.customHeight}
                     onChange={(e) => setAspectRatio({ ...aspectRatio, customHeight: e.target.value, type: "custom" })}
                     className="w-20"
@@ -746,42 +2816,110 @@ export default function ImageCompressor() {
                 </div>
               </div>
               <p className="text-xs text-muted-foreground">
-                Introduce proporciones personalizadas (ej: 21:9 para ultra panorámico)
+                {t("crop.customHint")}
               </p>
             </div>
           </div>
 
           <div className="relative flex-1 bg-muted rounded-lg overflow-hidden" style={{ minHeight: "400px" }}>
-            {currentCropIndex !== null && images[currentCropIndex] && (
+            {cropImage && (
               <Cropper
-                image={images[currentCropIndex].preview}
+                image={cropImage.preview}
                 crop={cropState.crop}
                 zoom={cropState.zoom}
+                rotation={cropRotation(cropState)}
+                transform={`translate(${cropState.crop.x}px, ${cropState.crop.y}px) rotate(${cropRotation(cropState)}deg) scale(${cropState.zoom}) scale(${cropState.flipH ? -1 : 1}, ${cropState.flipV ? -1 : 1})`}
                 aspect={getCurrentAspectRatio()}
                 onCropChange={(crop) => setCropState((prev) => ({ ...prev, crop }))}
                 onZoomChange={(zoom) => setCropState((prev) => ({ ...prev, zoom }))}
                 onCropComplete={(_, croppedAreaPixels) => setCropState((prev) => ({ ...prev, croppedAreaPixels }))}
               />
             )}
+            {cropGrid && (
+              <div
+                className="pointer-events-none absolute inset-0"
+                style={{
+                  backgroundImage:
+                    "linear-gradient(to right, rgba(255,255,255,0.3) 1px, transparent 1px), linear-gradient(to bottom, rgba(255,255,255,0.3) 1px, transparent 1px)",
+                  backgroundSize: "40px 40px",
+                }}
+              />
+            )}
           </div>
 
-          <div className="space-y-2">
-            <Label>Zoom: {Math.round(cropState.zoom * 100)}%</Label>
-            <Slider
-              value={[cropState.zoom]}
-              onValueChange={(value) => setCropState((prev) => ({ ...prev, zoom: value[0] }))}
-              min={1}
-              max={3}
-              step={0.1}
-              className="w-full"
-            />
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={() => rotateCrop(-1)}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              {t("crop.rotateLeft")}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => rotateCrop(1)}>
+              <RotateCw className="w-4 h-4 mr-2" />
+              {t("crop.rotateRight")}
+            </Button>
+            <Button
+              variant={cropState.flipH ? "default" : "outline"}
+              size="sm"
+              onClick={() => setCropState((prev) => ({ ...prev, flipH: !prev.flipH }))}
+            >
+              <FlipHorizontal2 className="w-4 h-4 mr-2" />
+              {t("crop.flipHorizontal")}
+            </Button>
+            <Button
+              variant={cropState.flipV ? "default" : "outline"}
+              size="sm"
+              onClick={() => setCropState((prev) => ({ ...prev, flipV: !prev.flipV }))}
+            >
+              <FlipVertical2 className="w-4 h-4 mr-2" />
+              {t("crop.flipVertical")}
+            </Button>
+            <Button variant={cropGrid ? "default" : "outline"} size="sm" onClick={() => setCropGrid((prev) => !prev)}>
+              <Grid3x3 className="w-4 h-4 mr-2" />
+              {t("crop.grid")}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                setCropState((prev) => ({ ...prev, quarterTurns: 0, straighten: 0, flipH: false, flipV: false }))
+              }
+            >
+              {t("crop.reset")}
+            </Button>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>{t("crop.zoom", { zoom: Math.round(cropState.zoom * 100) })}</Label>
+              <Slider
+                value={[cropState.zoom]}
+                onValueChange={(value) => setCropState((prev) => ({ ...prev, zoom: value[0] }))}
+                min={1}
+                max={3}
+                step={0.1}
+                className="w-full"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t("crop.straighten", { degrees: Math.round(cropState.straighten * 10) / 10 })}</Label>
+              <Slider
+                value={[cropState.straighten]}
+                onValueChange={(value) => setCropState((prev) => ({ ...prev, straighten: value[0] }))}
+                min={-45}
+                max={45}
+                step={0.1}
+                className="w-full"
+              />
+            </div>
           </div>
 
           <DialogFooter>
             <Button variant="outline" onClick={() => setCropModalOpen(false)}>
-              Cancelar
+              {t("dialog.cancel")}
+            </Button>
+            <Button onClick={applyCrop} disabled={applyingCrop}>
+              {applyingCrop && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {t("crop.apply")}
             </Button>
-            <Button onClick={applyCrop}>Aplicar recorte</Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -0,0 +1,47 @@
+"use client"
+
+import type React from "react"
+
+import { createContext, useCallback, useContext, useMemo, useState } from "react"
+import { formatSize } from "@/lib/format"
+import { LOCALE_COOKIE, translate, type Locale, type Translate } from "@/lib/i18n"
+
+interface I18n {
+  locale: Locale
+  setLocale: (locale: Locale) => void
+  t: Translate
+  formatSize: (bytes: number) => string
+}
+
+const I18nContext = createContext<I18n | null>(null)
+
+const ONE_YEAR_SECONDS = 60 * 60 * 24 * 365
+
+/** `initialLocale` comes from the server, which read the saved choice or the browser's Accept-Language. */
+export function LocaleProvider({ initialLocale, children }: { initialLocale: Locale; children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState(initialLocale)
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next)
+    document.documentElement.lang = next
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${ONE_YEAR_SECONDS}; samesite=lax`
+  }, [])
+
+  const value = useMemo<I18n>(
+    () => ({
+      locale,
+      setLocale,
+      t: (key, params) => translate(locale, key, params),
+      formatSize: (bytes) => formatSize(bytes, locale),
+    }),
+    [locale, setLocale],
+  )
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+}
+
+export function useI18n(): I18n {
+  const context = useContext(I18nContext)
+  if (!context) throw new Error("useI18n must be used inside a LocaleProvider")
+  return context
+}
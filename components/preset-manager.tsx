@@ -0,0 +1,130 @@
+"use client"
+
+import type React from "react"
+
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Star, Trash2, Upload, Download, Wand2 } from "lucide-react"
+import { useI18n } from "@/components/locale-provider"
+import type { Translate } from "@/lib/i18n"
+import { OUTPUT_FORMATS, formatUsesQuality } from "@/lib/output-formats"
+import type { Preset } from "@/lib/presets"
+
+interface PresetManagerProps {
+  presets: Preset[]
+  defaultPresetId: string | null
+  selectedCount: number
+  totalCount: number
+  onSelectAll: (selected: boolean) => void
+  onApply: (preset: Preset) => void
+  onSetDefault: (id: string | null) => void
+  onRemove: (id: string) => void
+  onImport: (text: string) => void
+  onExport: () => void
+}
+
+const describePreset = ({ settings }: Preset, t: Translate) => {
+  const parts: string[] = [OUTPUT_FORMATS[settings.format].label]
+  if (!formatUsesQuality(settings.format, settings.formatOptions)) {
+    parts.push(t("presets.lossless"))
+  } else if (settings.sizeMode === "target") {
+    parts.push(`≤ ${settings.targetSize} KB`)
+  } else {
+    parts.push(t("presets.quality", { quality: settings.quality }))
+  }
+  if (settings.width || settings.height) {
+    parts.push(`${settings.width || "auto"} × ${settings.height || "auto"}`)
+  }
+  return parts.join(" · ")
+}
+
+export default function PresetManager({
+  presets,
+  defaultPresetId,
+  selectedCount,
+  totalCount,
+  onSelectAll,
+  onApply,
+  onSetDefault,
+  onRemove,
+  onImport,
+  onExport,
+}: PresetManagerProps) {
+  const { t } = useI18n()
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (file) onImport(await file.text())
+  }
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <h3 className="text-lg font-semibold">{t("presets.title")}</h3>
+        {totalCount > 0 && (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="select-all-images"
+              checked={selectedCount === 0 ? false : selectedCount === totalCount ? true : "indeterminate"}
+              onCheckedChange={(checked) => onSelectAll(checked === true)}
+            />
+            <Label htmlFor="select-all-images">
+              {t("presets.selected", { count: totalCount, selected: selectedCount })}
+            </Label>
+          </div>
+        )}
+        <div className="flex flex-wrap gap-2 ml-auto">
+          <input type="file" id="preset-import" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          <Button variant="outline" size="sm" asChild>
+            <label htmlFor="preset-import" className="cursor-pointer">
+              <Upload className="w-4 h-4 mr-2" />
+              {t("presets.import")}
+            </label>
+          </Button>
+          <Button variant="outline" size="sm" onClick={onExport} disabled={presets.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            {t("presets.export")}
+          </Button>
+        </div>
+      </div>
+
+      {presets.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t("presets.empty")}</p>
+      ) : (
+        <div className="divide-y divide-border">
+          {presets.map((preset) => {
+            const isDefault = preset.id === defaultPresetId
+            return (
+              <div key={preset.id} className="flex flex-wrap items-center gap-2 py-2">
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium truncate">
+                    {preset.name}
+                    {isDefault && <span className="ml-2 text-xs text-muted-foreground">({t("presets.default")})</span>}
+                  </p>
+                  <p className="text-sm text-muted-foreground">{describePreset(preset, t)}</p>
+                </div>
+                <Button size="sm" onClick={() => onApply(preset)} disabled={selectedCount === 0}>
+                  <Wand2 className="w-4 h-4 mr-2" />
+                  {t("presets.apply", { count: selectedCount })}
+                </Button>
+                <Button
+                  size="icon"
+                  variant={isDefault ? "default" : "outline"}
+                  title={isDefault ? t("presets.unsetDefault") : t("presets.setDefault")}
+                  onClick={() => onSetDefault(isDefault ? null : preset.id)}
+                >
+                  <Star className="w-4 h-4" />
+                </Button>
+                <Button size="icon" variant="outline" title={t("presets.remove")} onClick={() => onRemove(preset.id)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </Card>
+  )
+}
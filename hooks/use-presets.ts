@@ -0,0 +1,89 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import {
+  loadPresetStore,
+  parsePresetFile,
+  savePresetStore,
+  serializePresets,
+  type Preset,
+  type PresetSettings,
+  type PresetStore,
+} from "@/lib/presets"
+
+export function usePresets() {
+  const [store, setStore] = useState<PresetStore>({ presets: [], defaultPresetId: null })
+  const [loaded, setLoaded] = useState(false)
+  // Drop handlers are memoised, so they read the default preset through a ref.
+  const storeRef = useRef(store)
+  storeRef.current = store
+
+  useEffect(() => {
+    setStore(loadPresetStore())
+    setLoaded(true)
+  }, [])
+
+  useEffect(() => {
+    if (loaded) savePresetStore(store)
+  }, [store, loaded])
+
+  const savePreset = useCallback((name: string, settings: PresetSettings) => {
+    const preset: Preset = { id: crypto.randomUUID(), name: name.trim(), settings }
+    setStore((prev) => {
+      // Saving under an existing name replaces that preset rather than adding a twin.
+      const existing = prev.presets.find((entry) => entry.name === preset.name)
+      if (existing) {
+        return {
+          ...prev,
+          presets: prev.presets.map((entry) => (entry.id === existing.id ? { ...preset, id: existing.id } : entry)),
+        }
+      }
+      return { ...prev, presets: [...prev.presets, preset] }
+    })
+  }, [])
+
+  const removePreset = useCallback((id: string) => {
+    setStore((prev) => ({
+      presets: prev.presets.filter((preset) => preset.id !== id),
+      defaultPresetId: prev.defaultPresetId === id ? null : prev.defaultPresetId,
+    }))
+  }, [])
+
+  const setDefaultPreset = useCallback((id: string | null) => {
+    setStore((prev) => ({ ...prev, defaultPresetId: id }))
+  }, [])
+
+  /** Adds the presets from an exported file; throws with a readable message if it is invalid. */
+  const importPresets = useCallback((text: string) => {
+    const imported = parsePresetFile(text)
+    setStore((prev) => {
+      const byName = new Map(imported.map((preset) => [preset.name, preset]))
+      const replaced = prev.presets.map((preset) => {
+        const replacement = byName.get(preset.name)
+        if (!replacement) return preset
+        byName.delete(preset.name)
+        return { ...replacement, id: preset.id }
+      })
+      return { ...prev, presets: [...replaced, ...byName.values()] }
+    })
+    return imported.length
+  }, [])
+
+  const exportPresets = useCallback(() => serializePresets(storeRef.current.presets), [])
+
+  const getDefaultPreset = useCallback(() => {
+    const { presets, defaultPresetId } = storeRef.current
+    return presets.find((preset) => preset.id === defaultPresetId) ?? null
+  }, [])
+
+  return {
+    presets: store.presets,
+    defaultPresetId: store.defaultPresetId,
+    savePreset,
+    removePreset,
+    setDefaultPreset,
+    importPresets,
+    exportPresets,
+    getDefaultPreset,
+  }
+}
@@ -0,0 +1,92 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import {
+  clearSession,
+  estimateStorage,
+  loadSession,
+  saveSession,
+  type SessionEntry,
+  type StorageUsage,
+} from "@/lib/session-store"
+
+const SAVE_INTERVAL_MS = 1000
+
+/**
+ * Restores the saved session once on mount, then saves `entries` at most once a second
+ * while they keep changing, so dragging a slider doesn't write on every frame.
+ */
+export function useSession<T>(entries: SessionEntry<T>[], restore: (entries: SessionEntry<T>[]) => Promise<void>) {
+  const [loaded, setLoaded] = useState(false)
+  const [usage, setUsage] = useState<StorageUsage | null>(null)
+  const entriesRef = useRef(entries)
+  entriesRef.current = entries
+  const restoreRef = useRef(restore)
+  restoreRef.current = restore
+  const startedRef = useRef(false)
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // Saves run one after another so two writes never race over which blobs are stored.
+  const queueRef = useRef(Promise.resolve())
+  const persistRequestedRef = useRef(false)
+
+  const refreshUsage = useCallback(() => {
+    estimateStorage()
+      .then(setUsage)
+      .catch((error) => console.error("Error al estimar el almacenamiento:", error))
+  }, [])
+
+  const save = useCallback(() => {
+    timerRef.current = null
+    queueRef.current = queueRef.current.then(async () => {
+      try {
+        await saveSession(entriesRef.current)
+        if (!persistRequestedRef.current) {
+          persistRequestedRef.current = true
+          // Asks the browser not to evict the session under storage pressure; it may say no.
+          await navigator.storage?.persist?.()
+        }
+      } catch (error) {
+        console.error("Error al guardar la sesión:", error)
+      }
+      refreshUsage()
+    })
+  }, [refreshUsage])
+
+  useEffect(() => {
+    if (startedRef.current) return
+    startedRef.current = true
+    loadSession<T>()
+      .then((stored) => (stored.length > 0 ? restoreRef.current(stored) : undefined))
+      .catch((error) => console.error("Error al restaurar la sesión:", error))
+      .finally(() => {
+        setLoaded(true)
+        refreshUsage()
+      })
+  }, [refreshUsage])
+
+  useEffect(() => {
+    if (!loaded || timerRef.current) return
+    timerRef.current = setTimeout(save, SAVE_INTERVAL_MS)
+  }, [entries, loaded, save])
+
+  // Flush a pending write when the tab is hidden, which also covers most reloads.
+  useEffect(() => {
+    const flush = () => {
+      if (document.visibilityState !== "hidden" || !timerRef.current) return
+      clearTimeout(timerRef.current)
+      save()
+    }
+    document.addEventListener("visibilitychange", flush)
+    return () => document.removeEventListener("visibilitychange", flush)
+  }, [save])
+
+  const clear = useCallback(async () => {
+    if (timerRef.current) clearTimeout(timerRef.current)
+    timerRef.current = null
+    await queueRef.current
+    await clearSession()
+    refreshUsage()
+  }, [refreshUsage])
+
+  return { loaded, usage, clear }
+}
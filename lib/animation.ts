@@ -0,0 +1,288 @@
+import { LocalizedError } from "@/lib/i18n"
+import type { OutputFormat } from "@/lib/output-formats"
+import { SOURCE_FORMATS, detectSourceFormat, type SourceFormat } from "@/lib/source-formats"
+
+export interface AnimationInfo {
+  frameCount: number
+  /** Display time of each frame in milliseconds. */
+  durations: number[]
+  /** How many times the animation plays, counted the way WebP stores it: 0 is forever. */
+  loopCount: number
+  /** Small previews of up to `MAX_STRIP_FRAMES` evenly spaced frames, as data URLs. */
+  strip: { index: number; src: string }[]
+}
+
+export interface AnimationSettings {
+  /** Off encodes the first frame only, in the card's own format. */
+  animate: boolean
+  /** Keeps one frame in every `frameStep`; each kept frame also stays up for the ones dropped after it. */
+  frameStep: number
+  /** null keeps the source's loop count. */
+  loopCount: number | null
+}
+
+export interface AnimatedWebpFrame {
+  /** A complete still WebP file, as the jsquash encoder returns it. */
+  webp: ArrayBuffer
+  width: number
+  height: number
+  duration: number
+}
+
+export const DEFAULT_ANIMATION_SETTINGS: AnimationSettings = { animate: true, frameStep: 1, loopCount: null }
+
+// The jsquash AVIF encoder only writes still images, so animations come out as animated WebP.
+export const ANIMATED_OUTPUT_FORMAT: OutputFormat = "webp"
+
+export const MAX_STRIP_FRAMES = 48
+
+const STRIP_HEIGHT = 48
+// Browsers show GIF delays of 10 ms or less as 100 ms; WebP players don't, so the timing is fixed on the way in.
+const MAX_IGNORED_DELAY = 10
+const DEFAULT_FRAME_DURATION = 100
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length))
+
+const countGifFrames = (bytes: Uint8Array, limit: number) => {
+  const colorTableSize = (packed: number) => (packed & 0x80 ? 3 * (2 << (packed & 7)) : 0)
+  let p = 13 + colorTableSize(bytes[10])
+  const skipSubBlocks = () => {
+    while (p < bytes.length && bytes[p] !== 0) p += bytes[p] + 1
+    p++
+  }
+
+  let frames = 0
+  while (p < bytes.length && frames < limit) {
+    if (bytes[p] === 0x21) {
+      p += 2
+      skipSubBlocks()
+    } else if (bytes[p] === 0x2c) {
+      frames++
+      p += 10 + colorTableSize(bytes[p + 9]) + 1
+      skipSubBlocks()
+    } else {
+      break
+    }
+  }
+  return frames
+}
+
+// APNG announces itself with an acTL chunk ahead of the first IDAT.
+const countPngFrames = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  for (let p = 8; p + 12 <= bytes.length; p += 12 + view.getUint32(p)) {
+    const type = ascii(bytes, p + 4, 4)
+    if (type === "acTL") return view.getUint32(p + 8)
+    if (type === "IDAT") break
+  }
+  return 1
+}
+
+const isAnimatedSource = (bytes: Uint8Array, format: SourceFormat) => {
+  switch (format) {
+    case "gif":
+      return countGifFrames(bytes, 2) > 1
+    case "png":
+      return countPngFrames(bytes) > 1
+    case "webp":
+      return ascii(bytes, 12, 4) === "VP8X" && (bytes[20] & 0x02) !== 0
+    case "avif":
+      return ascii(bytes, 8, 4) === "avis"
+    default:
+      return false
+  }
+}
+
+/** The source format when the file holds more than one frame, otherwise null. */
+export function detectAnimation(buffer: ArrayBuffer): SourceFormat | null {
+  const format = detectSourceFormat(buffer)
+  return format && isAnimatedSource(new Uint8Array(buffer), format) ? format : null
+}
+
+const drawFrame = (frame: VideoFrame, width = frame.displayWidth, height = frame.displayHeight) => {
+  const canvas = new OffscreenCanvas(width, height)
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new LocalizedError({ key: "errors.canvasContext" })
+  ctx.drawImage(frame, 0, 0, width, height)
+  return { canvas, ctx }
+}
+
+export interface AnimationSource {
+  frameCount: number
+  loopCount: number
+  /** Frames must be read in order; GIF and APNG frames are drawn on top of the previous ones. */
+  readFrame: (index: number) => Promise<VideoFrame>
+  close: () => void
+}
+
+/** Opens an animated file with WebCodecs' ImageDecoder, which hands out each frame already composited. */
+export async function openAnimation(buffer: ArrayBuffer): Promise<AnimationSource> {
+  const format = detectAnimation(buffer)
+  if (!format) throw new LocalizedError({ key: "errors.notAnimated" })
+  if (typeof ImageDecoder === "undefined") throw new LocalizedError({ key: "errors.animationUnsupported" })
+
+  const decoder = new ImageDecoder({ data: buffer, type: SOURCE_FORMATS[format].mimeTypes[0] })
+  // The frame count is only final once the whole file has been parsed.
+  await decoder.completed
+  const track = decoder.tracks.selectedTrack
+  if (!track) {
+    decoder.close()
+    throw new LocalizedError({ key: "errors.animationTrackMissing" })
+  }
+
+  return {
+    frameCount: track.frameCount,
+    // ImageDecoder counts repetitions after the first play; WebP counts plays.
+    loopCount: Number.isFinite(track.repetitionCount) ? Math.min(65535, track.repetitionCount + 1) : 0,
+    readFrame: async (index) => (await decoder.decode({ frameIndex: index })).image,
+    close: () => decoder.close(),
+  }
+}
+
+export function frameToImageData(frame: VideoFrame): ImageData {
+  const { ctx } = drawFrame(frame)
+  return ctx.getImageData(0, 0, frame.displayWidth, frame.displayHeight)
+}
+
+/** The frame's display time in milliseconds. */
+export function readFrameDuration(frame: VideoFrame): number {
+  const milliseconds = Math.round((frame.duration ?? 0) / 1000)
+  return milliseconds <= MAX_IGNORED_DELAY ? DEFAULT_FRAME_DURATION : milliseconds
+}
+
+const blobToDataUrl = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  let binary = ""
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return `data:${blob.type};base64,${btoa(binary)}`
+}
+
+/** Frame indexes for the strip: all of them for short animations, evenly spaced otherwise. */
+const stripIndexes = (frameCount: number) => {
+  if (frameCount <= MAX_STRIP_FRAMES) return Array.from({ length: frameCount }, (_, i) => i)
+  return Array.from({ length: MAX_STRIP_FRAMES }, (_, i) => Math.round((i * (frameCount - 1)) / (MAX_STRIP_FRAMES - 1)))
+}
+
+export async function inspectAnimation(buffer: ArrayBuffer): Promise<AnimationInfo> {
+  const source = await openAnimation(buffer)
+  const sampled = new Set(stripIndexes(source.frameCount))
+  const durations: number[] = []
+  const strip: AnimationInfo["strip"] = []
+
+  try {
+    for (let index = 0; index < source.frameCount; index++) {
+      const frame = await source.readFrame(index)
+      try {
+        durations.push(readFrameDuration(frame))
+        if (!sampled.has(index)) continue
+        const width = Math.max(1, Math.round((frame.displayWidth * STRIP_HEIGHT) / frame.displayHeight))
+        const { canvas } = drawFrame(frame, width, STRIP_HEIGHT)
+        strip.push({ index, src: await blobToDataUrl(await canvas.convertToBlob({ type: "image/webp", quality: 0.7 })) })
+      } finally {
+        frame.close()
+      }
+    }
+  } finally {
+    source.close()
+  }
+
+  return { frameCount: source.frameCount, durations, loopCount: source.loopCount, strip }
+}
+
+export const isKeptFrame = (index: number, frameStep: number) => index % Math.max(1, frameStep) === 0
+
+/** Durations after frame skipping, with each dropped frame's time added to the kept frame before it. */
+export function keptFrameDurations(durations: number[], frameStep: number): number[] {
+  const kept: number[] = []
+  durations.forEach((duration, index) => {
+    if (isKeptFrame(index, frameStep)) kept.push(duration)
+    else kept[kept.length - 1] += duration
+  })
+  return kept
+}
+
+// Animated WebP
+
+const RIFF_IMAGE_CHUNKS = ["ALPH", "VP8 ", "VP8L"]
+const VP8X_ANIMATION = 0x02
+const VP8X_ALPHA = 0x10
+// ANMF flags: overwrite the canvas instead of alpha-blending onto it, and don't dispose the frame.
+const ANMF_NO_BLEND = 0x02
+
+const riffChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(8 + data.length + (data.length & 1))
+  chunk.set(Array.from(type, (char) => char.charCodeAt(0)))
+  new DataView(chunk.buffer).setUint32(4, data.length, true)
+  chunk.set(data, 8)
+  return chunk
+}
+
+const readImageChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const chunks: { type: string; data: Uint8Array }[] = []
+  for (let p = 12; p + 8 <= bytes.length; ) {
+    const size = view.getUint32(p + 4, true)
+    chunks.push({ type: ascii(bytes, p, 4), data: bytes.subarray(p + 8, p + 8 + size) })
+    p += 8 + size + (size & 1)
+  }
+  return chunks.filter((chunk) => RIFF_IMAGE_CHUNKS.includes(chunk.type))
+}
+
+const setUint24 = (bytes: Uint8Array, offset: number, value: number) => {
+  bytes[offset] = value & 0xff
+  bytes[offset + 1] = (value >> 8) & 0xff
+  bytes[offset + 2] = (value >> 16) & 0xff
+}
+
+const concat = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let p = 0
+  for (const part of parts) {
+    result.set(part, p)
+    p += part.length
+  }
+  return result
+}
+
+/**
+ * Wraps still WebP frames, all the size of the canvas, into one animated WebP. Each frame's
+ * bitstream is moved into an ANMF chunk as is, so nothing is re-encoded.
+ */
+export function muxAnimatedWebp(frames: AnimatedWebpFrame[], loopCount: number): Uint8Array {
+  if (frames.length === 0) throw new LocalizedError({ key: "errors.animationEmpty" })
+  const { width, height } = frames[0]
+  let hasAlpha = false
+
+  const anmf = frames.map((frame) => {
+    const chunks = readImageChunks(new Uint8Array(frame.webp))
+    const lossless = chunks.find((chunk) => chunk.type === "VP8L")
+    // The VP8L header carries an "alpha is used" bit right after the two 14-bit dimensions.
+    if (chunks.some((chunk) => chunk.type === "ALPH") || (lossless && lossless.data[4] & 0x10)) hasAlpha = true
+
+    const header = new Uint8Array(16)
+    setUint24(header, 6, frame.width - 1)
+    setUint24(header, 9, frame.height - 1)
+    setUint24(header, 12, Math.min(0xffffff, Math.round(frame.duration)))
+    header[15] = ANMF_NO_BLEND
+    return riffChunk("ANMF", concat([header, ...chunks.map((chunk) => riffChunk(chunk.type, chunk.data))]))
+  })
+
+  const vp8x = new Uint8Array(10)
+  vp8x[0] = VP8X_ANIMATION | (hasAlpha ? VP8X_ALPHA : 0)
+  setUint24(vp8x, 4, width - 1)
+  setUint24(vp8x, 7, height - 1)
+
+  // A transparent background, which most players ignore in favour of the page behind.
+  const anim = new Uint8Array(6)
+  new DataView(anim.buffer).setUint16(4, Math.min(65535, Math.max(0, loopCount)), true)
+
+  const body = concat([riffChunk("VP8X", vp8x), riffChunk("ANIM", anim), ...anmf])
+  const header = new Uint8Array(12)
+  header.set(Array.from("RIFF", (char) => char.charCodeAt(0)))
+  new DataView(header.buffer).setUint32(4, body.length + 4, true)
+  header.set(Array.from("WEBP", (char) => char.charCodeAt(0)), 8)
+  return concat([header, body])
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from "vitest"
+import { BatchQueue, type BatchProgress } from "@/lib/batch-queue"
+
+// An item that runs until its signal is aborted, like an encode in the worker pool.
+const pendingUntilAborted = (_item: string, signal: AbortSignal) =>
+  new Promise<{ bytesSaved: number }>((_resolve, reject) =>
+    signal.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError"))),
+  )
+
+describe("BatchQueue", () => {
+  it("runs every item within the concurrency", async () => {
+    let progress: BatchProgress | undefined
+    const queue = new BatchQueue<string>({
+      concurrency: 2,
+      process: async () => ({ bytesSaved: 10 }),
+      onProgress: (next) => (progress = next),
+    })
+
+    queue.start(["a", "b", "c"])
+    await vi.waitFor(() => expect(progress?.status).toBe("done"))
+
+    expect(progress).toMatchObject({ completed: 3, failed: 0, running: 0, bytesSaved: 30 })
+  })
+
+  it("aborts the running items when cancelled, without counting them as failed", async () => {
+    const signals: AbortSignal[] = []
+    const onItemError = vi.fn()
+    let progress: BatchProgress | undefined
+    const queue = new BatchQueue<string>({
+      concurrency: 2,
+      process: (item, signal) => {
+        signals.push(signal)
+        return pendingUntilAborted(item, signal)
+      },
+      onItemError,
+      onProgress: (next) => (progress = next),
+    })
+
+    queue.start(["a", "b", "c"])
+    queue.cancel()
+    await vi.waitFor(() => expect(progress?.running).toBe(0))
+
+    expect(signals).toHaveLength(2)
+    expect(signals.every((signal) => signal.aborted)).toBe(true)
+    expect(progress).toMatchObject({ status: "cancelled", completed: 0, failed: 0 })
+    expect(onItemError).not.toHaveBeenCalled()
+  })
+})
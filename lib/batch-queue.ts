@@ -0,0 +1,136 @@
+export type BatchStatus = "idle" | "running" | "paused" | "cancelled" | "done"
+
+export interface BatchProgress {
+  status: BatchStatus
+  total: number
+  completed: number
+  failed: number
+  running: number
+  bytesSaved: number
+  etaMs: number | null
+}
+
+export interface BatchQueueOptions<T> {
+  concurrency: number
+  /** The signal is aborted when the batch is cancelled while the item is running. */
+  process: (item: T, signal: AbortSignal) => Promise<{ bytesSaved: number }>
+  onItemError?: (item: T, error: unknown) => void
+  onProgress: (progress: BatchProgress) => void
+}
+
+export class BatchQueue<T> {
+  private readonly options: BatchQueueOptions<T>
+  private pending: T[] = []
+  private readonly controllers = new Set<AbortController>()
+  private status: BatchStatus = "idle"
+  private total = 0
+  private completed = 0
+  private failed = 0
+  private running = 0
+  private bytesSaved = 0
+  private activeMs = 0
+  private activeSince: number | null = null
+
+  constructor(options: BatchQueueOptions<T>) {
+    this.options = options
+  }
+
+  start(items: T[]) {
+    this.pending = [...items]
+    this.total = items.length
+    this.completed = 0
+    this.failed = 0
+    this.bytesSaved = 0
+    this.activeMs = 0
+    this.setStatus(items.length > 0 ? "running" : "done")
+    this.pump()
+  }
+
+  pause() {
+    if (this.status !== "running") return
+    this.setStatus("paused")
+  }
+
+  resume() {
+    if (this.status !== "paused") return
+    this.setStatus("running")
+    this.pump()
+  }
+
+  cancel() {
+    if (this.status !== "running" && this.status !== "paused") return
+    this.pending = []
+    this.controllers.forEach((controller) => controller.abort())
+    this.setStatus("cancelled")
+  }
+
+  setConcurrency(concurrency: number) {
+    this.options.concurrency = concurrency
+    this.pump()
+  }
+
+  getProgress(): BatchProgress {
+    const finished = this.completed + this.failed
+    const remaining = this.total - finished
+    const elapsed = this.activeMs + (this.activeSince === null ? 0 : Date.now() - this.activeSince)
+
+    return {
+      status: this.status,
+      total: this.total,
+      completed: this.completed,
+      failed: this.failed,
+      running: this.running,
+      bytesSaved: this.bytesSaved,
+      etaMs: finished > 0 && remaining > 0 ? (elapsed / finished) * remaining : null,
+    }
+  }
+
+  private setStatus(status: BatchStatus) {
+    const wasActive = this.activeSince !== null
+    const isActive = status === "running"
+    if (isActive && !wasActive) {
+      this.activeSince = Date.now()
+    } else if (!isActive && wasActive) {
+      this.activeMs += Date.now() - this.activeSince!
+      this.activeSince = null
+    }
+    this.status = status
+    this.emit()
+  }
+
+  private emit() {
+    this.options.onProgress(this.getProgress())
+  }
+
+  private pump() {
+    while (this.status === "running" && this.running < this.options.concurrency && this.pending.length > 0) {
+      this.runItem(this.pending.shift()!)
+    }
+    if (this.status === "running" && this.running === 0 && this.pending.length === 0) {
+      this.setStatus("done")
+    }
+  }
+
+  private async runItem(item: T) {
+    const controller = new AbortController()
+    this.controllers.add(controller)
+    this.running++
+    this.emit()
+    try {
+      const { bytesSaved } = await this.options.process(item, controller.signal)
+      this.completed++
+      this.bytesSaved += bytesSaved
+    } catch (error) {
+      // An item stopped by cancelling the batch didn't fail.
+      if (!controller.signal.aborted) {
+        this.failed++
+        this.options.onItemError?.(item, error)
+      }
+    } finally {
+      this.controllers.delete(controller)
+      this.running--
+      this.emit()
+      this.pump()
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import type HeifModule from "libheif-js/libheif-wasm/libheif-bundle.mjs"
+import { decodeImageData } from "@/lib/encoders"
+import { LocalizedError } from "@/lib/i18n"
+import type { TileRect } from "@/lib/image-limits"
+import type { OutputFormat } from "@/lib/output-formats"
+import { SOURCE_FORMATS, type SourceFormat } from "@/lib/source-formats"
+
+let heif: ReturnType<typeof HeifModule> | null = null
+
+export interface BitmapDecodeOptions {
+  /** Decodes only this rectangle of the upright image. */
+  region?: TileRect
+  /** Scales while decoding, so the full-size pixels never reach JavaScript. */
+  width?: number
+  height?: number
+}
+
+export async function decodeBitmap(
+  blob: Blob,
+  { region, width, height }: BitmapDecodeOptions = {},
+): Promise<ImageData> {
+  const options: ImageBitmapOptions = {
+    premultiplyAlpha: "none",
+    resizeWidth: width,
+    resizeHeight: height,
+    resizeQuality: "high",
+  }
+  const bitmap = region
+    ? await createImageBitmap(blob, region.x, region.y, region.width, region.height, options)
+    : await createImageBitmap(blob, options)
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+    const ctx = canvas.getContext("2d")
+    if (!ctx) throw new LocalizedError({ key: "errors.canvasContext" })
+    ctx.drawImage(bitmap, 0, 0)
+    return ctx.getImageData(0, 0, bitmap.width, bitmap.height)
+  } finally {
+    bitmap.close()
+  }
+}
+
+// libheif applies the irot/imir transforms itself and hands back 8-bit RGBA.
+const decodeHeif = async (buffer: ArrayBuffer): Promise<ImageData> => {
+  if (!heif) heif = (await import("libheif-js/libheif-wasm/libheif-bundle.mjs")).default()
+  const images = new heif.HeifDecoder().decode(new Uint8Array(buffer))
+  try {
+    const image = images.find((candidate) => candidate.is_primary()) ?? images[0]
+    if (!image) throw new LocalizedError({ key: "errors.heifEmpty" })
+
+    const imageData = new ImageData(image.get_width(), image.get_height())
+    await new Promise<void>((resolve, reject) =>
+      image.display(imageData, (result) =>
+        result ? resolve() : reject(new LocalizedError({ key: "errors.heifDecodeFailed" })),
+      ),
+    )
+    return imageData
+  } finally {
+    images.forEach((image) => image.free())
+  }
+}
+
+const tiffArea = (ifd: Record<string, unknown>) => {
+  const width = ifd.t256 as number[] | undefined
+  const height = ifd.t257 as number[] | undefined
+  return (width?.[0] ?? 0) * (height?.[0] ?? 0)
+}
+
+// UTIF is plain JavaScript rather than WASM, but it covers the usual TIFF compressions
+// (none, LZW, Deflate, PackBits, JPEG) and is small enough to load on demand.
+const decodeTiff = async (buffer: ArrayBuffer): Promise<ImageData> => {
+  const utif = await import("utif2")
+  // UTIF is CommonJS; Node's ESM loader only exposes it as the default export.
+  const UTIF = ("default" in utif ? utif.default : utif) as typeof utif
+  const pages = UTIF.decode(buffer)
+  // Scanners and editors often store a thumbnail page next to the full image.
+  const page = pages.reduce<(typeof pages)[number] | undefined>(
+    (largest, candidate) => (!largest || tiffArea(candidate) > tiffArea(largest) ? candidate : largest),
+    undefined,
+  )
+  if (!page) throw new LocalizedError({ key: "errors.tiffEmpty" })
+
+  UTIF.decodeImage(buffer, page)
+  if (!page.width || !page.height) throw new LocalizedError({ key: "errors.tiffDecodeFailed" })
+  const rgba = UTIF.toRGBA8(page)
+  const pixels = new Uint8ClampedArray(rgba.buffer as ArrayBuffer, rgba.byteOffset, rgba.length)
+  return new ImageData(pixels, page.width, page.height)
+}
+
+// LibRaw demosaics with the camera white balance, rotates to the stored orientation
+// and outputs sRGB, so nothing is left for us to apply afterwards.
+const decodeRaw = async (buffer: ArrayBuffer): Promise<ImageData> => {
+  const { default: LibRaw } = await import("libraw-wasm")
+  const raw = new LibRaw()
+  try {
+    // The buffer is transferred to LibRaw's worker, so hand it a copy.
+    await raw.open(new Uint8Array(buffer.slice(0)), { useCameraWb: true, outputBps: 8 })
+    const image = await raw.imageData()
+    if (!image) throw new LocalizedError({ key: "errors.rawDecodeFailed" })
+
+    const { width, height, colors, data } = image
+    const shift = image.bits > 8 ? 8 : 0
+    const rgba = new Uint8ClampedArray(width * height * 4)
+    for (let i = 0, p = 0; i < rgba.length; i += 4, p += colors) {
+      rgba[i] = data[p] >> shift
+      rgba[i + 1] = data[p + (colors > 1 ? 1 : 0)] >> shift
+      rgba[i + 2] = data[p + (colors > 2 ? 2 : 0)] >> shift
+      rgba[i + 3] = 255
+    }
+    return new ImageData(rgba, width, height)
+  } finally {
+    raw.dispose()
+  }
+}
+
+/**
+ * Decodes any input listed in SOURCE_FORMATS into RGBA pixels. Heavy decoders are
+ * imported on first use, so a session that only sees JPEGs never downloads libheif.
+ */
+export async function decodeSourceImage(buffer: ArrayBuffer, format: SourceFormat): Promise<ImageData> {
+  switch (SOURCE_FORMATS[format].decoder) {
+    case "codec":
+      return decodeImageData(buffer, format as OutputFormat)
+    case "heif":
+      return decodeHeif(buffer)
+    case "tiff":
+      return decodeTiff(buffer)
+    case "raw":
+      return decodeRaw(buffer)
+    case "browser":
+      return decodeBitmap(new Blob([buffer]))
+  }
+}
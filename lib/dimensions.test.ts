@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest"
+import { finalDimensions, parseDimension, resolveTargetDimensions } from "@/lib/dimensions"
+
+const source = { width: 4000, height: 3000 }
+
+describe("resolveTargetDimensions", () => {
+  it("keeps the source size when neither side is given", () => {
+    expect(resolveTargetDimensions(source)).toEqual({ width: 4000, height: 3000 })
+  })
+
+  it("follows the aspect ratio from the width", () => {
+    expect(resolveTargetDimensions(source, 1600)).toEqual({ width: 1600, height: 1200 })
+  })
+
+  it("follows the aspect ratio from the height", () => {
+    expect(resolveTargetDimensions(source, undefined, 600)).toEqual({ width: 800, height: 600 })
+  })
+
+  it("rounds the derived side", () => {
+    expect(resolveTargetDimensions({ width: 3, height: 2 }, 100)).toEqual({ width: 100, height: 67 })
+  })
+
+  it("uses both sides as given, even if that stretches the image", () => {
+    expect(resolveTargetDimensions(source, 500, 500)).toEqual({ width: 500, height: 500 })
+  })
+})
+
+describe("parseDimension", () => {
+  it("reads positive integers", () => {
+    expect(parseDimension("1200")).toBe(1200)
+    expect(parseDimension("800.7")).toBe(800)
+  })
+
+  it("treats empty, zero, negative and non-numeric values as unset", () => {
+    for (const value of ["", "0", "-5", "auto"]) expect(parseDimension(value)).toBeUndefined()
+  })
+})
+
+describe("finalDimensions", () => {
+  it("is null until the source size is known", () => {
+    expect(finalDimensions(undefined, "800", "")).toBeNull()
+  })
+
+  it("resolves the card's fields against the source", () => {
+    expect(finalDimensions(source, "2000", "")).toEqual({ width: 2000, height: 1500 })
+    expect(finalDimensions(source, "", "")).toEqual(source)
+    expect(finalDimensions(source, "abc", "300")).toEqual({ width: 400, height: 300 })
+  })
+})
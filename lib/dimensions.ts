@@ -0,0 +1,23 @@
+export interface Dimensions {
+  width: number
+  height: number
+}
+
+export function resolveTargetDimensions(source: Dimensions, width?: number, height?: number): Dimensions {
+  if (width && height) return { width, height }
+  if (width) return { width, height: Math.round((source.height / source.width) * width) }
+  if (height) return { width: Math.round((source.width / source.height) * height), height }
+  return { width: source.width, height: source.height }
+}
+
+/** Reads a width or height field, where an empty value means "follow the aspect ratio". */
+export function parseDimension(value: string): number | undefined {
+  const parsed = Number.parseInt(value)
+  return parsed > 0 ? parsed : undefined
+}
+
+/** The output size for the card's width and height fields, or null until the source size is known. */
+export function finalDimensions(source: Dimensions | undefined, width: string, height: string): Dimensions | null {
+  if (!source) return null
+  return resolveTargetDimensions(source, parseDimension(width), parseDimension(height))
+}
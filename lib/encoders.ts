@@ -0,0 +1,85 @@
+import { LocalizedError } from "@/lib/i18n"
+import { validateAvifOptions, type EncoderSettings, type OutputFormat } from "@/lib/output-formats"
+
+const toHighBitDepth = (imageData: ImageData, bitDepth: 10 | 12) => {
+  const max = (1 << bitDepth) - 1
+  const data = new Uint16Array(imageData.data.length)
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.round((imageData.data[i] * max) / 255)
+  }
+  return { data, width: imageData.width, height: imageData.height }
+}
+
+export async function encodeImageData(
+  imageData: ImageData,
+  { format, quality, preview, options }: EncoderSettings,
+): Promise<ArrayBuffer> {
+  switch (format) {
+    case "avif": {
+      const avif = options.avif
+      const problems = validateAvifOptions(avif)
+      if (problems.length > 0) throw new LocalizedError({ key: "errors.invalidAvifOptions", params: { problems } })
+
+      const { encode } = await import("@jsquash/avif")
+      const avifOptions = {
+        quality,
+        qualityAlpha: avif.qualityAlpha,
+        speed: preview ? Math.max(8, avif.speed) : avif.speed,
+        subsample: avif.subsample,
+        tune: avif.tune,
+        sharpness: avif.sharpness,
+        lossless: avif.lossless,
+      }
+      if (avif.bitDepth === 8) return encode(imageData, { ...avifOptions, bitDepth: 8 })
+      return encode(toHighBitDepth(imageData, avif.bitDepth), { ...avifOptions, bitDepth: avif.bitDepth })
+    }
+    case "webp": {
+      const { encode } = await import("@jsquash/webp")
+      return encode(imageData, {
+        quality,
+        lossless: options.webp.lossless ? 1 : 0,
+        method: preview ? 0 : options.webp.method,
+      })
+    }
+    case "jpeg": {
+      const { encode } = await import("@jsquash/jpeg")
+      return encode(imageData, { quality, progressive: options.jpeg.progressive })
+    }
+    case "png": {
+      const { optimise } = await import("@jsquash/oxipng")
+      return optimise(imageData, { level: preview ? 1 : options.png.level, interlace: options.png.interlace })
+    }
+    case "jxl": {
+      const { encode } = await import("@jsquash/jxl")
+      return encode(imageData, {
+        quality,
+        effort: preview ? Math.min(3, options.jxl.effort) : options.jxl.effort,
+        lossless: options.jxl.lossless,
+        progressive: options.jxl.progressive,
+      })
+    }
+  }
+}
+
+export async function decodeImageData(buffer: ArrayBuffer, format: OutputFormat): Promise<ImageData> {
+  let imageData: ImageData | null
+  switch (format) {
+    case "avif":
+      imageData = await (await import("@jsquash/avif")).decode(buffer)
+      break
+    case "webp":
+      imageData = await (await import("@jsquash/webp")).decode(buffer)
+      break
+    case "jpeg":
+      imageData = await (await import("@jsquash/jpeg")).decode(buffer)
+      break
+    case "png":
+      imageData = await (await import("@jsquash/png")).decode(buffer)
+      break
+    case "jxl":
+      imageData = await (await import("@jsquash/jxl")).decode(buffer)
+      break
+  }
+  if (!imageData) throw new LocalizedError({ key: "errors.codecDecodeFailed", params: { format } })
+  return imageData
+}
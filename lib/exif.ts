@@ -0,0 +1,222 @@
+export type ExifFieldKey =
+  | "make"
+  | "model"
+  | "lens"
+  | "captureDate"
+  | "exposure"
+  | "aperture"
+  | "iso"
+  | "focalLength"
+  | "orientation"
+  | "artist"
+  | "copyright"
+  | "description"
+  | "software"
+  | "gps"
+
+/** The value is shown as read, except `orientation`, which holds the EXIF number (1–8) for the UI to name. */
+export interface ExifField {
+  key: ExifFieldKey
+  value: string
+}
+
+export interface ExifData {
+  orientation: number
+  artist?: string
+  copyright?: string
+  fields: ExifField[]
+}
+
+export interface AuthorTags {
+  artist?: string
+  copyright?: string
+}
+
+const TAG_ORIENTATION = 0x0112
+const TAG_ARTIST = 0x013b
+const TAG_COPYRIGHT = 0x8298
+const TAG_EXIF_IFD = 0x8769
+const TAG_GPS_IFD = 0x8825
+
+const TYPE_ASCII = 2
+const TYPE_SHORT = 3
+const TYPE_LONG = 4
+const TYPE_RATIONAL = 5
+const TYPE_SLONG = 9
+const TYPE_SRATIONAL = 10
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 }
+
+type TagValue = string | number[]
+
+const readIfd = (view: DataView, offset: number, little: boolean) => {
+  const tags = new Map<number, TagValue>()
+  if (offset + 2 > view.byteLength) return tags
+
+  const count = view.getUint16(offset, little)
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12
+    if (entry + 12 > view.byteLength) break
+
+    const tag = view.getUint16(entry, little)
+    const type = view.getUint16(entry + 2, little)
+    const length = view.getUint32(entry + 4, little)
+    const size = (TYPE_SIZES[type] ?? 0) * length
+    if (size === 0) continue
+    const valueOffset = size <= 4 ? entry + 8 : view.getUint32(entry + 8, little)
+    if (valueOffset + size > view.byteLength) continue
+
+    if (type === TYPE_ASCII) {
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + valueOffset, length)
+      tags.set(tag, new TextDecoder().decode(bytes).replace(/\0[\s\S]*$/, "").trim())
+      continue
+    }
+
+    const values: number[] = []
+    for (let n = 0; n < length && n < 16; n++) {
+      const at = valueOffset + n * (TYPE_SIZES[type] ?? 1)
+      switch (type) {
+        case TYPE_SHORT:
+          values.push(view.getUint16(at, little))
+          break
+        case TYPE_LONG:
+          values.push(view.getUint32(at, little))
+          break
+        case TYPE_SLONG:
+          values.push(view.getInt32(at, little))
+          break
+        case TYPE_RATIONAL:
+          values.push(view.getUint32(at, little) / (view.getUint32(at + 4, little) || 1))
+          break
+        case TYPE_SRATIONAL:
+          values.push(view.getInt32(at, little) / (view.getInt32(at + 4, little) || 1))
+          break
+        default:
+          values.push(view.getUint8(at))
+      }
+    }
+    tags.set(tag, values)
+  }
+  return tags
+}
+
+const text = (value: TagValue | undefined) => (typeof value === "string" && value ? value : undefined)
+const number = (value: TagValue | undefined) => (Array.isArray(value) ? value[0] : undefined)
+
+const formatExposure = (seconds: number) => (seconds >= 1 ? `${seconds} s` : `1/${Math.round(1 / seconds)} s`)
+
+const formatCoordinate = (parts: TagValue | undefined, ref: TagValue | undefined, negative: string) => {
+  if (!Array.isArray(parts) || parts.length < 3) return undefined
+  const degrees = parts[0] + parts[1] / 60 + parts[2] / 3600
+  return (text(ref) === negative ? -degrees : degrees).toFixed(6)
+}
+
+/** Reads the fields worth showing from a TIFF-structured EXIF block (without the `Exif\0\0` prefix). */
+export function readExif(tiff: Uint8Array): ExifData | null {
+  if (tiff.length < 8) return null
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength)
+  const order = view.getUint16(0)
+  if (order !== 0x4949 && order !== 0x4d4d) return null
+  const little = order === 0x4949
+  if (view.getUint16(2, little) !== 42) return null
+
+  const ifd0 = readIfd(view, view.getUint32(4, little), little)
+  const exifOffset = number(ifd0.get(TAG_EXIF_IFD))
+  const gpsOffset = number(ifd0.get(TAG_GPS_IFD))
+  const exif = exifOffset ? readIfd(view, exifOffset, little) : new Map<number, TagValue>()
+  const gps = gpsOffset ? readIfd(view, gpsOffset, little) : new Map<number, TagValue>()
+
+  const tagOrientation = number(ifd0.get(TAG_ORIENTATION)) ?? 1
+  const orientation = tagOrientation >= 1 && tagOrientation <= 8 ? tagOrientation : 1
+  const exposure = number(exif.get(0x829a))
+  const aperture = number(exif.get(0x829d))
+  const iso = number(exif.get(0x8827))
+  const focalLength = number(exif.get(0x920a))
+  const latitude = formatCoordinate(gps.get(2), gps.get(1), "S")
+  const longitude = formatCoordinate(gps.get(4), gps.get(3), "W")
+
+  const fields: [ExifFieldKey, string | undefined][] = [
+    ["make", text(ifd0.get(0x010f))],
+    ["model", text(ifd0.get(0x0110))],
+    ["lens", text(exif.get(0xa434))],
+    ["captureDate", text(exif.get(0x9003)) ?? text(ifd0.get(0x0132))],
+    ["exposure", exposure ? formatExposure(exposure) : undefined],
+    ["aperture", aperture ? `f/${aperture.toFixed(1)}` : undefined],
+    ["iso", iso ? String(iso) : undefined],
+    ["focalLength", focalLength ? `${Math.round(focalLength)} mm` : undefined],
+    ["orientation", String(orientation)],
+    ["artist", text(ifd0.get(TAG_ARTIST))],
+    ["copyright", text(ifd0.get(TAG_COPYRIGHT))],
+    ["description", text(ifd0.get(0x010e))],
+    ["software", text(ifd0.get(0x0131))],
+    ["gps", latitude && longitude ? `${latitude}, ${longitude}` : undefined],
+  ]
+
+  return {
+    orientation,
+    artist: text(ifd0.get(TAG_ARTIST)),
+    copyright: text(ifd0.get(TAG_COPYRIGHT)),
+    fields: fields.flatMap(([key, value]) => (value ? [{ key, value }] : [])),
+  }
+}
+
+/** Returns the raw value bytes of an IFD0 tag, e.g. the ICC profile (34675) a TIFF file embeds. */
+export function readTiffTagBytes(tiff: Uint8Array, tag: number): Uint8Array | null {
+  if (tiff.length < 8) return null
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength)
+  const order = view.getUint16(0)
+  if (order !== 0x4949 && order !== 0x4d4d) return null
+  const little = order === 0x4949
+  const offset = view.getUint32(4, little)
+  if (offset + 2 > view.byteLength) return null
+
+  const count = view.getUint16(offset, little)
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12
+    if (entry + 12 > view.byteLength) break
+    if (view.getUint16(entry, little) !== tag) continue
+
+    const size = (TYPE_SIZES[view.getUint16(entry + 2, little)] ?? 0) * view.getUint32(entry + 4, little)
+    const valueOffset = size <= 4 ? entry + 8 : view.getUint32(entry + 8, little)
+    if (size === 0 || valueOffset + size > view.byteLength) return null
+    return tiff.subarray(valueOffset, valueOffset + size)
+  }
+  return null
+}
+
+/** Builds a minimal big-endian TIFF block holding only the author and copyright tags. */
+export function writeAuthorExif({ artist, copyright }: AuthorTags): Uint8Array | null {
+  const entries = (
+    [
+      [TAG_ARTIST, artist],
+      [TAG_COPYRIGHT, copyright],
+    ] as const
+  ).flatMap(([tag, value]) => (value ? [{ tag, bytes: new TextEncoder().encode(`${value}\0`) }] : []))
+  if (entries.length === 0) return null
+
+  const ifdSize = 2 + entries.length * 12 + 4
+  const dataSize = entries.reduce((total, entry) => total + (entry.bytes.length > 4 ? entry.bytes.length : 0), 0)
+  const tiff = new Uint8Array(8 + ifdSize + dataSize)
+  const view = new DataView(tiff.buffer)
+
+  view.setUint16(0, 0x4d4d)
+  view.setUint16(2, 42)
+  view.setUint32(4, 8)
+  view.setUint16(8, entries.length)
+
+  let dataOffset = 8 + ifdSize
+  entries.forEach(({ tag, bytes }, i) => {
+    const entry = 10 + i * 12
+    view.setUint16(entry, tag)
+    view.setUint16(entry + 2, TYPE_ASCII)
+    view.setUint32(entry + 4, bytes.length)
+    if (bytes.length <= 4) {
+      tiff.set(bytes, entry + 8)
+    } else {
+      view.setUint32(entry + 8, dataOffset)
+      tiff.set(bytes, dataOffset)
+      dataOffset += bytes.length
+    }
+  })
+  return tiff
+}
@@ -0,0 +1,68 @@
+import { isAcceptedFile } from "@/lib/source-formats"
+
+export interface IntakeResult {
+  accepted: File[]
+  /** Files that aren't images at all, like the PDFs or .DS_Store a dropped folder brings along. */
+  skipped: File[]
+  /** Images with no bytes, which can't be read. */
+  empty: File[]
+}
+
+const readEntries = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+
+const readFile = (entry: FileSystemFileEntry) => new Promise<File>((resolve, reject) => entry.file(resolve, reject))
+
+const walk = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) return [await readFile(entry as FileSystemFileEntry)]
+  if (!entry.isDirectory) return []
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader()
+  const children: FileSystemEntry[] = []
+  // readEntries hands out directories in batches (100 in Chrome) until it returns nothing.
+  for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+    children.push(...batch)
+  }
+  return (await Promise.all(children.map(walk))).flat()
+}
+
+/** Flattens a drop into files, descending into any dropped folders. */
+export async function filesFromDataTransfer(dataTransfer: DataTransfer): Promise<File[]> {
+  // The item list is emptied once the event handler yields, so take the entries before awaiting.
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === "file")
+    .map((item) => item.webkitGetAsEntry?.() ?? null)
+  const files = Array.from(dataTransfer.files)
+  if (entries.length === 0 || entries.some((entry) => entry === null)) return files
+
+  return (await Promise.all(entries.map((entry) => walk(entry!)))).flat()
+}
+
+const timestamp = () => new Date().toISOString().slice(0, 19).replace("T", "-").replace(/:/g, "")
+
+/** Pasted screenshots all arrive as "image.png", so they get a timestamped name instead. */
+export function filesFromClipboard(clipboard: DataTransfer): File[] {
+  return Array.from(clipboard.items)
+    .filter((item) => item.kind === "file")
+    .flatMap((item) => {
+      const file = item.getAsFile()
+      if (!file) return []
+      if (!/^image\.\w+$/.test(file.name)) return [file]
+      const extension = file.name.slice(file.name.lastIndexOf(".") + 1)
+      return [new File([file], `captura-${timestamp()}.${extension}`, { type: file.type, lastModified: Date.now() })]
+    })
+}
+
+export function partitionFiles(files: File[]): IntakeResult {
+  const result: IntakeResult = { accepted: [], skipped: [], empty: [] }
+  for (const file of files) {
+    if (file.name.startsWith(".") || !isAcceptedFile(file)) {
+      result.skipped.push(file)
+    } else if (file.size === 0) {
+      result.empty.push(file)
+    } else {
+      result.accepted.push(file)
+    }
+  }
+  return result
+}
@@ -0,0 +1,73 @@
+import { OUTPUT_FORMATS, type OutputFormat } from "@/lib/output-formats"
+
+export interface FilenameContext {
+  /** The source file's name; its extension is dropped for `{name}`. */
+  sourceName: string
+  width: number
+  height: number
+  quality: number
+  format: OutputFormat
+  /** Hex SHA-256 of the output bytes. Only needed when the template uses `{hash8}`. */
+  hash?: string
+  /** 1-based position in the list. */
+  index: number
+}
+
+export const DEFAULT_FILENAME_TEMPLATE = "{name}"
+
+export type FilenameToken = "name" | "width" | "height" | "quality" | "format" | "hash8" | "index"
+
+export const FILENAME_TOKENS: FilenameToken[] = ["name", "width", "height", "quality", "format", "hash8", "index"]
+
+const MAX_NAME_LENGTH = 180
+// Characters Windows, macOS or zip tools refuse in file names, plus control characters.
+const UNSAFE_CHARACTERS = /[\\/:*?"<>|\u0000-\u001f\u007f]/g
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])$/i
+
+export const stripExtension = (name: string) => (name.lastIndexOf(".") > 0 ? name.slice(0, name.lastIndexOf(".")) : name)
+
+export function sanitizeFilename(name: string): string {
+  const cleaned = name
+    .normalize("NFC")
+    .replace(UNSAFE_CHARACTERS, "_")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^\.+|[. ]+$/g, "")
+    .slice(0, MAX_NAME_LENGTH)
+  if (!cleaned) return "image"
+  return RESERVED_NAMES.test(cleaned) ? `${cleaned}_` : cleaned
+}
+
+export const templateUsesHash = (template: string) => template.includes("{hash8}")
+
+/** Expands the template and returns a safe file name, extension included. */
+export function renderFilename(template: string, context: FilenameContext): string {
+  const values: Record<string, string> = {
+    name: stripExtension(context.sourceName),
+    width: String(context.width),
+    height: String(context.height),
+    quality: String(context.quality),
+    format: context.format,
+    hash8: (context.hash ?? "").slice(0, 8),
+    index: String(context.index),
+  }
+  const base = template.replace(/\{(\w+)\}/g, (match, token: string) => values[token] ?? match)
+  return `${sanitizeFilename(base)}.${OUTPUT_FORMATS[context.format].extension}`
+}
+
+/** Appends `-2`, `-3`… before the extension until the name is free. Comparison ignores case, like most file systems. */
+export function uniqueFilename(name: string, used: Set<string>): string {
+  const stem = stripExtension(name)
+  const extension = name.slice(stem.length)
+  let candidate = name
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${stem}-${n}${extension}`
+  }
+  used.add(candidate.toLowerCase())
+  return candidate
+}
+
+export async function hashBlob(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer())
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
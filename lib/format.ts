@@ -0,0 +1,15 @@
+const SIZE_UNITS = ["Bytes", "KB", "MB", "GB"]
+
+/** Binary sizes with the locale's decimal separator, e.g. "1.5 MB" in English and "1,5 MB" in Spanish. */
+export function formatSize(bytes: number, locale = "en"): string {
+  const i = bytes > 0 ? Math.min(SIZE_UNITS.length - 1, Math.floor(Math.log(bytes) / Math.log(1024))) : 0
+  const value = new Intl.NumberFormat(locale, { maximumFractionDigits: 2 }).format(bytes / Math.pow(1024, i))
+  return `${value} ${SIZE_UNITS[i]}`
+}
+
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return minutes > 0 ? `${minutes} min ${seconds} s` : `${seconds} s`
+}
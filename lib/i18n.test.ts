@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest"
+import {
+  LocalizedError,
+  describeError,
+  isLocale,
+  localize,
+  matchLocale,
+  parseAcceptLanguage,
+  translate,
+  type LocalizedMessage,
+  type Translate,
+} from "@/lib/i18n"
+
+describe("matchLocale", () => {
+  it("picks the first preferred language with a catalog", () => {
+    expect(matchLocale(parseAcceptLanguage("fr-CH, es-MX;q=0.9, en;q=0.8"))).toBe("es")
+    expect(matchLocale(parseAcceptLanguage("en-US,es;q=0"))).toBe("en")
+  })
+
+  it("falls back to the default locale", () => {
+    expect(matchLocale(parseAcceptLanguage("de"))).toBe("en")
+    expect(matchLocale(parseAcceptLanguage(null))).toBe("en")
+  })
+
+  it("ignores names inherited from Object.prototype", () => {
+    expect(isLocale("constructor")).toBe(false)
+    expect(isLocale("__proto__")).toBe(false)
+    expect(matchLocale(parseAcceptLanguage("constructor,__proto__;q=0.9"))).toBe("en")
+  })
+})
+
+describe("translate", () => {
+  it("fills placeholders and formats numbers for the locale", () => {
+    expect(translate("es", "batch.saved", { size: "1,5 MB" })).toBe("Ahorrado: 1,5 MB")
+    expect(translate("en", "crop.zoom", { zoom: 1250 })).toBe("Zoom: 1,250%")
+  })
+
+  it("picks the plural form from count", () => {
+    expect(translate("en", "presets.importedCount", { count: 1 })).toBe("1 preset imported")
+    expect(translate("es", "presets.importedCount", { count: 3 })).toBe("3 presets importados")
+  })
+})
+
+describe("LocalizedError", () => {
+  const spanish: Translate = (key, params) => translate("es", key, params)
+
+  it("has an English message and translates for the reader", () => {
+    const params = { format: "avif", reason: "out of memory" }
+    const error = new LocalizedError({ key: "errors.encodeFailed", params })
+    expect(error.message).toBe("Could not encode avif: out of memory")
+    expect(describeError(error, spanish)).toBe("No se pudo codificar avif: out of memory")
+  })
+
+  it("translates nested messages and joins lists", () => {
+    const message: LocalizedMessage = {
+      key: "errors.invalidFormatOptions",
+      params: { problems: [{ key: "errors.pngLevel" }, { key: "errors.jxlEffort" }] },
+    }
+    expect(localize(message, spanish)).toBe(
+      "Opciones de formato no válidas: El nivel de optimización PNG debe estar entre 1 y 6. " +
+        "El esfuerzo JPEG XL debe estar entre 1 y 9",
+    )
+  })
+
+  it("leaves other errors as they are", () => {
+    expect(describeError(new Error("disk full"), spanish)).toBe("disk full")
+    expect(describeError("nope", spanish)).toBeNull()
+  })
+})
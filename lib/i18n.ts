@@ -0,0 +1,102 @@
+import { en } from "@/lib/messages/en"
+import { es, type MessageKey, type Messages } from "@/lib/messages/es"
+
+export type Locale = "en" | "es"
+
+export const LOCALES: Record<Locale, { label: string; messages: Messages }> = {
+  en: { label: "English", messages: en },
+  es: { label: "Español", messages: es },
+}
+
+/** Used when none of the browser's languages has a catalog. */
+export const DEFAULT_LOCALE: Locale = "en"
+
+// A cookie rather than localStorage, so the server renders the chosen language and <html lang> from the start.
+export const LOCALE_COOKIE = "image-compressor-locale"
+
+export type MessageParams = Record<string, string | number>
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string
+
+// Own keys only: a cookie or Accept-Language of "constructor" must not pass for a locale.
+export const isLocale = (value: unknown): value is Locale => typeof value === "string" && Object.hasOwn(LOCALES, value)
+
+/** The first of the preferred languages, most preferred first, that has a catalog. "es-MX" matches "es". */
+export function matchLocale(languages: readonly string[]): Locale {
+  for (const language of languages) {
+    const primary = language.trim().split("-")[0].toLowerCase()
+    if (isLocale(primary)) return primary
+  }
+  return DEFAULT_LOCALE
+}
+
+/** The languages of an Accept-Language header, ordered by their q weights. */
+export function parseAcceptLanguage(header: string | null): string[] {
+  if (!header) return []
+  return header
+    .split(",")
+    .map((part, index) => {
+      const [language, ...params] = part.trim().split(";")
+      const q = params.map((param) => param.trim()).find((param) => param.startsWith("q="))
+      return { language, weight: q ? Number.parseFloat(q.slice(2)) || 0 : 1, index }
+    })
+    .filter(({ language, weight }) => language && language !== "*" && weight > 0)
+    .sort((a, b) => b.weight - a.weight || a.index - b.index)
+    .map(({ language }) => language)
+}
+
+/**
+ * Looks a message up and fills its `{name}` placeholders. Numbers are formatted for the locale,
+ * and plural messages pick their form from `params.count`.
+ */
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const message: Messages[MessageKey] = LOCALES[locale].messages[key]
+  const template =
+    typeof message === "string"
+      ? message
+      : (message[new Intl.PluralRules(locale).select(Number(params.count)) as keyof typeof message] ?? message.other)
+  const numbers = new Intl.NumberFormat(locale, { maximumFractionDigits: 2 })
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name]
+    if (value === undefined) return placeholder
+    return typeof value === "number" ? numbers.format(value) : value
+  })
+}
+
+/**
+ * A catalog message kept as its key and parameters, for code that can't know the reader's language.
+ * Parameters can be messages themselves (lists are joined), and the whole thing survives postMessage.
+ */
+export interface LocalizedMessage {
+  key: MessageKey
+  params?: Record<string, string | number | LocalizedMessage | LocalizedMessage[]>
+}
+
+export function localize({ key, params = {} }: LocalizedMessage, t: Translate): string {
+  const filled = Object.entries(params).map(([name, value]) => {
+    if (Array.isArray(value)) return [name, value.map((message) => localize(message, t)).join(". ")]
+    return [name, typeof value === "object" ? localize(value, t) : value]
+  })
+  return t(key, Object.fromEntries(filled))
+}
+
+/** Thrown by the shared code; `message` is the English text for logs and the CLI, the UI translates `localized`. */
+export class LocalizedError extends Error {
+  constructor(
+    readonly localized: LocalizedMessage,
+    options?: { cause?: unknown },
+  ) {
+    super(localize(localized, (key, params) => translate("en", key, params)), options)
+    this.name = "LocalizedError"
+  }
+}
+
+/** A caught error as a message parameter: translatable when it came from a catalog, its own text otherwise. */
+export const reasonOf = (error: unknown): string | LocalizedMessage =>
+  error instanceof LocalizedError ? error.localized : error instanceof Error ? error.message : String(error)
+
+/** What to show the reader for a caught error, or null when it carries nothing worth showing. */
+export function describeError(error: unknown, t: Translate): string | null {
+  if (error instanceof LocalizedError) return localize(error.localized, t)
+  return error instanceof Error && error.message ? error.message : null
+}
@@ -0,0 +1,193 @@
+export interface IccProfile {
+  description: string
+  colorSpace: string
+  data: Uint8Array
+  /** True when the profile is (close enough to) sRGB, so pixels can be used as they are. */
+  srgb: boolean
+  /** True for RGB matrix/TRC profiles such as Display P3 or Adobe RGB, which we can convert to sRGB. */
+  convertible: boolean
+}
+
+interface MatrixShaper {
+  // Columns are the red, green and blue colorants in PCS XYZ (D50).
+  colorants: [number[], number[], number[]]
+  curves: [(value: number) => number, (value: number) => number, (value: number) => number]
+}
+
+// Linear sRGB from D50 XYZ (Bradford-adapted), as used by ICC matrix/TRC profiles.
+const XYZ_D50_TO_SRGB = [
+  [3.1338561, -1.6168667, -0.4906146],
+  [-0.9787684, 1.9161415, 0.033454],
+  [0.0719453, -0.2289914, 1.4052427],
+]
+
+const SRGB_OUTPUT_STEPS = 4096
+
+const srgbToLinear = (v: number) => (v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4)
+const linearToSrgb = (v: number) => (v <= 0.0031308 ? v * 12.92 : 1.055 * v ** (1 / 2.4) - 0.055)
+
+const readTag = (view: DataView, signature: string) => {
+  if (view.byteLength < 132) return null
+  const count = view.getUint32(128)
+  for (let i = 0; i < count; i++) {
+    const entry = 132 + i * 12
+    if (entry + 12 > view.byteLength) break
+    const tagSignature = String.fromCharCode(
+      view.getUint8(entry),
+      view.getUint8(entry + 1),
+      view.getUint8(entry + 2),
+      view.getUint8(entry + 3),
+    )
+    if (tagSignature !== signature) continue
+    const offset = view.getUint32(entry + 4)
+    const size = view.getUint32(entry + 8)
+    if (offset + size > view.byteLength) return null
+    return new DataView(view.buffer, view.byteOffset + offset, size)
+  }
+  return null
+}
+
+const typeOf = (tag: DataView) =>
+  String.fromCharCode(tag.getUint8(0), tag.getUint8(1), tag.getUint8(2), tag.getUint8(3))
+
+const s15Fixed16 = (view: DataView, offset: number) => view.getInt32(offset) / 65536
+
+const readDescription = (view: DataView) => {
+  const tag = readTag(view, "desc")
+  if (!tag || tag.byteLength < 12) return ""
+  const bytes = new Uint8Array(tag.buffer, tag.byteOffset, tag.byteLength)
+
+  if (typeOf(tag) === "desc") {
+    const length = tag.getUint32(8)
+    return new TextDecoder().decode(bytes.subarray(12, 12 + length)).replace(/\0[\s\S]*$/, "")
+  }
+  if (typeOf(tag) === "mluc" && tag.byteLength >= 28) {
+    const length = tag.getUint32(20)
+    const offset = tag.getUint32(24)
+    return new TextDecoder("utf-16be").decode(bytes.subarray(offset, offset + length)).replace(/\0[\s\S]*$/, "")
+  }
+  return ""
+}
+
+const readCurve = (view: DataView, signature: string): ((value: number) => number) | null => {
+  const tag = readTag(view, signature)
+  if (!tag || tag.byteLength < 12) return null
+
+  if (typeOf(tag) === "curv") {
+    const count = tag.getUint32(8)
+    if (count === 0) return (value) => value
+    if (count === 1) {
+      const gamma = tag.getUint16(12) / 256
+      return (value) => value ** gamma
+    }
+    const table = Array.from({ length: count }, (_, i) => tag.getUint16(12 + i * 2) / 65535)
+    return (value) => {
+      const position = value * (count - 1)
+      const index = Math.min(count - 2, Math.floor(position))
+      return table[index] + (table[index + 1] - table[index]) * (position - index)
+    }
+  }
+
+  if (typeOf(tag) === "para") {
+    const type = tag.getUint16(8)
+    const parameterCounts = [1, 3, 4, 5, 7]
+    if (type >= parameterCounts.length) return null
+    const [g, a = 1, b = 0, c = 0, d = 0, e = 0, f = 0] = Array.from({ length: parameterCounts[type] }, (_, i) =>
+      s15Fixed16(tag, 12 + i * 4),
+    )
+    switch (type) {
+      case 0:
+        return (x) => x ** g
+      case 1:
+        return (x) => (x >= -b / a ? (a * x + b) ** g : 0)
+      case 2:
+        return (x) => (x >= -b / a ? (a * x + b) ** g + c : c)
+      case 3:
+        return (x) => (x >= d ? (a * x + b) ** g : c * x)
+      default:
+        return (x) => (x >= d ? (a * x + b) ** g + e : c * x + f)
+    }
+  }
+  return null
+}
+
+const readXyz = (view: DataView, signature: string) => {
+  const tag = readTag(view, signature)
+  if (!tag || tag.byteLength < 20 || typeOf(tag) !== "XYZ ") return null
+  return [s15Fixed16(tag, 8), s15Fixed16(tag, 12), s15Fixed16(tag, 16)]
+}
+
+const readMatrixShaper = (view: DataView): MatrixShaper | null => {
+  const red = readXyz(view, "rXYZ")
+  const green = readXyz(view, "gXYZ")
+  const blue = readXyz(view, "bXYZ")
+  const redCurve = readCurve(view, "rTRC")
+  const greenCurve = readCurve(view, "gTRC")
+  const blueCurve = readCurve(view, "bTRC")
+  if (!red || !green || !blue || !redCurve || !greenCurve || !blueCurve) return null
+  return { colorants: [red, green, blue], curves: [redCurve, greenCurve, blueCurve] }
+}
+
+/** The matrix taking linear source RGB to linear sRGB. */
+const toSrgbMatrix = ({ colorants }: MatrixShaper) =>
+  XYZ_D50_TO_SRGB.map((row) =>
+    colorants.map((colorant) => row[0] * colorant[0] + row[1] * colorant[1] + row[2] * colorant[2]),
+  )
+
+const isSrgbLike = (shaper: MatrixShaper) => {
+  const matrix = toSrgbMatrix(shaper)
+  const identity = matrix.every((row, i) => row.every((value, j) => Math.abs(value - (i === j ? 1 : 0)) < 0.02))
+  const curves = [0.1, 0.3, 0.5, 0.8].every((sample) =>
+    shaper.curves.every((curve) => Math.abs(curve(sample) - srgbToLinear(sample)) < 0.01),
+  )
+  return identity && curves
+}
+
+const profileView = (data: Uint8Array) => new DataView(data.buffer, data.byteOffset, data.byteLength)
+
+export function readIccProfile(data: Uint8Array): IccProfile | null {
+  if (data.length < 132) return null
+  const view = profileView(data)
+  if (view.getUint32(36) !== 0x61637370) return null // "acsp"
+
+  const colorSpace = String.fromCharCode(...data.subarray(16, 20)).trim()
+  const description = readDescription(view)
+  const shaper = colorSpace === "RGB" && view.getUint32(20) === 0x58595a20 ? readMatrixShaper(view) : null // PCS "XYZ "
+
+  return {
+    description: description || colorSpace,
+    colorSpace,
+    data,
+    srgb: shaper ? isSrgbLike(shaper) : /\bsRGB\b/i.test(description),
+    convertible: shaper !== null,
+  }
+}
+
+/**
+ * Converts pixels tagged with an RGB matrix/TRC profile into sRGB. Colours outside the
+ * sRGB gamut are clipped per channel, which matches what browsers do for untagged output.
+ */
+export function convertToSrgb(imageData: ImageData, profile: IccProfile): ImageData {
+  const shaper = readMatrixShaper(profileView(profile.data))
+  if (!shaper || profile.srgb) return imageData
+
+  const matrix = toSrgbMatrix(shaper)
+  const toLinear = shaper.curves.map((curve) => Float32Array.from({ length: 256 }, (_, v) => curve(v / 255)))
+  const toOutput = Uint8ClampedArray.from({ length: SRGB_OUTPUT_STEPS + 1 }, (_, i) =>
+    Math.round(linearToSrgb(i / SRGB_OUTPUT_STEPS) * 255),
+  )
+  const encode = (linear: number) => toOutput[Math.round(Math.min(1, Math.max(0, linear)) * SRGB_OUTPUT_STEPS)]
+
+  const source = imageData.data
+  const output = new Uint8ClampedArray(source.length)
+  for (let i = 0; i < source.length; i += 4) {
+    const r = toLinear[0][source[i]]
+    const g = toLinear[1][source[i + 1]]
+    const b = toLinear[2][source[i + 2]]
+    output[i] = encode(matrix[0][0] * r + matrix[0][1] * g + matrix[0][2] * b)
+    output[i + 1] = encode(matrix[1][0] * r + matrix[1][1] * g + matrix[1][2] * b)
+    output[i + 2] = encode(matrix[2][0] * r + matrix[2][1] * g + matrix[2][2] * b)
+    output[i + 3] = source[i + 3]
+  }
+  return new ImageData(output, imageData.width, imageData.height)
+}
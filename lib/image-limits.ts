@@ -0,0 +1,119 @@
+import type { Dimensions } from "@/lib/dimensions"
+import { SOURCE_FORMATS, type SourceFormat } from "@/lib/source-formats"
+
+/** What happens to a source over the pixel limit. */
+export type OversizePolicy = "downscale" | "tile" | "reject"
+
+export interface ImageLimits {
+  maxMegapixels: number
+  maxFileMegabytes: number
+  oversized: OversizePolicy
+}
+
+/** How a card over the pixel limit is handled, decided when it is added. */
+export interface OversizeInfo {
+  /** The full source size, read from the header. */
+  source: Dimensions
+  /** Every job on the card decodes at most this many pixels. */
+  maxPixels: number
+  /** Whether full-resolution tiles can be exported besides the reduced working copy. */
+  tiles: boolean
+}
+
+export interface TileRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export type LimitCheck =
+  | { status: "ok" }
+  | { status: "oversized"; oversize: OversizeInfo }
+  | { status: "rejected"; limit: "file-size" }
+  | { status: "rejected"; limit: "pixels"; size: Dimensions }
+
+export const DEFAULT_IMAGE_LIMITS: ImageLimits = { maxMegapixels: 50, maxFileMegabytes: 200, oversized: "downscale" }
+
+export const OVERSIZE_POLICIES: OversizePolicy[] = ["downscale", "tile", "reject"]
+
+const MEGABYTE = 1024 * 1024
+// Decoding, colour conversion and the edits each hold a copy of the source pixels at some point,
+// and the resize plus the encoder's own buffers come to about three copies of the output.
+const SOURCE_COPIES = 3
+const OUTPUT_COPIES = 3
+
+/** Megapixels to one decimal, for display. */
+export const toMegapixels = (pixels: number) => Math.round(pixels / 100_000) / 10
+
+/** Formats every browser decodes itself, which lets it scale or crop while decoding, as tiles need. */
+export const decodesInBrowser = (format: SourceFormat | null) =>
+  format !== null && format !== "jxl" && ["codec", "browser"].includes(SOURCE_FORMATS[format].decoder)
+
+export function checkImageLimits(
+  bytes: number,
+  size: Dimensions | null,
+  format: SourceFormat | null,
+  limits: ImageLimits,
+): LimitCheck {
+  if (bytes > limits.maxFileMegabytes * MEGABYTE) return { status: "rejected", limit: "file-size" }
+
+  const maxPixels = Math.floor(limits.maxMegapixels * 1_000_000)
+  if (!size || size.width * size.height <= maxPixels) return { status: "ok" }
+  if (limits.oversized === "reject") return { status: "rejected", limit: "pixels", size }
+  return {
+    status: "oversized",
+    oversize: { source: size, maxPixels, tiles: limits.oversized === "tile" && decodesInBrowser(format) },
+  }
+}
+
+/** The largest size with the same aspect ratio that stays within `maxPixels`. */
+export function fitWithinPixels(size: Dimensions, maxPixels: number): Dimensions {
+  if (size.width * size.height <= maxPixels) return size
+  const scale = Math.sqrt(maxPixels / (size.width * size.height))
+  return {
+    width: Math.max(1, Math.floor(size.width * scale)),
+    height: Math.max(1, Math.floor(size.height * scale)),
+  }
+}
+
+/** An even grid of tiles, row by row, none of them over `maxPixels`. */
+export function planTiles(size: Dimensions, maxPixels: number): TileRect[] {
+  const count = Math.ceil((size.width * size.height) / maxPixels)
+  let columns = Math.max(1, Math.round(Math.sqrt((count * size.width) / size.height)))
+  let rows = Math.ceil(count / columns)
+  while (Math.ceil(size.width / columns) * Math.ceil(size.height / rows) > maxPixels) {
+    if (size.width / columns >= size.height / rows) columns++
+    else rows++
+  }
+
+  const tileWidth = Math.ceil(size.width / columns)
+  const tileHeight = Math.ceil(size.height / rows)
+  const tiles: TileRect[] = []
+  for (let y = 0; y < size.height; y += tileHeight) {
+    for (let x = 0; x < size.width; x += tileWidth) {
+      tiles.push({ x, y, width: Math.min(tileWidth, size.width - x), height: Math.min(tileHeight, size.height - y) })
+    }
+  }
+  return tiles
+}
+
+/** A rough peak for one compression job in bytes, from the decoded size and the output size. */
+export function estimateJobMemory(decoded: Dimensions, output: Dimensions): number {
+  return (decoded.width * decoded.height * SOURCE_COPIES + output.width * output.height * OUTPUT_COPIES) * 4
+}
+
+/** Reads the saved limits, falling back to the defaults for anything missing or invalid. */
+export function parseImageLimits(json: string | null): ImageLimits {
+  if (!json) return DEFAULT_IMAGE_LIMITS
+  try {
+    const { maxMegapixels, maxFileMegabytes, oversized }: ImageLimits = { ...DEFAULT_IMAGE_LIMITS, ...JSON.parse(json) }
+    return {
+      maxMegapixels: maxMegapixels > 0 ? maxMegapixels : DEFAULT_IMAGE_LIMITS.maxMegapixels,
+      maxFileMegabytes: maxFileMegabytes > 0 ? maxFileMegabytes : DEFAULT_IMAGE_LIMITS.maxFileMegabytes,
+      oversized: OVERSIZE_POLICIES.includes(oversized) ? oversized : DEFAULT_IMAGE_LIMITS.oversized,
+    }
+  } catch {
+    return DEFAULT_IMAGE_LIMITS
+  }
+}
@@ -0,0 +1,200 @@
+import type { Dimensions } from "@/lib/dimensions"
+import { detectSourceFormat } from "@/lib/source-formats"
+
+// Container metadata sits near the start of the file; a box further in than this isn't worth a scan.
+const MAX_BOX_SCAN = 1 << 20
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length))
+
+const jpegSize = (bytes: Uint8Array, view: DataView): Dimensions | null => {
+  for (let p = 2; p + 9 < bytes.length; ) {
+    if (bytes[p] !== 0xff) return null
+    const marker = bytes[p + 1]
+    if (marker === 0xff) {
+      p++
+      continue
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      p += 2
+      continue
+    }
+    // SOF0–SOF15, which are every C0–CF marker except DHT, JPG and DAC.
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: view.getUint16(p + 7), height: view.getUint16(p + 5) }
+    }
+    p += 2 + view.getUint16(p + 2)
+  }
+  return null
+}
+
+const webpSize = (bytes: Uint8Array, view: DataView): Dimensions | null => {
+  switch (ascii(bytes, 12, 4)) {
+    case "VP8X":
+      return { width: (view.getUint32(24, true) & 0xffffff) + 1, height: (view.getUint32(26, true) >>> 8) + 1 }
+    case "VP8L": {
+      const bits = view.getUint32(21, true)
+      return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 }
+    }
+    case "VP8 ":
+      return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff }
+    default:
+      return null
+  }
+}
+
+const largest = (sizes: Dimensions[]) =>
+  sizes.reduce<Dimensions | null>(
+    (best, size) => (!best || size.width * size.height > best.width * best.height ? size : best),
+    null,
+  )
+
+/**
+ * HEIF and AVIF store each image's size in an `ispe` box and a rotation in `irot`. Grids,
+ * thumbnails and alpha planes have their own, and the primary image is the largest.
+ */
+const isobmffSize = (bytes: Uint8Array, view: DataView): Dimensions | null => {
+  const sizes: Dimensions[] = []
+  let quarterTurns = 0
+  const end = Math.min(bytes.length, MAX_BOX_SCAN)
+  for (let p = 4; p + 16 <= end; p++) {
+    // Both box types start with "i", which keeps the byte scan cheap. The 32-bit size in front
+    // of a real box is fixed for these two, so stray matches inside compressed data are skipped.
+    const type = bytes[p] === 0x69 ? ascii(bytes, p, 4) : ""
+    if (type === "ispe" && view.getUint32(p - 4) === 20) {
+      sizes.push({ width: view.getUint32(p + 8), height: view.getUint32(p + 12) })
+    } else if (type === "irot" && view.getUint32(p - 4) === 9) {
+      quarterTurns = bytes[p + 4] & 3
+    }
+  }
+  const size = largest(sizes)
+  return size && quarterTurns % 2 === 1 ? { width: size.height, height: size.width } : size
+}
+
+const TIFF_WIDTH = 0x0100
+const TIFF_HEIGHT = 0x0101
+const TIFF_SUB_IFDS = 0x014a
+
+/** The largest image in the IFD chain and its SubIFDs, where camera raws keep the full-size sensor data. */
+const tiffSize = (bytes: Uint8Array, view: DataView): Dimensions | null => {
+  const order = view.getUint16(0)
+  if (order !== 0x4949 && order !== 0x4d4d) return null
+  const little = order === 0x4949
+  const sizes: Dimensions[] = []
+  const visited = new Set<number>()
+
+  const readValue = (entry: number) =>
+    view.getUint16(entry + 2, little) === 3 ? view.getUint16(entry + 8, little) : view.getUint32(entry + 8, little)
+
+  const readIfd = (offset: number, depth: number) => {
+    while (offset > 0 && offset + 2 <= bytes.length && !visited.has(offset)) {
+      visited.add(offset)
+      const count = view.getUint16(offset, little)
+      let width = 0
+      let height = 0
+      for (let i = 0; i < count; i++) {
+        const entry = offset + 2 + i * 12
+        if (entry + 12 > bytes.length) return
+        const tag = view.getUint16(entry, little)
+        if (tag === TIFF_WIDTH) width = readValue(entry)
+        else if (tag === TIFF_HEIGHT) height = readValue(entry)
+        else if (tag === TIFF_SUB_IFDS && depth === 0) {
+          const subCount = view.getUint32(entry + 4, little)
+          const list = subCount === 1 ? entry + 8 : view.getUint32(entry + 8, little)
+          for (let j = 0; j < subCount && list + j * 4 + 4 <= bytes.length; j++) {
+            readIfd(view.getUint32(list + j * 4, little), depth + 1)
+          }
+        }
+      }
+      if (width > 0 && height > 0) sizes.push({ width, height })
+      const next = offset + 2 + count * 12
+      offset = next + 4 <= bytes.length ? view.getUint32(next, little) : 0
+    }
+  }
+
+  readIfd(view.getUint32(4, little), 0)
+  return largest(sizes)
+}
+
+const JXL_RATIOS = [
+  [1, 1],
+  [12, 10],
+  [4, 3],
+  [3, 2],
+  [16, 9],
+  [5, 4],
+  [2, 1],
+]
+
+/** Reads the SizeHeader that opens every JPEG XL codestream, bit by bit, least significant first. */
+const jxlCodestreamSize = (bytes: Uint8Array, start: number): Dimensions | null => {
+  if (bytes[start] !== 0xff || bytes[start + 1] !== 0x0a) return null
+  let bit = (start + 2) * 8
+  const read = (count: number) => {
+    let value = 0
+    for (let i = 0; i < count; i++, bit++) value |= ((bytes[bit >> 3] >> (bit & 7)) & 1) << i
+    return value >>> 0
+  }
+  const readU32 = () => 1 + read([9, 13, 18, 30][read(2)])
+
+  const small = read(1) === 1
+  const height = small ? (read(5) + 1) * 8 : readU32()
+  const ratio = read(3)
+  if (ratio > 0) {
+    const [numerator, denominator] = JXL_RATIOS[ratio - 1]
+    return { width: Math.floor((height * numerator) / denominator), height }
+  }
+  return { width: small ? (read(5) + 1) * 8 : readU32(), height }
+}
+
+const jxlSize = (bytes: Uint8Array, view: DataView): Dimensions | null => {
+  if (bytes[0] === 0xff) return jxlCodestreamSize(bytes, 0)
+  for (let p = 0; p + 8 <= Math.min(bytes.length, MAX_BOX_SCAN); ) {
+    const size = view.getUint32(p)
+    const type = ascii(bytes, p + 4, 4)
+    if (type === "jxlc") return jxlCodestreamSize(bytes, p + 8)
+    // Partial codestream boxes start with a 4-byte sequence number.
+    if (type === "jxlp") return jxlCodestreamSize(bytes, p + 12)
+    if (size < 8) return null
+    p += size
+  }
+  return null
+}
+
+/**
+ * The pixel size from the file header, without decoding anything. HEIF rotations are taken
+ * into account but EXIF orientation isn't. Null when the header can't be read, as with
+ * camera raws that aren't built on TIFF.
+ */
+export function readImageSize(buffer: ArrayBuffer): Dimensions | null {
+  const bytes = new Uint8Array(buffer)
+  const view = new DataView(buffer)
+  try {
+    switch (detectSourceFormat(buffer)) {
+      case "jpeg":
+        return jpegSize(bytes, view)
+      case "png":
+        return { width: view.getUint32(16), height: view.getUint32(20) }
+      case "gif":
+        return { width: view.getUint16(6, true), height: view.getUint16(8, true) }
+      case "bmp":
+        return { width: Math.abs(view.getInt32(18, true)), height: Math.abs(view.getInt32(22, true)) }
+      case "webp":
+        return webpSize(bytes, view)
+      case "avif":
+      case "heic":
+        return isobmffSize(bytes, view)
+      case "jxl":
+        return jxlSize(bytes, view)
+      case "tiff":
+      case "dng":
+      case "raw":
+        return tiffSize(bytes, view)
+      default:
+        return null
+    }
+  } catch {
+    // A truncated header reads past the end of the buffer.
+    return null
+  }
+}
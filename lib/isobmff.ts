@@ -0,0 +1,421 @@
+import { LocalizedError } from "@/lib/i18n"
+
+// Just enough of ISOBMFF/HEIF to read and add ICC and Exif metadata in AVIF files. The
+// writer targets the layout libavif produces: one `meta` box followed by `mdat`.
+
+interface Box {
+  type: string
+  start: number
+  contentStart: number
+  end: number
+}
+
+interface IlocItem {
+  id: number
+  constructionMethod: number
+  dataReferenceIndex: number
+  baseOffset: number
+  extents: { index: number; offset: number; length: number }[]
+}
+
+interface Iloc {
+  version: number
+  offsetSize: number
+  lengthSize: number
+  baseOffsetSize: number
+  indexSize: number
+  items: IlocItem[]
+}
+
+export interface AvifMetadata {
+  icc?: Uint8Array
+  exif?: Uint8Array
+}
+
+const fourCC = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3])
+
+const viewOf = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+const readBoxes = (bytes: Uint8Array, start: number, end: number): Box[] => {
+  const view = viewOf(bytes)
+  const boxes: Box[] = []
+  let offset = start
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset)
+    let headerSize = 8
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8))
+      headerSize = 16
+    } else if (size === 0) {
+      size = end - offset
+    }
+    if (size < headerSize || offset + size > end) break
+    boxes.push({ type: fourCC(bytes, offset + 4), start: offset, contentStart: offset + headerSize, end: offset + size })
+    offset += size
+  }
+  return boxes
+}
+
+const child = (bytes: Uint8Array, parent: Box, type: string, fullBox = false) =>
+  readBoxes(bytes, parent.contentStart + (fullBox ? 4 : 0), parent.end).find((box) => box.type === type)
+
+const readUint = (view: DataView, offset: number, size: number) => {
+  switch (size) {
+    case 0:
+      return 0
+    case 2:
+      return view.getUint16(offset)
+    case 4:
+      return view.getUint32(offset)
+    case 8:
+      return Number(view.getBigUint64(offset))
+    default:
+      throw new LocalizedError({ key: "errors.unsupportedFieldSize", params: { size } })
+  }
+}
+
+const writeUint = (view: DataView, offset: number, size: number, value: number) => {
+  switch (size) {
+    case 0:
+      return
+    case 2:
+      view.setUint16(offset, value)
+      return
+    case 4:
+      view.setUint32(offset, value)
+      return
+    case 8:
+      view.setBigUint64(offset, BigInt(value))
+      return
+    default:
+      throw new LocalizedError({ key: "errors.unsupportedFieldSize", params: { size } })
+  }
+}
+
+const parseIloc = (bytes: Uint8Array, box: Box): Iloc => {
+  const view = viewOf(bytes)
+  let p = box.contentStart
+  const version = bytes[p]
+  p += 4
+  const offsetSize = bytes[p] >> 4
+  const lengthSize = bytes[p] & 15
+  const baseOffsetSize = bytes[p + 1] >> 4
+  const indexSize = version > 0 ? bytes[p + 1] & 15 : 0
+  p += 2
+  const itemCount = version < 2 ? view.getUint16(p) : view.getUint32(p)
+  p += version < 2 ? 2 : 4
+
+  const items: IlocItem[] = []
+  for (let i = 0; i < itemCount; i++) {
+    const id = version < 2 ? view.getUint16(p) : view.getUint32(p)
+    p += version < 2 ? 2 : 4
+    const constructionMethod = version > 0 ? view.getUint16(p) & 15 : 0
+    if (version > 0) p += 2
+    const dataReferenceIndex = view.getUint16(p)
+    p += 2
+    const baseOffset = readUint(view, p, baseOffsetSize)
+    p += baseOffsetSize
+    const extentCount = view.getUint16(p)
+    p += 2
+    const extents = []
+    for (let e = 0; e < extentCount; e++) {
+      const index = readUint(view, p, indexSize)
+      p += indexSize
+      const offset = readUint(view, p, offsetSize)
+      p += offsetSize
+      const length = readUint(view, p, lengthSize)
+      p += lengthSize
+      extents.push({ index, offset, length })
+    }
+    items.push({ id, constructionMethod, dataReferenceIndex, baseOffset, extents })
+  }
+  return { version, offsetSize, lengthSize, baseOffsetSize, indexSize, items }
+}
+
+const serializeIloc = (iloc: Iloc) => {
+  const idSize = iloc.version < 2 ? 2 : 4
+  const itemSize = (item: IlocItem) =>
+    idSize +
+    (iloc.version > 0 ? 2 : 0) +
+    2 +
+    iloc.baseOffsetSize +
+    2 +
+    item.extents.length * (iloc.indexSize + iloc.offsetSize + iloc.lengthSize)
+  const size = 8 + 4 + 2 + idSize + iloc.items.reduce((total, item) => total + itemSize(item), 0)
+
+  const bytes = new Uint8Array(size)
+  const view = viewOf(bytes)
+  view.setUint32(0, size)
+  bytes.set([0x69, 0x6c, 0x6f, 0x63], 4) // "iloc"
+  bytes[8] = iloc.version
+  bytes[12] = (iloc.offsetSize << 4) | iloc.lengthSize
+  bytes[13] = (iloc.baseOffsetSize << 4) | iloc.indexSize
+  let p = 14
+  writeUint(view, p, idSize, iloc.items.length)
+  p += idSize
+  for (const item of iloc.items) {
+    writeUint(view, p, idSize, item.id)
+    p += idSize
+    if (iloc.version > 0) {
+      view.setUint16(p, item.constructionMethod)
+      p += 2
+    }
+    view.setUint16(p, item.dataReferenceIndex)
+    p += 2
+    writeUint(view, p, iloc.baseOffsetSize, item.baseOffset)
+    p += iloc.baseOffsetSize
+    view.setUint16(p, item.extents.length)
+    p += 2
+    for (const extent of item.extents) {
+      writeUint(view, p, iloc.indexSize, extent.index)
+      p += iloc.indexSize
+      writeUint(view, p, iloc.offsetSize, extent.offset)
+      p += iloc.offsetSize
+      writeUint(view, p, iloc.lengthSize, extent.length)
+      p += iloc.lengthSize
+    }
+  }
+  return bytes
+}
+
+const makeBox = (type: string, ...parts: Uint8Array[]) => {
+  const size = 8 + parts.reduce((total, part) => total + part.length, 0)
+  const bytes = new Uint8Array(size)
+  viewOf(bytes).setUint32(0, size)
+  bytes.set(Array.from(type, (char) => char.charCodeAt(0)), 4)
+  let p = 8
+  for (const part of parts) {
+    bytes.set(part, p)
+    p += part.length
+  }
+  return bytes
+}
+
+const uint = (value: number, size: number) => {
+  const bytes = new Uint8Array(size)
+  if (size === 1) {
+    bytes[0] = value
+  } else {
+    writeUint(viewOf(bytes), 0, size, value)
+  }
+  return bytes
+}
+
+const ascii = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0))
+
+const readPrimaryItem = (bytes: Uint8Array, meta: Box) => {
+  const pitm = child(bytes, meta, "pitm", true)
+  if (!pitm) return 1
+  const view = viewOf(bytes)
+  return bytes[pitm.contentStart] === 0 ? view.getUint16(pitm.contentStart + 4) : view.getUint32(pitm.contentStart + 4)
+}
+
+const readItemTypes = (bytes: Uint8Array, meta: Box) => {
+  const types = new Map<number, string>()
+  const iinf = child(bytes, meta, "iinf", true)
+  if (!iinf) return types
+  const start = iinf.contentStart + 4 + (bytes[iinf.contentStart] === 0 ? 2 : 4)
+  const view = viewOf(bytes)
+  for (const infe of readBoxes(bytes, start, iinf.end)) {
+    if (infe.type !== "infe") continue
+    const version = bytes[infe.contentStart]
+    if (version < 2) continue
+    const idSize = version === 2 ? 2 : 4
+    const id = readUint(view, infe.contentStart + 4, idSize)
+    types.set(id, fourCC(bytes, infe.contentStart + 4 + idSize + 2))
+  }
+  return types
+}
+
+export function readAvifMetadata(bytes: Uint8Array): AvifMetadata {
+  const meta = readBoxes(bytes, 0, bytes.length).find((box) => box.type === "meta")
+  if (!meta) return {}
+
+  const result: AvifMetadata = {}
+  const iprp = child(bytes, meta, "iprp", true)
+  const ipco = iprp && child(bytes, iprp, "ipco")
+  if (ipco) {
+    for (const property of readBoxes(bytes, ipco.contentStart, ipco.end)) {
+      const colourType = property.type === "colr" ? fourCC(bytes, property.contentStart) : ""
+      if (colourType === "prof" || colourType === "rICC") {
+        result.icc = bytes.slice(property.contentStart + 4, property.end)
+      }
+    }
+  }
+
+  const exifId = [...readItemTypes(bytes, meta)].find(([, type]) => type === "Exif")?.[0]
+  const ilocBox = child(bytes, meta, "iloc", true)
+  if (exifId !== undefined && ilocBox) {
+    const item = parseIloc(bytes, ilocBox).items.find((entry) => entry.id === exifId)
+    const extent = item?.extents[0]
+    if (item && extent && item.constructionMethod === 0) {
+      const start = item.baseOffset + extent.offset
+      const payload = bytes.subarray(start, start + extent.length)
+      if (payload.length > 4) {
+        // The payload starts with the offset of the TIFF header inside it.
+        result.exif = payload.slice(4 + viewOf(payload).getUint32(0))
+      }
+    }
+  }
+  return result
+}
+
+/**
+ * Adds an ICC `colr` property to the primary item and/or an Exif item pointing at a new
+ * trailing `mdat`. Existing item offsets behind the `meta` box are shifted by the growth.
+ * Returns null when the file uses a layout we don't know how to rewrite safely.
+ */
+export function embedAvifMetadata(bytes: Uint8Array, { icc, exif }: AvifMetadata): Uint8Array | null {
+  const meta = readBoxes(bytes, 0, bytes.length).find((box) => box.type === "meta")
+  const iprp = meta && child(bytes, meta, "iprp", true)
+  const ipco = iprp && child(bytes, iprp, "ipco")
+  const ipma = iprp && child(bytes, iprp, "ipma")
+  const ilocBox = meta && child(bytes, meta, "iloc", true)
+  const iinf = meta && child(bytes, meta, "iinf", true)
+  if (!meta || !iprp || !ipco || !ipma || !ilocBox || !iinf) return null
+
+  const view = viewOf(bytes)
+  const primary = readPrimaryItem(bytes, meta)
+  const iloc = parseIloc(bytes, ilocBox)
+  if (iloc.offsetSize === 0 && iloc.baseOffsetSize === 0) return null
+
+  const properties = readBoxes(bytes, ipco.contentStart, ipco.end)
+  const hasIcc = properties.some(
+    (property) => property.type === "colr" && ["prof", "rICC"].includes(fourCC(bytes, property.contentStart)),
+  )
+  const addIcc = icc && !hasIcc
+  const itemTypes = readItemTypes(bytes, meta)
+  const addExif = exif && ![...itemTypes.values()].includes("Exif")
+  if (!addIcc && !addExif) return bytes
+
+  // ipco / ipma: one more property, associated with the primary item.
+  let newIpco = bytes.slice(ipco.start, ipco.end)
+  let newIpma = bytes.slice(ipma.start, ipma.end)
+  if (addIcc) {
+    const propertyIndex = properties.length + 1
+    newIpco = makeBox("ipco", bytes.slice(ipco.contentStart, ipco.end), makeBox("colr", ascii("prof"), icc))
+
+    const version = bytes[ipma.contentStart]
+    const wideIndices = (bytes[ipma.contentStart + 3] & 1) === 1
+    if (!wideIndices && propertyIndex > 127) return null
+    const idSize = version < 1 ? 2 : 4
+    const entries: Uint8Array[] = []
+    let p = ipma.contentStart + 4
+    const entryCount = view.getUint32(p)
+    p += 4
+    for (let i = 0; i < entryCount; i++) {
+      const id = readUint(view, p, idSize)
+      const count = bytes[p + idSize]
+      const associationsSize = count * (wideIndices ? 2 : 1)
+      const associations = bytes.slice(p + idSize + 1, p + idSize + 1 + associationsSize)
+      p += idSize + 1 + associationsSize
+      if (id !== primary) {
+        entries.push(bytes.slice(p - idSize - 1 - associationsSize, p))
+        continue
+      }
+      entries.push(uint(id, idSize), uint(count + 1, 1), associations, uint(propertyIndex, wideIndices ? 2 : 1))
+    }
+    newIpma = makeBox("ipma", bytes.slice(ipma.contentStart, ipma.contentStart + 8), ...entries)
+  }
+  const newIprp = makeBox(
+    "iprp",
+    ...readBoxes(bytes, iprp.contentStart, iprp.end).map((box) =>
+      box.type === "ipco" ? newIpco : box.type === "ipma" ? newIpma : bytes.slice(box.start, box.end),
+    ),
+  )
+
+  // iinf / iref / iloc: a new Exif item described by the primary item.
+  const exifId = Math.max(0, ...iloc.items.map((item) => item.id), ...itemTypes.keys()) + 1
+  let newIinf = bytes.slice(iinf.start, iinf.end)
+  let newIref: Uint8Array | null = null
+  const iref = child(bytes, meta, "iref", true)
+  if (addExif) {
+    const wideCount = bytes[iinf.contentStart] !== 0
+    const countSize = wideCount ? 4 : 2
+    const count = readUint(view, iinf.contentStart + 4, countSize)
+    const infe = exifId < 0x10000
+      ? makeBox("infe", uint(0x02000000, 4), uint(exifId, 2), uint(0, 2), ascii("Exif"), uint(0, 1))
+      : makeBox("infe", uint(0x03000000, 4), uint(exifId, 4), uint(0, 2), ascii("Exif"), uint(0, 1))
+    newIinf = makeBox(
+      "iinf",
+      bytes.slice(iinf.contentStart, iinf.contentStart + 4),
+      uint(count + 1, countSize),
+      bytes.slice(iinf.contentStart + 4 + countSize, iinf.end),
+      infe,
+    )
+
+    const wideIds = iref ? bytes[iref.contentStart] !== 0 : exifId >= 0x10000 || primary >= 0x10000
+    const idSize = wideIds ? 4 : 2
+    const cdsc = makeBox("cdsc", uint(exifId, idSize), uint(1, 2), uint(primary, idSize))
+    newIref = iref
+      ? makeBox("iref", bytes.slice(iref.contentStart, iref.end), cdsc)
+      : makeBox("iref", uint(wideIds ? 0x01000000 : 0, 4), cdsc)
+  }
+
+  const exifPayload = addExif ? new Uint8Array([0, 0, 0, 0, ...exif]) : null
+  const metaEnd = meta.end
+  const buildMeta = (delta: number, exifOffset: number) => {
+    const shifted: Iloc = {
+      ...iloc,
+      items: iloc.items.map((item) => {
+        if (item.constructionMethod !== 0 || item.dataReferenceIndex !== 0) return item
+        if (iloc.baseOffsetSize > 0 && item.baseOffset >= metaEnd) {
+          return { ...item, baseOffset: item.baseOffset + delta }
+        }
+        return {
+          ...item,
+          extents: item.extents.map((extent) =>
+            item.baseOffset + extent.offset >= metaEnd ? { ...extent, offset: extent.offset + delta } : extent,
+          ),
+        }
+      }),
+    }
+    if (exifPayload) {
+      shifted.items = [
+        ...shifted.items,
+        {
+          id: exifId,
+          constructionMethod: 0,
+          dataReferenceIndex: 0,
+          baseOffset: 0,
+          extents: [{ index: 0, offset: exifOffset, length: exifPayload.length }],
+        },
+      ]
+    }
+
+    const children = readBoxes(bytes, meta.contentStart + 4, meta.end).map((box) => {
+      switch (box.type) {
+        case "iloc":
+          return serializeIloc(shifted)
+        case "iinf":
+          return newIinf
+        case "iprp":
+          return newIprp
+        case "iref":
+          return newIref ?? bytes.slice(box.start, box.end)
+        default:
+          return bytes.slice(box.start, box.end)
+      }
+    })
+    if (newIref && !iref) children.push(newIref)
+    return makeBox("meta", bytes.slice(meta.contentStart, meta.contentStart + 4), ...children)
+  }
+
+  // Offsets have fixed widths, so the size of the rebuilt `meta` doesn't depend on their values.
+  const delta = buildMeta(0, 0).length - (meta.end - meta.start)
+  const exifOffset = bytes.length + delta + 8
+  if (iloc.offsetSize === 4 && exifOffset > 0xffffffff) return null
+
+  const newMeta = buildMeta(delta, exifOffset)
+  const output = [bytes.subarray(0, meta.start), newMeta, bytes.subarray(meta.end)]
+  if (exifPayload) output.push(makeBox("mdat", exifPayload))
+
+  const result = new Uint8Array(output.reduce((total, part) => total + part.length, 0))
+  let p = 0
+  for (const part of output) {
+    result.set(part, p)
+    p += part.length
+  }
+  return result
+}
@@ -0,0 +1,365 @@
+import type { Messages } from "@/lib/messages/es"
+
+export const en: Messages = {
+  "presets.title": "Presets",
+  "presets.lossless": "lossless",
+  "presets.quality": "quality {quality}%",
+  "presets.selected": { one: "{selected} of {count} selected", other: "{selected} of {count} selected" },
+  "presets.import": "Import",
+  "presets.export": "Export",
+  "presets.empty": "No presets yet. Save an image's settings with “Save as preset”.",
+  "presets.default": "default",
+  "presets.apply": "Apply to {count}",
+  "presets.unsetDefault": "Unset as default",
+  "presets.setDefault": "Use for new images",
+  "presets.remove": "Delete preset",
+  "presets.applied": "Preset applied",
+  "presets.appliedDescription": {
+    one: "“{name}” applied to {count} image",
+    other: "“{name}” applied to {count} images",
+  },
+  "presets.saved": "Preset saved",
+  "presets.savedDescription": "“{name}” is available for every image",
+  "presets.imported": "Presets imported",
+  "presets.importedCount": { one: "{count} preset imported", other: "{count} presets imported" },
+  "presets.importFailed": "Couldn't import the presets",
+  "presets.saveAs": "Save as preset",
+  "presets.name": "Name",
+  "presets.replaces": "The existing preset with this name will be replaced",
+
+  "compare.split": "Split",
+  "compare.flicker": "Flicker",
+  "compare.showing": "Showing: {label}",
+  "compare.original": "Original",
+  "compare.auto": "Automatic",
+  "compare.fit": "Fit",
+  "compare.open": "Compare",
+  "compare.title": "Compare - Image {number}",
+
+  "language.label": "Language",
+
+  "toast.success": "Done!",
+  "toast.error": "Error",
+  "toast.copied": "Copied!",
+  "toast.copyFailed": "Couldn't copy to the clipboard",
+
+  "crop.ratio.square": "Square",
+  "crop.ratio.portrait": "Portrait",
+  "crop.ratio.landscape": "Landscape",
+  "crop.ratio.widescreen": "Widescreen",
+  "crop.ratio.stories": "Stories",
+  "crop.ratio.photo": "Photo",
+  "crop.ratio.tall": "Tall",
+  "crop.applied": "Image cropped",
+  "crop.failed": "Something went wrong while cropping the image",
+  "crop.open": "Crop",
+  "crop.title": "Crop and rotate image",
+  "crop.aspectRatio": "Aspect ratio",
+  "crop.free": "Free",
+  "crop.custom": "Custom",
+  "crop.customWidth": "Width",
+  "crop.customHeight": "Height",
+  "crop.customHint": "Enter a custom ratio (e.g. 21:9 for ultrawide)",
+  "crop.rotateLeft": "Rotate left",
+  "crop.rotateRight": "Rotate right",
+  "crop.flipHorizontal": "Flip horizontally",
+  "crop.flipVertical": "Flip vertically",
+  "crop.grid": "Grid",
+  "crop.reset": "Reset",
+  "crop.zoom": "Zoom: {zoom}%",
+  "crop.straighten": "Straighten: {degrees}°",
+  "crop.apply": "Apply crop",
+
+  "edits.failed": "Couldn't update the image",
+
+  "session.restored": "Session restored",
+  "session.restoredCount": { one: "{count} image recovered", other: "{count} images recovered" },
+  "session.clearConfirm": "Remove every image and delete the saved session?",
+  "session.cleared": "Session deleted",
+  "session.clearedDescription": "The images saved in this browser were deleted",
+  "session.clearFailed": "Couldn't delete the saved session",
+  "session.saved": "Session saved in this browser",
+  "session.savedUsage": "Session saved in this browser: {usage} of {quota}",
+  "session.clear": "Clear session",
+
+  "compress.invalidTarget": "Enter a valid target size in KB",
+  "compress.missingImage": "The image no longer exists",
+  "compress.failed": "Something went wrong while compressing the image",
+  "compress.done": "Image compressed",
+
+  "intake.cannotDisplay": "The browser can't display this image",
+  "intake.empty": "Empty file",
+  "intake.unreadable": "Couldn't be read",
+  "intake.skipped": {
+    one: "{count} file skipped because it isn't an image",
+    other: "{count} files skipped because they aren't images",
+  },
+  "intake.rejected": { one: "{count} rejected: {files}", other: "{count} rejected: {files}" },
+  "intake.added": { one: "{count} image added", other: "{count} images added" },
+  "intake.noneAdded": "No images were added",
+  "intake.dropFailed": "Couldn't read the dropped files",
+
+  "animation.unavailable": "Animation unavailable",
+  "animation.firstFrameOnly": "{name}: only the first frame will be used. {reason}",
+  "animation.loops": "on a loop",
+  "animation.plays": { one: "once", other: "{count} times" },
+  "animation.stillFormat": "{format} only supports still images here, so it is exported as animated WebP",
+  "animation.noTargetSize": "Target size doesn't apply to animations; quality is used instead",
+  "animation.editsApplyToAll": "Width, height and crop apply to every frame",
+  "animation.keep": "Keep the animation",
+  "animation.summary": {
+    one: "{count} frame · {seconds} s · plays {plays}",
+    other: "{count} frames · {seconds} s · plays {plays}",
+  },
+  "animation.exportedFrames": { one: "{count} frame exported", other: "{count} frames exported" },
+  "animation.firstFrame": "Only the first frame is exported",
+  "animation.frames": "Frames",
+  "animation.allFrames": "All",
+  "animation.everyNth": "1 in {step}",
+  "animation.loopCount": "Plays (0 = loop forever)",
+  "animation.originalLoopCount": "Original ({count})",
+  "animation.frame": "Frame {frame}",
+  "animation.stripSample": "Showing {shown} of {count} frames; dimmed ones are dropped.",
+
+  "limits.fileTooLarge": "{size} is over the {limit} MB per-file limit",
+  "limits.tooManyPixels": "{width}×{height} ({megapixels} MP) is over the {limit} MP limit",
+  "limits.oversized":
+    "{width} × {height} ({megapixels} MP) is over the {limit} MP limit, so it is worked on at {workingWidth} × {workingHeight}",
+  "limits.fullDecode":
+    "The browser can't scale this format while decoding it, so every job decodes it at full size before reducing it",
+  "limits.maxMegapixels": "Max. megapixels",
+  "limits.maxFileSize": "Max. file size (MB)",
+  "limits.oversizedPolicy": "Images over the limit",
+  "limits.policy.downscale.label": "Downscale",
+  "limits.policy.downscale.description": "Decoded at a smaller size, never at full resolution",
+  "limits.policy.tile.label": "Tiles",
+  "limits.policy.tile.description": "Worked on downscaled, and exported at full resolution as tiles",
+  "limits.policy.reject.label": "Reject",
+  "limits.policy.reject.description": "Not added",
+
+  "responsive.noWidths": "Enter at least one width or density",
+  "responsive.failed": "Something went wrong while generating the responsive set",
+  "responsive.markupCopied": "HTML copied to the clipboard",
+  "responsive.enable": "Responsive set (srcset / picture)",
+  "responsive.widths": "Widths (px)",
+  "responsive.densities": "Densities",
+  "responsive.sizes": "sizes attribute",
+  "responsive.hint":
+    "Densities are based on the final width ({width} px). Without widths, the set uses 1x/2x/3x descriptors.",
+  "responsive.jpegFallback": "Include a JPEG fallback",
+  "responsive.generate": "Generate set",
+  "responsive.copyMarkup": "Copy HTML",
+  "responsive.download": "Download set (ZIP)",
+
+  "tiles.failed": "Something went wrong while exporting the tiles",
+  "tiles.export": "Export tiles ({count})",
+  "tiles.description": "At full resolution in {format}, without the card's edits or size",
+
+  "batch.nothingToCompress": "Nothing to compress",
+  "batch.allCompressed": "Every image is already compressed",
+  "batch.concurrency": "Images in parallel",
+  "batch.peakMemory": "Approx. peak memory: ~{size}",
+  "batch.compressAll": "Compress all",
+  "batch.pause": "Pause",
+  "batch.resume": "Resume",
+  "batch.cancel": "Cancel",
+  "batch.processed": "{done} / {count} processed",
+  "batch.failedCount": { one: "{count} failed", other: "{count} failed" },
+  "batch.saved": "Saved: {size}",
+  "batch.paused": "Paused",
+  "batch.cancelled": "Cancelled",
+  "batch.done": "Done",
+  "batch.remaining": "Time left: {time}",
+  "batch.estimating": "Estimating...",
+
+  "zip.notCompressed": "Not compressed",
+  "zip.nothingToDownload": "Nothing to download",
+  "zip.compressFirst": "Compress at least one image before downloading the ZIP",
+  "zip.builtWithSkipped": {
+    one: "ZIP with {count} image ({skipped} skipped)",
+    other: "ZIP with {count} images ({skipped} skipped)",
+  },
+  "zip.built": { one: "ZIP with {count} image", other: "ZIP with {count} images" },
+  "zip.failed": "Something went wrong while building the ZIP file",
+  "zip.includeManifest": "Include a manifest in the ZIP",
+  "zip.compressPending": "Compress pending images before downloading",
+  "zip.downloadAll": "Download all (ZIP)",
+
+  "metadata.orientationApplied": "The EXIF orientation is applied to the pixels",
+  "metadata.iccConverted": "Colours are converted from {profile} to sRGB",
+  "metadata.iccNotConvertible": "The {profile} profile can't be converted to sRGB; colours may shift",
+  "metadata.iccNotSupported": "{format} can't keep the ICC profile",
+  "metadata.noAuthor": "The original image has no author or copyright",
+  "metadata.iccProfile": "Colour profile",
+  "metadata.xmpPresent": "Present (always removed)",
+  "metadata.title": "Metadata",
+  "metadata.keepAuthor": "Keep author and copyright",
+  "metadata.keepIcc": "Keep ICC profile",
+  "metadata.stripped": "All other metadata (EXIF, GPS, XMP) is removed.",
+  "metadata.original": "Original metadata ({count})",
+
+  "exif.make": "Make",
+  "exif.model": "Model",
+  "exif.lens": "Lens",
+  "exif.captureDate": "Date taken",
+  "exif.exposure": "Exposure",
+  "exif.aperture": "Aperture",
+  "exif.iso": "ISO",
+  "exif.focalLength": "Focal length",
+  "exif.orientation": "Orientation",
+  "exif.artist": "Author",
+  "exif.copyright": "Copyright",
+  "exif.description": "Description",
+  "exif.software": "Software",
+  "exif.gps": "GPS location",
+  "exif.orientationValue.1": "Normal",
+  "exif.orientationValue.2": "Mirrored horizontally",
+  "exif.orientationValue.3": "Rotated 180°",
+  "exif.orientationValue.4": "Mirrored vertically",
+  "exif.orientationValue.5": "Mirrored and rotated 90° left",
+  "exif.orientationValue.6": "Rotated 90° right",
+  "exif.orientationValue.7": "Mirrored and rotated 90° right",
+  "exif.orientationValue.8": "Rotated 90° left",
+
+  "formatOptions.advanced": "Advanced",
+  "formatOptions.speed": "Final speed: {speed}",
+  "formatOptions.speedHint": "Lower = slower and smaller",
+  "formatOptions.subsample": "Chroma subsampling",
+  "formatOptions.tune": "Tune",
+  "formatOptions.alphaQualitySame": "Alpha quality: same as colour",
+  "formatOptions.alphaQuality": "Alpha quality: {quality}%",
+  "formatOptions.separateAlpha": "Separate alpha quality",
+  "formatOptions.sharpness": "Sharpness: {sharpness}",
+  "formatOptions.bitDepth": "Bit depth",
+  "formatOptions.bits": "{bits}-bit",
+  "formatOptions.lossless": "Lossless",
+  "formatOptions.effort": "Effort: {effort}",
+  "formatOptions.progressiveJpeg": "Progressive JPEG",
+  "formatOptions.optimizationLevel": "Optimization level: {level}",
+  "formatOptions.interlaced": "Interlaced",
+  "formatOptions.progressive": "Progressive",
+
+  "header.logo": "Company logo",
+
+  "upload.prompt": "Drop images or folders here, or click to choose",
+  "upload.formats": "Supports {formats}",
+  "upload.paste": "You can also paste screenshots with Ctrl/Cmd+V",
+  "upload.chooseFolder": "Choose folder",
+
+  "filenames.label": "File name",
+  "filenames.example": "Example:",
+  "filenames.token.name": "Original name without extension",
+  "filenames.token.width": "Output width",
+  "filenames.token.height": "Output height",
+  "filenames.token.quality": "Quality used",
+  "filenames.token.format": "Output format",
+  "filenames.token.hash8": "8 characters of the file hash",
+  "filenames.token.index": "Position in the list",
+
+  "card.select": "Select image {number}",
+  "card.title": "Settings - Image {number}",
+  "card.outputFormat": "Output format",
+  "card.quality": "Quality",
+  "card.losslessQuality": "Lossless {format}: quality doesn't apply",
+  "card.targetSize": "Target size",
+  "card.qualityValue": "Quality: {quality}%",
+  "card.maxSize": "Max. size (KB)",
+  "card.allowDownscale": "Reduce dimensions if it doesn't fit",
+  "card.width": "Width (px)",
+  "card.height": "Height (px)",
+  "card.resample": "Resampling",
+  "card.linearRgb": "Linear RGB",
+  "card.premultiply": "Premultiplied alpha",
+  "card.original": "Original",
+  "card.edits": { one: "{count} edit", other: "{count} edits" },
+  "card.undo": "Undo",
+  "card.redo": "Redo",
+  "card.resetEdits": "Back to the original",
+  "card.originalAlt": "Original {number}",
+  "card.compressed": "Compressed {format}",
+  "card.preview": "Preview",
+  "card.compressedAlt": "Compressed {number}",
+  "card.generatingPreview": "Generating preview...",
+  "card.previewHint": "Adjust the controls to see a preview",
+  "card.dimensions": "Dimensions:",
+  "card.sourceFormat": "Original format:",
+  "card.unknownFormat": "Unknown",
+  "card.originalSize": "Original size:",
+  "card.jobMemory": "Approx. memory per job:",
+  "card.compressedSize": "{format} size:",
+  "card.reduction": "Reduction:",
+  "card.identical": "∞ (identical)",
+  "card.distance": "Perceptual distance:",
+  "card.metrics": "Quality metrics:",
+  "card.chosenQuality": "Chosen quality:",
+  "card.chosenQualityValue": { one: "{quality}% ({count} pass)", other: "{quality}% ({count} passes)" },
+  "card.reducedTo": "Reduced to:",
+  "card.targetMissed": "{size} can't be reached even at the lowest quality",
+  "card.targetMissedDownscaled": "{size} can't be reached even at the lowest quality and reduced dimensions",
+  "card.compressing": "Compressing...",
+  "card.compress": "Compress",
+  "card.download": "Download {format}",
+
+  "dialog.cancel": "Cancel",
+  "dialog.save": "Save",
+
+  "errors.unknownFormat": "Unrecognised image format",
+  "errors.browserOnlyFormat": "{format} files can only be converted in the browser",
+  "errors.tilesNeedBrowser": "Tiles can only be exported in the browser",
+  "errors.tileDecodeFailed": "The browser could not decode the tile",
+  "errors.decodeFailed": "Could not decode the image: {reason}",
+  "errors.browserDecodeFailed": "The browser could not decode the image",
+  "errors.transformFailed": "Could not transform the image: {reason}",
+  "errors.encodeFailed": "Could not encode {format}: {reason}",
+  "errors.invalidTargetSize": "Enter a valid target size in KB",
+  "errors.canvasContext": "Could not get a canvas context",
+  "errors.heifEmpty": "The HEIC file contains no images",
+  "errors.heifDecodeFailed": "Could not decode the HEIC file",
+  "errors.tiffEmpty": "The TIFF file contains no images",
+  "errors.tiffDecodeFailed": "Could not decode the TIFF file",
+  "errors.rawDecodeFailed": "Could not decode the RAW file",
+  "errors.codecDecodeFailed": "Could not decode the {format} image",
+  "errors.metadataEmbedFailed": "Could not embed the metadata in the file",
+  "errors.metricsSizeMismatch": "The images to compare must have the same dimensions",
+  "errors.unsupportedFieldSize": "Unsupported field size: {size}",
+  "errors.notAnimated": "The image is not animated",
+  "errors.animationUnsupported": "This browser cannot decode animations",
+  "errors.animationTrackMissing": "The animation track was not found",
+  "errors.animationEmpty": "The animation has no frames",
+  "errors.poolClosed": "The worker pool was closed",
+  "errors.transactionAborted": "Saving the session was cancelled",
+  "errors.workerCrashed": "The compression worker crashed",
+  "errors.workerUnknown": "Unknown error in the worker",
+  "errors.invalidAvifOptions": "Invalid AVIF options: {problems}",
+  "errors.invalidFormatOptions": "Invalid format options: {problems}",
+  "errors.avifSpeed": "AVIF speed must be between 0 and 10",
+  "errors.avifSubsample": "Chroma subsampling must be 4:2:0 or 4:4:4",
+  "errors.avifQualityAlpha": "Alpha quality must be between 0 and 100",
+  "errors.avifTune": "Tuning must be auto, PSNR or SSIM",
+  "errors.avifSharpness": "Sharpness must be between 0 and 7",
+  "errors.avifLossless": "Lossless must be true or false",
+  "errors.avifBitDepth": "Bit depth must be 8, 10 or 12 bits",
+  "errors.webpLossless": "WebP lossless must be true or false",
+  "errors.webpMethod": "WebP effort must be between 0 and 6",
+  "errors.jpegProgressive": "JPEG progressive must be true or false",
+  "errors.pngLevel": "PNG optimisation level must be between 1 and 6",
+  "errors.pngInterlace": "PNG interlacing must be true or false",
+  "errors.jxlEffort": "JPEG XL effort must be between 1 and 9",
+  "errors.jxlLossless": "JPEG XL lossless must be true or false",
+  "errors.jxlProgressive": "JPEG XL progressive must be true or false",
+  "errors.presetNotObject": "The preset settings are not an object",
+  "errors.presetQuality": "Quality must be a number between 1 and 100",
+  "errors.presetDimension": "{field} must be a number of pixels",
+  "errors.presetFormat": "Unknown format: {format}",
+  "errors.presetFormatOptions": "formatOptions must be an object",
+  "errors.presetResample": "resample must be an object",
+  "errors.presetResampleMethod": "Unknown resampling method: {method}",
+  "errors.presetResampleFlags": "linearRGB and premultiply must be true or false",
+  "errors.presetMetadata": "metadata must be an object",
+  "errors.presetSizeMode": "sizeMode must be quality or target",
+  "errors.presetTargetSize": "targetSize must be a number of KB",
+  "errors.presetFileJson": "The file is not valid JSON",
+  "errors.presetFileList": "The file does not contain a list of presets",
+  "errors.presetUnnamed": "Preset {number} has no name",
+  "errors.presetInvalid": "Preset “{name}”: {reason}",
+}
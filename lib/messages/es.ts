@@ -0,0 +1,370 @@
+type Plural = { one: string; other: string }
+
+/** The Spanish catalog is the reference: its keys are the ones every other locale must translate. */
+export const es = {
+  "presets.title": "Presets",
+  "presets.lossless": "sin pérdida",
+  "presets.quality": "calidad {quality}%",
+  "presets.selected": { one: "{selected} de {count} seleccionada", other: "{selected} de {count} seleccionadas" },
+  "presets.import": "Importar",
+  "presets.export": "Exportar",
+  "presets.empty": "No hay presets. Guarda los ajustes de una imagen con “Guardar como preset”.",
+  "presets.default": "predeterminado",
+  "presets.apply": "Aplicar a {count}",
+  "presets.unsetDefault": "Quitar como predeterminado",
+  "presets.setDefault": "Usar para las imágenes nuevas",
+  "presets.remove": "Eliminar preset",
+  "presets.applied": "Preset aplicado",
+  "presets.appliedDescription": {
+    one: "“{name}” aplicado a {count} imagen",
+    other: "“{name}” aplicado a {count} imágenes",
+  },
+  "presets.saved": "Preset guardado",
+  "presets.savedDescription": "“{name}” está disponible para todas las imágenes",
+  "presets.imported": "Presets importados",
+  "presets.importedCount": { one: "{count} preset importado", other: "{count} presets importados" },
+  "presets.importFailed": "No se pudieron importar los presets",
+  "presets.saveAs": "Guardar como preset",
+  "presets.name": "Nombre",
+  "presets.replaces": "Se reemplazará el preset existente con este nombre",
+
+  "compare.split": "Dividir",
+  "compare.flicker": "Alternar",
+  "compare.showing": "Mostrando: {label}",
+  "compare.original": "Original",
+  "compare.auto": "Automático",
+  "compare.fit": "Ajustar",
+  "compare.open": "Comparar",
+  "compare.title": "Comparar - Imagen {number}",
+
+  "language.label": "Idioma",
+
+  "toast.success": "¡Éxito!",
+  "toast.error": "Error",
+  "toast.copied": "¡Copiado!",
+  "toast.copyFailed": "No se pudo copiar al portapapeles",
+
+  "crop.ratio.square": "Cuadrado",
+  "crop.ratio.portrait": "Vertical",
+  "crop.ratio.landscape": "Horizontal",
+  "crop.ratio.widescreen": "Panorámico",
+  "crop.ratio.stories": "Stories",
+  "crop.ratio.photo": "Fotografía",
+  "crop.ratio.tall": "Retrato",
+  "crop.applied": "Imagen recortada correctamente",
+  "crop.failed": "Hubo un problema al recortar la imagen",
+  "crop.open": "Recortar",
+  "crop.title": "Recortar y girar imagen",
+  "crop.aspectRatio": "Relación de aspecto",
+  "crop.free": "Libre",
+  "crop.custom": "Personalizado",
+  "crop.customWidth": "Ancho",
+  "crop.customHeight": "Alto",
+  "crop.customHint": "Introduce proporciones personalizadas (ej: 21:9 para ultra panorámico)",
+  "crop.rotateLeft": "Girar a la izquierda",
+  "crop.rotateRight": "Girar a la derecha",
+  "crop.flipHorizontal": "Voltear horizontal",
+  "crop.flipVertical": "Voltear vertical",
+  "crop.grid": "Cuadrícula",
+  "crop.reset": "Restablecer",
+  "crop.zoom": "Zoom: {zoom}%",
+  "crop.straighten": "Enderezar: {degrees}°",
+  "crop.apply": "Aplicar recorte",
+
+  "edits.failed": "No se pudo actualizar la imagen",
+
+  "session.restored": "Sesión restaurada",
+  "session.restoredCount": { one: "{count} imagen recuperada", other: "{count} imágenes recuperadas" },
+  "session.clearConfirm": "¿Quitar todas las imágenes y borrar la sesión guardada?",
+  "session.cleared": "Sesión borrada",
+  "session.clearedDescription": "Se eliminaron las imágenes guardadas en este navegador",
+  "session.clearFailed": "No se pudo borrar la sesión guardada",
+  "session.saved": "Sesión guardada en este navegador",
+  "session.savedUsage": "Sesión guardada en este navegador: {usage} de {quota}",
+  "session.clear": "Limpiar sesión",
+
+  "compress.invalidTarget": "Introduce un peso objetivo válido en KB",
+  "compress.missingImage": "La imagen ya no existe",
+  "compress.failed": "Hubo un problema al comprimir la imagen",
+  "compress.done": "Imagen comprimida correctamente",
+
+  "intake.cannotDisplay": "El navegador no puede mostrar esta imagen",
+  "intake.empty": "Archivo vacío",
+  "intake.unreadable": "No se pudo leer",
+  "intake.skipped": {
+    one: "{count} archivo omitido por no ser imagen",
+    other: "{count} archivos omitidos por no ser imagen",
+  },
+  "intake.rejected": { one: "{count} rechazado: {files}", other: "{count} rechazados: {files}" },
+  "intake.added": { one: "{count} imagen añadida", other: "{count} imágenes añadidas" },
+  "intake.noneAdded": "No se añadió ninguna imagen",
+  "intake.dropFailed": "No se pudieron leer los archivos soltados",
+
+  "animation.unavailable": "Animación no disponible",
+  "animation.firstFrameOnly": "{name}: solo se usará el primer fotograma. {reason}",
+  "animation.loops": "en bucle",
+  "animation.plays": { one: "una vez", other: "{count} veces" },
+  "animation.stillFormat": "{format} solo admite imágenes fijas aquí, así que se exporta como WebP animado",
+  "animation.noTargetSize": "El peso objetivo no se aplica a animaciones; se usa la calidad",
+  "animation.editsApplyToAll": "Ancho, alto y recorte se aplican a todos los fotogramas",
+  "animation.keep": "Conservar la animación",
+  "animation.summary": {
+    one: "{count} fotograma · {seconds} s · se reproduce {plays}",
+    other: "{count} fotogramas · {seconds} s · se reproduce {plays}",
+  },
+  "animation.exportedFrames": { one: "se exporta {count} fotograma", other: "se exportan {count} fotogramas" },
+  "animation.firstFrame": "Solo se exporta el primer fotograma",
+  "animation.frames": "Fotogramas",
+  "animation.allFrames": "Todos",
+  "animation.everyNth": "1 de cada {step}",
+  "animation.loopCount": "Reproducciones (0 = en bucle)",
+  "animation.originalLoopCount": "Original ({count})",
+  "animation.frame": "Fotograma {frame}",
+  "animation.stripSample": "Muestra de {shown} de {count} fotogramas; los atenuados se descartan.",
+
+  "limits.fileTooLarge": "{size} supera el límite de {limit} MB por archivo",
+  "limits.tooManyPixels": "{width}×{height} ({megapixels} MP) supera el límite de {limit} MP",
+  "limits.oversized":
+    "{width} × {height} ({megapixels} MP) supera el límite de {limit} MP: se trabaja a {workingWidth} × {workingHeight}",
+  "limits.fullDecode":
+    "El navegador no puede reducir este formato al decodificarlo, así que cada trabajo lo decodifica a tamaño completo antes de reducirlo",
+  "limits.maxMegapixels": "Máx. megapíxeles",
+  "limits.maxFileSize": "Máx. tamaño de archivo (MB)",
+  "limits.oversizedPolicy": "Imágenes por encima del límite",
+  "limits.policy.downscale.label": "Reducir",
+  "limits.policy.downscale.description": "Se decodifica a menor tamaño, sin pasar por la resolución completa",
+  "limits.policy.tile.label": "Mosaicos",
+  "limits.policy.tile.description": "Se trabaja reducida y se exporta a resolución completa por mosaicos",
+  "limits.policy.reject.label": "Rechazar",
+  "limits.policy.reject.description": "No se añade",
+
+  "responsive.noWidths": "Indica al menos un ancho o una densidad",
+  "responsive.failed": "Hubo un problema al generar el set responsive",
+  "responsive.markupCopied": "HTML copiado al portapapeles",
+  "responsive.enable": "Set responsive (srcset / picture)",
+  "responsive.widths": "Anchos (px)",
+  "responsive.densities": "Densidades",
+  "responsive.sizes": "Atributo sizes",
+  "responsive.hint":
+    "Las densidades se calculan sobre el ancho final ({width} px). Sin anchos, el set usa descriptores 1x/2x/3x.",
+  "responsive.jpegFallback": "Incluir respaldo JPEG",
+  "responsive.generate": "Generar set",
+  "responsive.copyMarkup": "Copiar HTML",
+  "responsive.download": "Descargar set (ZIP)",
+
+  "tiles.failed": "Hubo un problema al exportar los mosaicos",
+  "tiles.export": "Exportar mosaicos ({count})",
+  "tiles.description": "A resolución completa en {format}, sin las ediciones ni el tamaño de la tarjeta",
+
+  "batch.nothingToCompress": "Nada que comprimir",
+  "batch.allCompressed": "Todas las imágenes ya están comprimidas",
+  "batch.concurrency": "Imágenes en paralelo",
+  "batch.peakMemory": "Memoria aprox. en pico: ~{size}",
+  "batch.compressAll": "Comprimir todo",
+  "batch.pause": "Pausar",
+  "batch.resume": "Reanudar",
+  "batch.cancel": "Cancelar",
+  "batch.processed": { one: "{done} / {count} procesada", other: "{done} / {count} procesadas" },
+  "batch.failedCount": { one: "{count} con error", other: "{count} con error" },
+  "batch.saved": "Ahorrado: {size}",
+  "batch.paused": "En pausa",
+  "batch.cancelled": "Cancelado",
+  "batch.done": "Completado",
+  "batch.remaining": "Tiempo restante: {time}",
+  "batch.estimating": "Calculando...",
+
+  "zip.notCompressed": "Sin comprimir",
+  "zip.nothingToDownload": "Nada que descargar",
+  "zip.compressFirst": "Comprime al menos una imagen antes de descargar el ZIP",
+  "zip.builtWithSkipped": {
+    one: "ZIP con {count} imagen ({skipped} omitidas)",
+    other: "ZIP con {count} imágenes ({skipped} omitidas)",
+  },
+  "zip.built": { one: "ZIP con {count} imagen", other: "ZIP con {count} imágenes" },
+  "zip.failed": "Hubo un problema al crear el archivo ZIP",
+  "zip.includeManifest": "Incluir manifiesto en el ZIP",
+  "zip.compressPending": "Comprimir las pendientes antes de descargar",
+  "zip.downloadAll": "Descargar todo (ZIP)",
+
+  "metadata.orientationApplied": "La orientación EXIF se aplica a los píxeles",
+  "metadata.iccConverted": "Los colores se convierten de {profile} a sRGB",
+  "metadata.iccNotConvertible": "El perfil {profile} no se puede convertir a sRGB; los colores pueden variar",
+  "metadata.iccNotSupported": "{format} no admite conservar el perfil ICC",
+  "metadata.noAuthor": "La imagen original no tiene autor ni copyright",
+  "metadata.iccProfile": "Perfil de color",
+  "metadata.xmpPresent": "Presente (se elimina siempre)",
+  "metadata.title": "Metadatos",
+  "metadata.keepAuthor": "Conservar autor y copyright",
+  "metadata.keepIcc": "Conservar perfil ICC",
+  "metadata.stripped": "El resto de metadatos (EXIF, GPS, XMP) se elimina.",
+  "metadata.original": "Metadatos originales ({count})",
+
+  "exif.make": "Fabricante",
+  "exif.model": "Modelo",
+  "exif.lens": "Objetivo",
+  "exif.captureDate": "Fecha de captura",
+  "exif.exposure": "Exposición",
+  "exif.aperture": "Apertura",
+  "exif.iso": "ISO",
+  "exif.focalLength": "Distancia focal",
+  "exif.orientation": "Orientación",
+  "exif.artist": "Autor",
+  "exif.copyright": "Copyright",
+  "exif.description": "Descripción",
+  "exif.software": "Software",
+  "exif.gps": "Ubicación GPS",
+  "exif.orientationValue.1": "Normal",
+  "exif.orientationValue.2": "Espejo horizontal",
+  "exif.orientationValue.3": "Girada 180°",
+  "exif.orientationValue.4": "Espejo vertical",
+  "exif.orientationValue.5": "Espejo y girada 90° a la izquierda",
+  "exif.orientationValue.6": "Girada 90° a la derecha",
+  "exif.orientationValue.7": "Espejo y girada 90° a la derecha",
+  "exif.orientationValue.8": "Girada 90° a la izquierda",
+
+  "formatOptions.advanced": "Avanzado",
+  "formatOptions.speed": "Velocidad final: {speed}",
+  "formatOptions.speedHint": "Más baja = más lenta y más pequeña",
+  "formatOptions.subsample": "Submuestreo de croma",
+  "formatOptions.tune": "Ajuste (tune)",
+  "formatOptions.alphaQualitySame": "Calidad alfa: igual que color",
+  "formatOptions.alphaQuality": "Calidad alfa: {quality}%",
+  "formatOptions.separateAlpha": "Calidad alfa independiente",
+  "formatOptions.sharpness": "Nitidez: {sharpness}",
+  "formatOptions.bitDepth": "Profundidad de color",
+  "formatOptions.bits": "{bits} bits",
+  "formatOptions.lossless": "Sin pérdida",
+  "formatOptions.effort": "Esfuerzo: {effort}",
+  "formatOptions.progressiveJpeg": "JPEG progresivo",
+  "formatOptions.optimizationLevel": "Nivel de optimización: {level}",
+  "formatOptions.interlaced": "Entrelazado",
+  "formatOptions.progressive": "Progresivo",
+
+  "header.logo": "Logo de la empresa",
+
+  "upload.prompt": "Arrastra imágenes o carpetas aquí o haz clic para seleccionar",
+  "upload.formats": "Soporta {formats}",
+  "upload.paste": "También puedes pegar capturas con Ctrl/Cmd+V",
+  "upload.chooseFolder": "Elegir carpeta",
+
+  "filenames.label": "Nombre de archivo",
+  "filenames.example": "Ejemplo:",
+  "filenames.token.name": "Nombre original sin extensión",
+  "filenames.token.width": "Ancho de salida",
+  "filenames.token.height": "Alto de salida",
+  "filenames.token.quality": "Calidad usada",
+  "filenames.token.format": "Formato de salida",
+  "filenames.token.hash8": "8 caracteres del hash del archivo",
+  "filenames.token.index": "Posición en la lista",
+
+  "card.select": "Seleccionar imagen {number}",
+  "card.title": "Configuración - Imagen {number}",
+  "card.outputFormat": "Formato de salida",
+  "card.quality": "Calidad",
+  "card.losslessQuality": "{format} sin pérdida: la calidad no aplica",
+  "card.targetSize": "Peso objetivo",
+  "card.qualityValue": "Calidad: {quality}%",
+  "card.maxSize": "Peso máximo (KB)",
+  "card.allowDownscale": "Reducir dimensiones si no cabe",
+  "card.width": "Ancho (px)",
+  "card.height": "Alto (px)",
+  "card.resample": "Remuestreo",
+  "card.linearRgb": "RGB lineal",
+  "card.premultiply": "Alfa premultiplicado",
+  "card.original": "Original",
+  "card.edits": { one: "{count} edición", other: "{count} ediciones" },
+  "card.undo": "Deshacer",
+  "card.redo": "Rehacer",
+  "card.resetEdits": "Volver al original",
+  "card.originalAlt": "Original {number}",
+  "card.compressed": "Comprimido {format}",
+  "card.preview": "Vista previa",
+  "card.compressedAlt": "Comprimida {number}",
+  "card.generatingPreview": "Generando preview...",
+  "card.previewHint": "Ajusta los controles para ver el preview",
+  "card.dimensions": "Dimensiones:",
+  "card.sourceFormat": "Formato original:",
+  "card.unknownFormat": "Desconocido",
+  "card.originalSize": "Peso original:",
+  "card.jobMemory": "Memoria aprox. por trabajo:",
+  "card.compressedSize": "Peso {format}:",
+  "card.reduction": "Reducción:",
+  "card.identical": "∞ (idéntica)",
+  "card.distance": "Distancia perceptual:",
+  "card.metrics": "Métricas de calidad:",
+  "card.chosenQuality": "Calidad elegida:",
+  "card.chosenQualityValue": { one: "{quality}% ({count} pasada)", other: "{quality}% ({count} pasadas)" },
+  "card.reducedTo": "Reducida a:",
+  "card.targetMissed": "No se alcanza {size} ni con la calidad mínima",
+  "card.targetMissedDownscaled": "No se alcanza {size} ni con la calidad mínima y reduciendo dimensiones",
+  "card.compressing": "Comprimiendo...",
+  "card.compress": "Comprimir",
+  "card.download": "Descargar {format}",
+
+  "dialog.cancel": "Cancelar",
+  "dialog.save": "Guardar",
+
+  "errors.unknownFormat": "Formato de imagen no reconocido",
+  "errors.browserOnlyFormat": "Los archivos {format} solo se pueden convertir en el navegador",
+  "errors.tilesNeedBrowser": "Los mosaicos necesitan el navegador",
+  "errors.tileDecodeFailed": "El navegador no pudo decodificar el mosaico",
+  "errors.decodeFailed": "No se pudo decodificar la imagen: {reason}",
+  "errors.browserDecodeFailed": "El navegador no pudo decodificar la imagen",
+  "errors.transformFailed": "No se pudo transformar la imagen: {reason}",
+  "errors.encodeFailed": "No se pudo codificar {format}: {reason}",
+  "errors.invalidTargetSize": "Introduce un peso objetivo válido en KB",
+  "errors.canvasContext": "No se pudo obtener el contexto del canvas",
+  "errors.heifEmpty": "El archivo HEIC no contiene imágenes",
+  "errors.heifDecodeFailed": "No se pudo decodificar el HEIC",
+  "errors.tiffEmpty": "El archivo TIFF no contiene imágenes",
+  "errors.tiffDecodeFailed": "No se pudo decodificar el TIFF",
+  "errors.rawDecodeFailed": "No se pudo decodificar el archivo RAW",
+  "errors.codecDecodeFailed": "No se pudo decodificar la imagen {format}",
+  "errors.metadataEmbedFailed": "No se pudieron incrustar los metadatos en el archivo",
+  "errors.metricsSizeMismatch": "Las imágenes a comparar deben tener las mismas dimensiones",
+  "errors.unsupportedFieldSize": "Tamaño de campo no soportado: {size}",
+  "errors.notAnimated": "La imagen no está animada",
+  "errors.animationUnsupported": "Este navegador no puede decodificar animaciones",
+  "errors.animationTrackMissing": "No se encontró la pista de animación",
+  "errors.animationEmpty": "La animación no tiene fotogramas",
+  "errors.poolClosed": "El pool de workers se ha cerrado",
+  "errors.transactionAborted": "Se canceló el guardado de la sesión",
+  "errors.workerCrashed": "El worker de compresión falló",
+  "errors.workerUnknown": "Error desconocido en el worker",
+  "errors.invalidAvifOptions": "Opciones AVIF no válidas: {problems}",
+  "errors.invalidFormatOptions": "Opciones de formato no válidas: {problems}",
+  "errors.avifSpeed": "La velocidad AVIF debe estar entre 0 y 10",
+  "errors.avifSubsample": "El submuestreo debe ser 4:2:0 o 4:4:4",
+  "errors.avifQualityAlpha": "La calidad alfa debe estar entre 0 y 100",
+  "errors.avifTune": "El ajuste debe ser auto, PSNR o SSIM",
+  "errors.avifSharpness": "La nitidez debe estar entre 0 y 7",
+  "errors.avifLossless": "El modo sin pérdida debe ser verdadero o falso",
+  "errors.avifBitDepth": "La profundidad de color debe ser 8, 10 o 12 bits",
+  "errors.webpLossless": "El modo sin pérdida WebP debe ser verdadero o falso",
+  "errors.webpMethod": "El esfuerzo WebP debe estar entre 0 y 6",
+  "errors.jpegProgressive": "El modo progresivo JPEG debe ser verdadero o falso",
+  "errors.pngLevel": "El nivel de optimización PNG debe estar entre 1 y 6",
+  "errors.pngInterlace": "El entrelazado PNG debe ser verdadero o falso",
+  "errors.jxlEffort": "El esfuerzo JPEG XL debe estar entre 1 y 9",
+  "errors.jxlLossless": "El modo sin pérdida JPEG XL debe ser verdadero o falso",
+  "errors.jxlProgressive": "El modo progresivo JPEG XL debe ser verdadero o falso",
+  "errors.presetNotObject": "Los ajustes del preset no son un objeto",
+  "errors.presetQuality": "La calidad debe ser un número entre 1 y 100",
+  "errors.presetDimension": "El campo {field} debe ser un número de píxeles",
+  "errors.presetFormat": "Formato desconocido: {format}",
+  "errors.presetFormatOptions": "formatOptions debe ser un objeto",
+  "errors.presetResample": "resample debe ser un objeto",
+  "errors.presetResampleMethod": "Método de remuestreo desconocido: {method}",
+  "errors.presetResampleFlags": "linearRGB y premultiply deben ser verdadero o falso",
+  "errors.presetMetadata": "metadata debe ser un objeto",
+  "errors.presetSizeMode": "sizeMode debe ser quality o target",
+  "errors.presetTargetSize": "targetSize debe ser un número de KB",
+  "errors.presetFileJson": "El archivo no es un JSON válido",
+  "errors.presetFileList": "El archivo no contiene una lista de presets",
+  "errors.presetUnnamed": "El preset {number} no tiene nombre",
+  "errors.presetInvalid": "Preset “{name}”: {reason}",
+} satisfies Record<string, string | Plural>
+
+export type MessageKey = keyof typeof es
+
+export type Messages = Record<MessageKey, string | Plural>
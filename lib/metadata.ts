@@ -0,0 +1,392 @@
+import { unzlibSync, zlibSync } from "fflate"
+import { readExif, readTiffTagBytes, writeAuthorExif, type ExifData } from "@/lib/exif"
+import { LocalizedError } from "@/lib/i18n"
+import { readIccProfile, type IccProfile } from "@/lib/icc"
+import { embedAvifMetadata, readAvifMetadata } from "@/lib/isobmff"
+import type { OutputFormat } from "@/lib/output-formats"
+import { detectSourceFormat } from "@/lib/source-formats"
+
+export interface ImageMetadata {
+  exif: ExifData | null
+  icc: IccProfile | null
+  xmp: boolean
+}
+
+export interface MetadataSettings {
+  keepAuthor: boolean
+  keepIcc: boolean
+}
+
+export interface MetadataPlan {
+  convertToSrgb: boolean
+  exif?: Uint8Array
+  icc?: Uint8Array
+}
+
+interface RawMetadata {
+  exif?: Uint8Array
+  icc?: Uint8Array
+  xmp?: boolean
+}
+
+export const DEFAULT_METADATA_SETTINGS: MetadataSettings = { keepAuthor: false, keepIcc: false }
+
+/** Output formats we can attach an ICC profile to. JPEG XL carries it inside the codestream. */
+export const ICC_EMBED_FORMATS: OutputFormat[] = ["avif", "webp", "jpeg", "png"]
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0, 0] // "Exif\0\0"
+const ICC_HEADER = "ICC_PROFILE\0"
+const XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0"
+const JPEG_MAX_SEGMENT = 65533
+const JPEG_ICC_CHUNK = JPEG_MAX_SEGMENT - ICC_HEADER.length - 2
+
+const ascii = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0))
+const asciiAt = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length))
+const startsWith = (bytes: Uint8Array, prefix: ArrayLike<number>, offset = 0) =>
+  Array.prototype.every.call(prefix, (byte: number, i: number) => bytes[offset + i] === byte)
+
+const concat = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let p = 0
+  for (const part of parts) {
+    result.set(part, p)
+    p += part.length
+  }
+  return result
+}
+
+const stripExifHeader = (data: Uint8Array) => (startsWith(data, EXIF_HEADER) ? data.subarray(6) : data)
+
+// JPEG
+
+interface JpegSegment {
+  marker: number
+  start: number
+  dataStart: number
+  end: number
+}
+
+const readJpegSegments = (bytes: Uint8Array) => {
+  const segments: JpegSegment[] = []
+  let p = 2
+  while (p + 4 <= bytes.length && bytes[p] === 0xff) {
+    const marker = bytes[p + 1]
+    if (marker === 0xd9 || marker === 0xda) break
+    const end = p + 2 + ((bytes[p + 2] << 8) | bytes[p + 3])
+    segments.push({ marker, start: p, dataStart: p + 4, end })
+    p = end
+  }
+  return segments
+}
+
+const readJpegMetadata = (bytes: Uint8Array): RawMetadata => {
+  const result: RawMetadata = {}
+  const iccChunks: { sequence: number; data: Uint8Array }[] = []
+
+  for (const { marker, dataStart, end } of readJpegSegments(bytes)) {
+    const data = bytes.subarray(dataStart, end)
+    if (marker === 0xe1 && startsWith(data, EXIF_HEADER)) {
+      result.exif ??= data.subarray(6)
+    } else if (marker === 0xe1 && startsWith(data, ascii(XMP_HEADER))) {
+      result.xmp = true
+    } else if (marker === 0xe2 && startsWith(data, ascii(ICC_HEADER))) {
+      iccChunks.push({ sequence: data[ICC_HEADER.length], data: data.subarray(ICC_HEADER.length + 2) })
+    }
+  }
+
+  if (iccChunks.length > 0) {
+    result.icc = concat(iccChunks.sort((a, b) => a.sequence - b.sequence).map((chunk) => chunk.data))
+  }
+  return result
+}
+
+const jpegSegment = (marker: number, ...parts: Uint8Array[]) => {
+  const data = concat(parts)
+  return concat([new Uint8Array([0xff, marker, (data.length + 2) >> 8, (data.length + 2) & 0xff]), data])
+}
+
+const embedJpeg = (bytes: Uint8Array, { exif, icc }: RawMetadata) => {
+  const inserted: Uint8Array[] = []
+  if (exif && exif.length + 6 <= JPEG_MAX_SEGMENT) {
+    inserted.push(jpegSegment(0xe1, new Uint8Array(EXIF_HEADER), exif))
+  }
+  if (icc) {
+    const count = Math.ceil(icc.length / JPEG_ICC_CHUNK)
+    for (let i = 0; i < count; i++) {
+      const chunk = icc.subarray(i * JPEG_ICC_CHUNK, (i + 1) * JPEG_ICC_CHUNK)
+      inserted.push(jpegSegment(0xe2, ascii(ICC_HEADER), new Uint8Array([i + 1, count]), chunk))
+    }
+  }
+
+  // JFIF wants its APP0 right after SOI, so the new segments follow it.
+  const first = readJpegSegments(bytes)[0]
+  const insertAt = first?.marker === 0xe0 ? first.end : 2
+  return concat([bytes.subarray(0, insertAt), ...inserted, bytes.subarray(insertAt)])
+}
+
+// PNG
+
+const CRC_TABLE = Uint32Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+interface PngChunk {
+  type: string
+  start: number
+  dataStart: number
+  end: number
+}
+
+const readPngChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const chunks: PngChunk[] = []
+  let p = 8
+  while (p + 12 <= bytes.length) {
+    const length = view.getUint32(p)
+    chunks.push({ type: asciiAt(bytes, p + 4, 4), start: p, dataStart: p + 8, end: p + 12 + length })
+    p += 12 + length
+  }
+  return chunks
+}
+
+const readPngMetadata = (bytes: Uint8Array): RawMetadata => {
+  const result: RawMetadata = {}
+  for (const chunk of readPngChunks(bytes)) {
+    const data = bytes.subarray(chunk.dataStart, chunk.end - 4)
+    if (chunk.type === "eXIf") {
+      result.exif = stripExifHeader(data)
+    } else if (chunk.type === "iCCP") {
+      const nameEnd = data.indexOf(0)
+      try {
+        result.icc = unzlibSync(data.subarray(nameEnd + 2))
+      } catch {
+        // A corrupt profile is treated as no profile.
+      }
+    } else if (chunk.type === "iTXt" && startsWith(data, ascii("XML:com.adobe.xmp\0"))) {
+      result.xmp = true
+    }
+  }
+  return result
+}
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const body = concat([ascii(type), data])
+  const chunk = new Uint8Array(body.length + 8)
+  const view = new DataView(chunk.buffer)
+  view.setUint32(0, data.length)
+  chunk.set(body, 4)
+  view.setUint32(body.length + 4, crc32(body))
+  return chunk
+}
+
+const embedPng = (bytes: Uint8Array, { exif, icc }: RawMetadata) => {
+  const inserted: Uint8Array[] = []
+  if (icc) inserted.push(pngChunk("iCCP", concat([ascii("ICC profile\0\0"), zlibSync(icc)])))
+  if (exif) inserted.push(pngChunk("eXIf", exif))
+
+  // An embedded profile overrides the colour chunks, and PNG forbids having sRGB alongside iCCP.
+  const replaced = icc ? ["sRGB", "iCCP", "gAMA", "cHRM"] : []
+  const parts = [bytes.subarray(0, 8)]
+  for (const chunk of readPngChunks(bytes)) {
+    if (replaced.includes(chunk.type) || (exif && chunk.type === "eXIf")) continue
+    parts.push(bytes.subarray(chunk.start, chunk.end))
+    if (chunk.type === "IHDR") parts.push(...inserted)
+  }
+  return concat(parts)
+}
+
+// WebP
+
+interface RiffChunk {
+  type: string
+  data: Uint8Array
+}
+
+const readRiffChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const chunks: RiffChunk[] = []
+  let p = 12
+  while (p + 8 <= bytes.length) {
+    const size = view.getUint32(p + 4, true)
+    chunks.push({ type: asciiAt(bytes, p, 4), data: bytes.subarray(p + 8, p + 8 + size) })
+    p += 8 + size + (size & 1)
+  }
+  return chunks
+}
+
+const readWebpMetadata = (bytes: Uint8Array): RawMetadata => {
+  const result: RawMetadata = {}
+  for (const chunk of readRiffChunks(bytes)) {
+    if (chunk.type === "EXIF") result.exif = stripExifHeader(chunk.data)
+    if (chunk.type === "ICCP") result.icc = chunk.data
+    if (chunk.type === "XMP ") result.xmp = true
+  }
+  return result
+}
+
+const riffChunk = ({ type, data }: RiffChunk) => {
+  const chunk = new Uint8Array(8 + data.length + (data.length & 1))
+  chunk.set(ascii(type))
+  new DataView(chunk.buffer).setUint32(4, data.length, true)
+  chunk.set(data, 8)
+  return chunk
+}
+
+const embedWebp = (bytes: Uint8Array, { exif, icc }: RawMetadata, width: number, height: number) => {
+  const chunks = readRiffChunks(bytes).filter(
+    (chunk) => !(icc && chunk.type === "ICCP") && !(exif && chunk.type === "EXIF"),
+  )
+
+  let vp8x = chunks.find((chunk) => chunk.type === "VP8X")?.data.slice()
+  if (!vp8x) {
+    vp8x = new Uint8Array(10)
+    const view = new DataView(vp8x.buffer)
+    view.setUint16(4, (width - 1) & 0xffff, true)
+    vp8x[6] = (width - 1) >> 16
+    view.setUint16(7, (height - 1) & 0xffff, true)
+    vp8x[9] = (height - 1) >> 16
+    const lossless = chunks.find((chunk) => chunk.type === "VP8L")
+    // The VP8L header carries an "alpha is used" bit right after the two 14-bit dimensions.
+    if (lossless && lossless.data[4] & 0x10) vp8x[0] |= 0x10
+  }
+  if (icc) vp8x[0] |= 0x20
+  if (exif) vp8x[0] |= 0x08
+
+  const image = chunks.filter((chunk) => chunk.type !== "VP8X")
+  const ordered: RiffChunk[] = [
+    { type: "VP8X", data: vp8x },
+    ...(icc ? [{ type: "ICCP", data: icc }] : []),
+    ...image.filter((chunk) => chunk.type !== "XMP "),
+    ...(exif ? [{ type: "EXIF", data: exif }] : []),
+    ...image.filter((chunk) => chunk.type === "XMP "),
+  ]
+
+  const body = concat([ascii("WEBP"), ...ordered.map(riffChunk)])
+  const header = new Uint8Array(8)
+  header.set(ascii("RIFF"))
+  new DataView(header.buffer).setUint32(4, body.length, true)
+  return concat([header, body])
+}
+
+// JPEG XL
+
+const jxlBox = (type: string, ...parts: Uint8Array[]) => {
+  const data = concat(parts)
+  const header = new Uint8Array(8)
+  new DataView(header.buffer).setUint32(0, data.length + 8)
+  header.set(ascii(type), 4)
+  return concat([header, data])
+}
+
+const embedJxl = (bytes: Uint8Array, { exif }: RawMetadata) => {
+  if (!exif) return bytes
+  const exifBox = jxlBox("Exif", new Uint8Array(4), exif)
+
+  // A bare codestream has to be wrapped in the box container before it can carry metadata.
+  if (bytes[0] === 0xff && bytes[1] === 0x0a) {
+    return concat([
+      jxlBox("JXL ", new Uint8Array([0x0d, 0x0a, 0x87, 0x0a])),
+      jxlBox("ftyp", ascii("jxl "), new Uint8Array(4), ascii("jxl ")),
+      exifBox,
+      jxlBox("jxlc", bytes),
+    ])
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const ftypEnd = 12 + view.getUint32(12)
+  return concat([bytes.subarray(0, ftypEnd), exifBox, bytes.subarray(ftypEnd)])
+}
+
+export function readImageMetadata(buffer: ArrayBuffer): ImageMetadata {
+  const bytes = new Uint8Array(buffer)
+  let raw: RawMetadata = {}
+  try {
+    switch (detectSourceFormat(buffer)) {
+      case "jpeg":
+        raw = readJpegMetadata(bytes)
+        break
+      case "png":
+        raw = readPngMetadata(bytes)
+        break
+      case "webp":
+        raw = readWebpMetadata(bytes)
+        break
+      case "avif":
+      case "heic":
+        raw = readAvifMetadata(bytes)
+        break
+      case "tiff":
+        raw = { exif: bytes, icc: readTiffTagBytes(bytes, 0x8773) ?? undefined }
+        break
+      // LibRaw hands back sRGB, so only the camera's EXIF is worth reading.
+      case "dng":
+      case "raw":
+        raw = { exif: bytes }
+        break
+    }
+  } catch (error) {
+    console.error("Error reading metadata:", error)
+  }
+
+  return {
+    exif: raw.exif ? readExif(raw.exif) : null,
+    icc: raw.icc ? readIccProfile(raw.icc) : null,
+    xmp: raw.xmp ?? false,
+  }
+}
+
+/**
+ * Decides how the source's colour profile is handled and which metadata travels to the
+ * output. A profile is only kept when the output format can carry it; otherwise wide-gamut
+ * pixels are converted to sRGB so colours don't shift once the profile is gone.
+ */
+export function planMetadata(source: ImageMetadata, settings: MetadataSettings, format?: OutputFormat): MetadataPlan {
+  const keepIcc = settings.keepIcc && source.icc !== null && format !== undefined && ICC_EMBED_FORMATS.includes(format)
+  const exif = settings.keepAuthor && source.exif ? writeAuthorExif(source.exif) : null
+
+  return {
+    convertToSrgb: !keepIcc && source.icc !== null && source.icc.convertible && !source.icc.srgb,
+    icc: keepIcc ? source.icc!.data : undefined,
+    exif: exif ?? undefined,
+  }
+}
+
+export function embedMetadata(
+  buffer: ArrayBuffer,
+  format: OutputFormat,
+  { exif, icc }: Pick<MetadataPlan, "exif" | "icc">,
+  width: number,
+  height: number,
+): ArrayBuffer {
+  if (!exif && !icc) return buffer
+
+  const bytes = new Uint8Array(buffer)
+  let output: Uint8Array | null
+  switch (format) {
+    case "jpeg":
+      output = embedJpeg(bytes, { exif, icc })
+      break
+    case "png":
+      output = embedPng(bytes, { exif, icc })
+      break
+    case "webp":
+      output = embedWebp(bytes, { exif, icc }, width, height)
+      break
+    case "avif":
+      output = embedAvifMetadata(bytes, { exif, icc })
+      break
+    case "jxl":
+      output = embedJxl(bytes, { exif })
+      break
+  }
+  if (!output) throw new LocalizedError({ key: "errors.metadataEmbedFailed" })
+  return output.buffer.slice(output.byteOffset, output.byteOffset + output.byteLength) as ArrayBuffer
+}
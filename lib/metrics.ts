@@ -0,0 +1,140 @@
+import { LocalizedError } from "@/lib/i18n"
+
+export interface QualityMetrics {
+  ssim: number
+  psnr: number
+  distance: number
+}
+
+interface Pixels {
+  data: ArrayLike<number>
+  width: number
+  height: number
+}
+
+const SSIM_WINDOW = 8
+const SSIM_STRIDE = 4
+const SSIM_C1 = (0.01 * 255) ** 2
+const SSIM_C2 = (0.03 * 255) ** 2
+
+// ΔE76 around 2.3 is the usual "just noticeable difference", which maps to distance 1.0.
+const JND_DELTA_E = 2.3
+const DISTANCE_NORM = 3
+
+const assertSameSize = (a: Pixels, b: Pixels) => {
+  if (a.width !== b.width || a.height !== b.height) {
+    throw new LocalizedError({ key: "errors.metricsSizeMismatch" })
+  }
+}
+
+const toLuma = ({ data, width, height }: Pixels) => {
+  const luma = new Float32Array(width * height)
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+  }
+  return luma
+}
+
+export function computePsnr(a: Pixels, b: Pixels): number {
+  assertSameSize(a, b)
+  let squaredError = 0
+  let samples = 0
+  for (let i = 0; i < a.data.length; i += 4) {
+    for (let channel = 0; channel < 3; channel++) {
+      const diff = a.data[i + channel] - b.data[i + channel]
+      squaredError += diff * diff
+    }
+    samples += 3
+  }
+  const mse = squaredError / samples
+  return mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse)
+}
+
+/** Mean SSIM over the luma channel, using 8×8 windows with a stride of 4. */
+export function computeSsim(a: Pixels, b: Pixels): number {
+  assertSameSize(a, b)
+  const { width, height } = a
+  const lumaA = toLuma(a)
+  const lumaB = toLuma(b)
+  const windowSize = Math.min(SSIM_WINDOW, width, height)
+  const count = windowSize * windowSize
+
+  let total = 0
+  let windows = 0
+  for (let y = 0; y + windowSize <= height; y += SSIM_STRIDE) {
+    for (let x = 0; x + windowSize <= width; x += SSIM_STRIDE) {
+      let sumA = 0
+      let sumB = 0
+      let sumAA = 0
+      let sumBB = 0
+      let sumAB = 0
+      for (let wy = 0; wy < windowSize; wy++) {
+        const row = (y + wy) * width + x
+        for (let wx = 0; wx < windowSize; wx++) {
+          const va = lumaA[row + wx]
+          const vb = lumaB[row + wx]
+          sumA += va
+          sumB += vb
+          sumAA += va * va
+          sumBB += vb * vb
+          sumAB += va * vb
+        }
+      }
+      const meanA = sumA / count
+      const meanB = sumB / count
+      const varA = sumAA / count - meanA * meanA
+      const varB = sumBB / count - meanB * meanB
+      const covariance = sumAB / count - meanA * meanB
+
+      total +=
+        ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((meanA * meanA + meanB * meanB + SSIM_C1) * (varA + varB + SSIM_C2))
+      windows++
+    }
+  }
+  return windows === 0 ? 1 : total / windows
+}
+
+const SRGB_TO_LINEAR = Float32Array.from({ length: 256 }, (_, value) => {
+  const v = value / 255
+  return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4
+})
+
+const labF = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116)
+
+const toLab = (r: number, g: number, b: number): [number, number, number] => {
+  const lr = SRGB_TO_LINEAR[r]
+  const lg = SRGB_TO_LINEAR[g]
+  const lb = SRGB_TO_LINEAR[b]
+  const x = labF((0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047)
+  const y = labF(0.2126 * lr + 0.7152 * lg + 0.0722 * lb)
+  const z = labF((0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883)
+  return [116 * y - 16, 500 * (x - y), 200 * (y - z)]
+}
+
+/**
+ * A butteraugli-style distance: not the real butteraugli model, but the same idea and
+ * scale. Per-pixel CIELAB differences are normalised to the just-noticeable threshold
+ * and pooled with a 3-norm, so a few strong artifacts weigh more than diffuse noise.
+ * Around 1.0 is visually lossless; values above 3 usually show visible artifacts.
+ */
+export function computePerceptualDistance(a: Pixels, b: Pixels): number {
+  assertSameSize(a, b)
+  let pooled = 0
+  const pixels = a.width * a.height
+  for (let i = 0; i < a.data.length; i += 4) {
+    const [l1, a1, b1] = toLab(a.data[i], a.data[i + 1], a.data[i + 2])
+    const [l2, a2, b2] = toLab(b.data[i], b.data[i + 1], b.data[i + 2])
+    const deltaE = Math.hypot(l1 - l2, a1 - a2, b1 - b2) / JND_DELTA_E
+    pooled += deltaE ** DISTANCE_NORM
+  }
+  return pixels === 0 ? 0 : (pooled / pixels) ** (1 / DISTANCE_NORM)
+}
+
+export function computeQualityMetrics(reference: Pixels, candidate: Pixels): QualityMetrics {
+  return {
+    ssim: computeSsim(reference, candidate),
+    psnr: computePsnr(reference, candidate),
+    distance: computePerceptualDistance(reference, candidate),
+  }
+}
@@ -0,0 +1,138 @@
+import { readFile } from "node:fs/promises"
+import { createRequire } from "node:module"
+import { fileURLToPath } from "node:url"
+import type { OutputFormat } from "@/lib/output-formats"
+import type { SourceDecoder, SourceFormat } from "@/lib/source-formats"
+
+// The jsquash codecs fetch their .wasm by URL in the browser; in Node we have to
+// compile it from node_modules and hand the module over ourselves. Resolving from this
+// module rather than the working directory lets the CLI run from anywhere; the path (not
+// the bare import.meta.url) keeps Turbopack from rewriting the dynamic resolve calls.
+const requireFromHere = createRequire(fileURLToPath(import.meta.url))
+
+const compileWasm = async (specifier: string) => WebAssembly.compile(await readFile(requireFromHere.resolve(specifier)))
+
+if (typeof globalThis.ImageData === "undefined") {
+  class NodeImageData {
+    readonly data: Uint8ClampedArray
+    readonly width: number
+    readonly height: number
+    readonly colorSpace = "srgb"
+
+    // Both browser signatures: (data, width, height) and (width, height) for a blank image.
+    constructor(dataOrWidth: Uint8ClampedArray | number, widthOrHeight: number, height?: number) {
+      if (typeof dataOrWidth === "number") {
+        this.data = new Uint8ClampedArray(dataOrWidth * widthOrHeight * 4)
+        this.width = dataOrWidth
+        this.height = widthOrHeight
+      } else {
+        this.data = dataOrWidth
+        this.width = widthOrHeight
+        this.height = height ?? dataOrWidth.length / 4 / widthOrHeight
+      }
+    }
+  }
+  globalThis.ImageData = NodeImageData as unknown as typeof ImageData
+}
+
+const once = <T>(load: () => Promise<T>) => {
+  let loaded: Promise<T> | null = null
+  return () => (loaded ??= load())
+}
+
+const loadAvifEncoder = once(async () => {
+  const codec = await import("@jsquash/avif/encode.js")
+  await codec.init(await compileWasm("@jsquash/avif/codec/enc/avif_enc.wasm"))
+  return codec.default
+})
+
+const loadAvifDecoder = once(async () => {
+  const codec = await import("@jsquash/avif/decode.js")
+  await codec.init(await compileWasm("@jsquash/avif/codec/dec/avif_dec.wasm"))
+  return codec.default
+})
+
+const loadJpegDecoder = once(async () => {
+  const codec = await import("@jsquash/jpeg/decode.js")
+  await codec.init(await compileWasm("@jsquash/jpeg/codec/dec/mozjpeg_dec.wasm"))
+  return codec.default
+})
+
+const loadPngDecoder = once(async () => {
+  const codec = await import("@jsquash/png/decode.js")
+  await codec.init(await compileWasm("@jsquash/png/codec/pkg/squoosh_png_bg.wasm"))
+  return codec.decode
+})
+
+const loadWebpDecoder = once(async () => {
+  const codec = await import("@jsquash/webp/decode.js")
+  await codec.init(await compileWasm("@jsquash/webp/codec/dec/webp_dec.wasm"))
+  return codec.default
+})
+
+const loadJxlDecoder = once(async () => {
+  const codec = await import("@jsquash/jxl/decode.js")
+  await codec.init(await compileWasm("@jsquash/jxl/codec/dec/jxl_dec.wasm"))
+  return codec.default
+})
+
+const loadWebpEncoder = once(async () => {
+  const codec = await import("@jsquash/webp/encode.js")
+  // Node always has wasm SIMD, so jsquash picks its SIMD build and needs the matching binary.
+  await codec.init(await compileWasm("@jsquash/webp/codec/enc/webp_enc_simd.wasm"))
+})
+
+const loadJpegEncoder = once(async () => {
+  const codec = await import("@jsquash/jpeg/encode.js")
+  await codec.init(await compileWasm("@jsquash/jpeg/codec/enc/mozjpeg_enc.wasm"))
+})
+
+const loadPngOptimiser = once(async () => {
+  const codec = await import("@jsquash/oxipng/optimise.js")
+  await codec.init(await compileWasm("@jsquash/oxipng/codec/pkg/squoosh_oxipng_bg.wasm"))
+})
+
+const loadJxlEncoder = once(async () => {
+  const codec = await import("@jsquash/jxl/encode.js")
+  await codec.init(await compileWasm("@jsquash/jxl/codec/enc/jxl_enc.wasm"))
+})
+
+const loadResize = once(async () => {
+  const codec = await import("@jsquash/resize")
+  await codec.initResize(await compileWasm("@jsquash/resize/lib/resize/squoosh_resize_bg.wasm"))
+})
+
+// Initialising a codec module once is enough for the shared browser helpers in lib/encoders
+// to use it too, since they import the same module and only fetch wasm when it isn't ready.
+const DECODERS: Record<OutputFormat, () => Promise<unknown>> = {
+  avif: loadAvifDecoder,
+  webp: loadWebpDecoder,
+  jpeg: loadJpegDecoder,
+  png: loadPngDecoder,
+  jxl: loadJxlDecoder,
+}
+
+const ENCODERS: Record<OutputFormat, () => Promise<unknown>> = {
+  avif: loadAvifEncoder,
+  webp: loadWebpEncoder,
+  jpeg: loadJpegEncoder,
+  png: loadPngOptimiser,
+  jxl: loadJxlEncoder,
+}
+
+// RAW goes through LibRaw's own Web Worker and GIF/BMP through the browser, neither of which Node has.
+export const NODE_DECODERS: SourceDecoder[] = ["codec", "heif", "tiff"]
+
+const hasCodecDecoder = (format: SourceFormat): format is OutputFormat => format in DECODERS
+
+/**
+ * Compiles the wasm `decodeImageData`, `encodeImageData` and `resampleImageData` need under Node.
+ * The HEIC and TIFF decoders load themselves, so only the codec formats are compiled here.
+ */
+export async function prepareNodeCodecs({ decode = [], encode = [] }: { decode?: SourceFormat[]; encode?: OutputFormat[] }) {
+  await Promise.all([
+    ...decode.filter(hasCodecDecoder).map((format) => DECODERS[format]()),
+    ...encode.map((format) => ENCODERS[format]()),
+    loadResize(),
+  ])
+}
@@ -0,0 +1,60 @@
+import type { Dimensions } from "@/lib/dimensions"
+
+/** The size once an EXIF orientation is applied; 5–8 swap the axes. */
+export const orientedSize = ({ width, height }: Dimensions, orientation: number): Dimensions =>
+  orientation >= 5 && orientation <= 8 ? { width: height, height: width } : { width, height }
+
+/**
+ * Bakes an EXIF orientation (1–8) into the pixels. Codec decoders ignore the tag, so
+ * applying it here gives the same upright result in every browser and in Node.
+ */
+export function applyOrientation(imageData: ImageData, orientation: number): ImageData {
+  if (orientation <= 1 || orientation > 8) return imageData
+
+  const { width, height, data } = imageData
+  const swapsAxes = orientation >= 5
+  const outWidth = swapsAxes ? height : width
+  const outHeight = swapsAxes ? width : height
+  const aligned = data.byteOffset % 4 === 0 ? data : data.slice()
+  const source = new Uint32Array(aligned.buffer, aligned.byteOffset, width * height)
+  const output = new Uint32Array(outWidth * outHeight)
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let dx: number
+      let dy: number
+      switch (orientation) {
+        case 2:
+          dx = width - 1 - x
+          dy = y
+          break
+        case 3:
+          dx = width - 1 - x
+          dy = height - 1 - y
+          break
+        case 4:
+          dx = x
+          dy = height - 1 - y
+          break
+        case 5:
+          dx = y
+          dy = x
+          break
+        case 6:
+          dx = height - 1 - y
+          dy = x
+          break
+        case 7:
+          dx = height - 1 - y
+          dy = width - 1 - x
+          break
+        default:
+          dx = y
+          dy = width - 1 - x
+      }
+      output[dy * outWidth + dx] = source[y * width + x]
+    }
+  }
+
+  return new ImageData(new Uint8ClampedArray(output.buffer), outWidth, outHeight)
+}
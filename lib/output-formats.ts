@@ -0,0 +1,103 @@
+import type { LocalizedMessage } from "@/lib/i18n"
+
+export type OutputFormat = "avif" | "webp" | "jpeg" | "png" | "jxl"
+
+export interface OutputFormatInfo {
+  label: string
+  extension: string
+  mimeType: string
+}
+
+export const OUTPUT_FORMATS: Record<OutputFormat, OutputFormatInfo> = {
+  avif: { label: "AVIF", extension: "avif", mimeType: "image/avif" },
+  webp: { label: "WebP", extension: "webp", mimeType: "image/webp" },
+  jpeg: { label: "MozJPEG", extension: "jpg", mimeType: "image/jpeg" },
+  png: { label: "OxiPNG", extension: "png", mimeType: "image/png" },
+  jxl: { label: "JPEG XL", extension: "jxl", mimeType: "image/jxl" },
+}
+
+export interface AvifOptions {
+  speed: number
+  subsample: 1 | 3
+  qualityAlpha: number
+  tune: 0 | 1 | 2
+  sharpness: number
+  lossless: boolean
+  bitDepth: 8 | 10 | 12
+}
+
+export interface FormatOptions {
+  avif: AvifOptions
+  webp: { lossless: boolean; method: number }
+  jpeg: { progressive: boolean }
+  png: { level: number; interlace: boolean }
+  jxl: { effort: number; lossless: boolean; progressive: boolean }
+}
+
+export const DEFAULT_AVIF_OPTIONS: AvifOptions = {
+  speed: 4,
+  subsample: 1,
+  qualityAlpha: -1,
+  tune: 0,
+  sharpness: 0,
+  lossless: false,
+  bitDepth: 8,
+}
+
+export const DEFAULT_FORMAT_OPTIONS: FormatOptions = {
+  avif: DEFAULT_AVIF_OPTIONS,
+  webp: { lossless: false, method: 4 },
+  jpeg: { progressive: true },
+  png: { level: 2, interlace: false },
+  jxl: { effort: 7, lossless: false, progressive: false },
+}
+
+export interface EncoderSettings {
+  format: OutputFormat
+  quality: number
+  preview: boolean
+  options: FormatOptions
+}
+
+// Own keys only, so names inherited from Object.prototype such as "constructor" aren't formats.
+export const isOutputFormat = (value: unknown): value is OutputFormat =>
+  typeof value === "string" && Object.hasOwn(OUTPUT_FORMATS, value)
+
+const isIntegerInRange = (value: unknown, min: number, max: number) =>
+  typeof value === "number" && Number.isInteger(value) && value >= min && value <= max
+
+export function validateAvifOptions(options: AvifOptions): LocalizedMessage[] {
+  const problems: LocalizedMessage[] = []
+  if (!isIntegerInRange(options.speed, 0, 10)) problems.push({ key: "errors.avifSpeed" })
+  if (options.subsample !== 1 && options.subsample !== 3) problems.push({ key: "errors.avifSubsample" })
+  if (options.qualityAlpha !== -1 && !isIntegerInRange(options.qualityAlpha, 0, 100)) {
+    problems.push({ key: "errors.avifQualityAlpha" })
+  }
+  if (![0, 1, 2].includes(options.tune)) problems.push({ key: "errors.avifTune" })
+  if (!isIntegerInRange(options.sharpness, 0, 7)) problems.push({ key: "errors.avifSharpness" })
+  if (typeof options.lossless !== "boolean") problems.push({ key: "errors.avifLossless" })
+  if (![8, 10, 12].includes(options.bitDepth)) problems.push({ key: "errors.avifBitDepth" })
+  return problems
+}
+
+/** The AVIF problems plus those of every other format's options. */
+export function validateFormatOptions({ avif, webp, jpeg, png, jxl }: FormatOptions): LocalizedMessage[] {
+  const problems = validateAvifOptions(avif)
+  if (typeof webp.lossless !== "boolean") problems.push({ key: "errors.webpLossless" })
+  if (!isIntegerInRange(webp.method, 0, 6)) problems.push({ key: "errors.webpMethod" })
+  if (typeof jpeg.progressive !== "boolean") problems.push({ key: "errors.jpegProgressive" })
+  if (!isIntegerInRange(png.level, 1, 6)) problems.push({ key: "errors.pngLevel" })
+  if (typeof png.interlace !== "boolean") problems.push({ key: "errors.pngInterlace" })
+  if (!isIntegerInRange(jxl.effort, 1, 9)) problems.push({ key: "errors.jxlEffort" })
+  if (typeof jxl.lossless !== "boolean") problems.push({ key: "errors.jxlLossless" })
+  if (typeof jxl.progressive !== "boolean") problems.push({ key: "errors.jxlProgressive" })
+  return problems
+}
+
+export function formatUsesQuality(format: OutputFormat, options: FormatOptions): boolean {
+  if (format === "png") return false
+  if (format === "avif") return !options.avif.lossless
+  if (format === "webp") return !options.webp.lossless
+  if (format === "jxl") return !options.jxl.lossless
+  return true
+}
@@ -0,0 +1,249 @@
+import { decodeBitmap, decodeSourceImage } from "@/lib/decoders"
+import { resolveTargetDimensions, type Dimensions } from "@/lib/dimensions"
+import { encodeImageData } from "@/lib/encoders"
+import { LocalizedError, reasonOf, type LocalizedMessage } from "@/lib/i18n"
+import { convertToSrgb } from "@/lib/icc"
+import { fitWithinPixels, type TileRect } from "@/lib/image-limits"
+import { readImageSize } from "@/lib/image-size"
+import { embedMetadata, planMetadata, readImageMetadata, type MetadataPlan, type MetadataSettings } from "@/lib/metadata"
+import { applyOrientation, orientedSize } from "@/lib/orientation"
+import { formatUsesQuality, type EncoderSettings, type OutputFormat } from "@/lib/output-formats"
+import { DEFAULT_RESAMPLE_SETTINGS, resampleImageData, type ResampleSettings } from "@/lib/resampling"
+import { SOURCE_FORMATS, detectSourceFormat, type SourceDecoder, type SourceFormat } from "@/lib/source-formats"
+import { searchTargetSize } from "@/lib/target-size"
+import { applyTransforms, type ImageTransform } from "@/lib/transform"
+
+export type PipelineStage = "decode" | "transform" | "encode"
+
+export type PipelineErrorCode =
+  | "unsupported_format"
+  | "decode_failed"
+  | "transform_failed"
+  | "encode_failed"
+  | "invalid_options"
+
+export class PipelineError extends LocalizedError {
+  constructor(
+    readonly code: PipelineErrorCode,
+    readonly stage: PipelineStage,
+    message: LocalizedMessage,
+    options?: { cause?: unknown },
+  ) {
+    super(message, options)
+    this.name = "PipelineError"
+  }
+}
+
+export interface DecodeOptions {
+  metadata: MetadataSettings
+  /** The planned output format, which decides whether an ICC profile can be kept. */
+  format?: OutputFormat
+  /** The decoders this runtime has. Node lacks the browser's and the Web Worker LibRaw runs in. */
+  decoders?: SourceDecoder[]
+  /** Keeps the decoded image under this many pixels, scaling while decoding where the browser can. */
+  maxPixels?: number
+  /** Decodes one rectangle of the upright source at full size, for tiled exports. Needs the browser decoder. */
+  region?: TileRect
+}
+
+export interface DecodedImage {
+  imageData: ImageData
+  sourceFormat: SourceFormat | null
+  plan: MetadataPlan
+}
+
+export interface TransformOptions {
+  edits?: ImageTransform[]
+  resample: ResampleSettings
+  width?: number
+  height?: number
+}
+
+export interface EncodedOutput {
+  buffer: ArrayBuffer
+  width: number
+  height: number
+}
+
+export interface CompressOptions extends DecodeOptions, TransformOptions {
+  encoder: EncoderSettings
+  /** Searches the highest quality that fits in `bytes` instead of using `encoder.quality`. */
+  targetSize?: { bytes: number; allowDownscale: boolean }
+}
+
+export interface CompressResult extends EncodedOutput {
+  quality: number
+  passes: number
+  /** False when a target size was set and even the smallest attempt didn't fit. */
+  met: boolean
+}
+
+/** Each stage can be swapped, for instance to decode with something other than the bundled codecs. */
+export interface PipelineSteps {
+  decode: (buffer: ArrayBuffer, options: DecodeOptions) => Promise<DecodedImage>
+  transform: (imageData: ImageData, options: TransformOptions) => Promise<ImageData>
+  encode: (imageData: ImageData, encoder: EncoderSettings, plan: Pick<MetadataPlan, "exif" | "icc">) => Promise<EncodedOutput>
+}
+
+export const ALL_DECODERS: SourceDecoder[] = ["codec", "heif", "tiff", "raw", "browser"]
+
+/** The upright size to decode at when the header says the source is over `maxPixels`. */
+const reducedSize = (buffer: ArrayBuffer, orientation: number, maxPixels: number): Dimensions | null => {
+  const size = readImageSize(buffer)
+  if (!size || size.width * size.height <= maxPixels) return null
+  return fitWithinPixels(orientedSize(size, orientation), maxPixels)
+}
+
+// When the format can't be scaled while decoding, the full-size pixels are at least dropped
+// before the edits, the resize and the encoder make copies of their own.
+const limitPixels = async (imageData: ImageData, maxPixels?: number) => {
+  if (!maxPixels) return imageData
+  const { width, height } = fitWithinPixels(imageData, maxPixels)
+  return resampleImageData(imageData, width, height, DEFAULT_RESAMPLE_SETTINGS)
+}
+
+/**
+ * Decodes through the source-format registry so EXIF orientation and the ICC profile are
+ * applied by us, the same way in every browser. When that fails and the browser decoder is
+ * available we fall back to it; it orients and colour-manages on its own, so there is no
+ * profile left to keep.
+ */
+export async function decodeStep(
+  buffer: ArrayBuffer,
+  { metadata, format, decoders = ALL_DECODERS, maxPixels, region }: DecodeOptions,
+): Promise<DecodedImage> {
+  const sourceFormat = detectSourceFormat(buffer)
+  const canFallBack = decoders.includes("browser")
+  const info = sourceFormat && SOURCE_FORMATS[sourceFormat]
+  if (!canFallBack && (!info || !decoders.includes(info.decoder))) {
+    throw new PipelineError(
+      "unsupported_format",
+      "decode",
+      info ? { key: "errors.browserOnlyFormat", params: { format: info.label } } : { key: "errors.unknownFormat" },
+    )
+  }
+
+  const source = readImageMetadata(buffer)
+  const plan = planMetadata(source, metadata, format)
+  // What the browser decoder hands back is already upright and in sRGB.
+  const browserPlan = { ...plan, convertToSrgb: false, icc: undefined }
+
+  if (region) {
+    if (!canFallBack) throw new PipelineError("unsupported_format", "decode", { key: "errors.tilesNeedBrowser" })
+    try {
+      return { imageData: await decodeBitmap(new Blob([buffer]), { region }), sourceFormat, plan: browserPlan }
+    } catch (error) {
+      throw new PipelineError("decode_failed", "decode", { key: "errors.tileDecodeFailed" }, { cause: error })
+    }
+  }
+
+  const reduced = maxPixels ? reducedSize(buffer, source.exif?.orientation ?? 1, maxPixels) : null
+  if (reduced && canFallBack) {
+    try {
+      return { imageData: await decodeBitmap(new Blob([buffer]), reduced), sourceFormat, plan: browserPlan }
+    } catch (error) {
+      console.warn("Falling back to a full-size decode:", error)
+    }
+  }
+
+  let decoded: ImageData | null = null
+  let failure: unknown
+  if (sourceFormat && info && decoders.includes(info.decoder)) {
+    try {
+      const pixels = await decodeSourceImage(buffer, sourceFormat)
+      decoded = info.orients ? pixels : applyOrientation(pixels, source.exif?.orientation ?? 1)
+    } catch (error) {
+      failure = error
+    }
+  }
+
+  if (!decoded) {
+    if (!canFallBack) {
+      const message: LocalizedMessage = { key: "errors.decodeFailed", params: { reason: reasonOf(failure) } }
+      throw new PipelineError("decode_failed", "decode", message, { cause: failure })
+    }
+    if (failure) console.warn("Falling back to the browser decoder:", failure)
+    try {
+      const imageData = await decodeBitmap(new Blob([buffer]))
+      return { imageData: await limitPixels(imageData, maxPixels), sourceFormat, plan: browserPlan }
+    } catch (error) {
+      throw new PipelineError("decode_failed", "decode", { key: "errors.browserDecodeFailed" }, { cause: error })
+    }
+  }
+
+  const imageData = plan.convertToSrgb ? convertToSrgb(decoded, source.icc!) : decoded
+  return { imageData: await limitPixels(imageData, maxPixels), sourceFormat, plan }
+}
+
+/** Replays the card's edits on upright sRGB pixels, then resizes to the requested dimensions. */
+export async function transformStep(
+  imageData: ImageData,
+  { edits = [], resample, width, height }: TransformOptions,
+): Promise<ImageData> {
+  try {
+    const edited = applyTransforms(imageData, edits)
+    const target = resolveTargetDimensions(edited, width, height)
+    return await resampleImageData(edited, target.width, target.height, resample)
+  } catch (error) {
+    const message: LocalizedMessage = { key: "errors.transformFailed", params: { reason: reasonOf(error) } }
+    throw new PipelineError("transform_failed", "transform", message, { cause: error })
+  }
+}
+
+export async function encodeStep(
+  imageData: ImageData,
+  encoder: EncoderSettings,
+  plan: Pick<MetadataPlan, "exif" | "icc"> = {},
+): Promise<EncodedOutput> {
+  let encoded: ArrayBuffer
+  try {
+    encoded = await encodeImageData(imageData, encoder)
+  } catch (error) {
+    const message: LocalizedMessage = {
+      key: "errors.encodeFailed",
+      params: { format: encoder.format, reason: reasonOf(error) },
+    }
+    throw new PipelineError("encode_failed", "encode", message, { cause: error })
+  }
+  const buffer = embedMetadata(encoded, encoder.format, plan, imageData.width, imageData.height)
+  return { buffer, width: imageData.width, height: imageData.height }
+}
+
+export const DEFAULT_PIPELINE_STEPS: PipelineSteps = { decode: decodeStep, transform: transformStep, encode: encodeStep }
+
+/** Decode → transform → encode, with the target-size search wrapped around the encode when asked for. */
+export async function compressImage(
+  buffer: ArrayBuffer,
+  options: CompressOptions,
+  overrides: Partial<PipelineSteps> = {},
+): Promise<CompressResult> {
+  const steps = { ...DEFAULT_PIPELINE_STEPS, ...overrides }
+  const { encoder, targetSize } = options
+
+  const { imageData, plan } = await steps.decode(buffer, { ...options, format: encoder.format })
+  const source = await steps.transform(imageData, options)
+
+  if (!targetSize || !formatUsesQuality(encoder.format, encoder.options)) {
+    const output = await steps.encode(source, encoder, plan)
+    return { ...output, quality: encoder.quality, passes: 1, met: true }
+  }
+  if (!(targetSize.bytes > 0)) {
+    throw new PipelineError("invalid_options", "encode", { key: "errors.invalidTargetSize" })
+  }
+
+  const result = await searchTargetSize(
+    async (quality, scale) => {
+      const scaled = await steps.transform(source, {
+        resample: options.resample,
+        width: Math.max(1, Math.round(source.width * scale)),
+        height: Math.max(1, Math.round(source.height * scale)),
+      })
+      const output = await steps.encode(scaled, { ...encoder, quality }, plan)
+      return { ...output, byteLength: output.buffer.byteLength }
+    },
+    { targetBytes: targetSize.bytes, allowDownscale: targetSize.allowDownscale },
+  )
+
+  const { buffer: output, width, height } = result.output
+  return { buffer: output, width, height, quality: result.quality, passes: result.passes, met: result.met }
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest"
+import { describeError, translate } from "@/lib/i18n"
+import { DEFAULT_PRESET_SETTINGS, parsePresetFile, parsePresetSettings, serializePresets } from "@/lib/presets"
+
+describe("parsePresetSettings", () => {
+  it("fills missing fields from the defaults", () => {
+    expect(parsePresetSettings({ quality: 60 })).toEqual({ ...DEFAULT_PRESET_SETTINGS, quality: 60 })
+  })
+
+  it("rejects names inherited from Object.prototype", () => {
+    expect(() => parsePresetSettings({ format: "constructor" })).toThrow()
+    expect(() => parsePresetSettings({ resample: { method: "toString" } })).toThrow()
+  })
+
+  it("validates the options of every format", () => {
+    expect(() => parsePresetSettings({ formatOptions: { png: { level: -5 } } })).toThrow()
+    expect(() => parsePresetSettings({ formatOptions: { jxl: { effort: "lots" } } })).toThrow()
+    expect(() => parsePresetSettings({ formatOptions: { webp: { lossless: "yes" } } })).toThrow()
+    expect(() => parsePresetSettings({ formatOptions: { avif: { bitDepth: 16 } } })).toThrow()
+  })
+
+  it("drops fields it doesn't know", () => {
+    const settings = parsePresetSettings({
+      formatOptions: { png: { level: 4, junk: 1 } },
+      resample: { method: "mitchell", extra: true },
+    })
+    expect(settings.formatOptions.png).toEqual({ level: 4, interlace: false })
+    expect(settings.resample).toEqual({ ...DEFAULT_PRESET_SETTINGS.resample, method: "mitchell" })
+  })
+})
+
+describe("parsePresetFile", () => {
+  it("reads back an export", () => {
+    const exported = serializePresets([{ id: "a", name: "Hero", settings: { ...DEFAULT_PRESET_SETTINGS, quality: 50 } }])
+    const [preset] = parsePresetFile(exported)
+    expect(preset.name).toBe("Hero")
+    expect(preset.settings.quality).toBe(50)
+  })
+
+  it("rejects files that aren't a preset list", () => {
+    expect(() => parsePresetFile("not json")).toThrow()
+    expect(() => parsePresetFile('{"presets": 3}')).toThrow()
+    expect(() => parsePresetFile('[{"settings": {}}]')).toThrow()
+  })
+
+  it("names the preset and the problem in the reader's language", () => {
+    const file = JSON.stringify([{ name: "Hero", settings: { sizeMode: "fast" } }])
+    expect(() => parsePresetFile(file)).toThrow("Preset “Hero”: sizeMode must be quality or target")
+    try {
+      parsePresetFile(file)
+    } catch (error) {
+      expect(describeError(error, (key, params) => translate("es", key, params))).toBe(
+        "Preset “Hero”: sizeMode debe ser quality o target",
+      )
+    }
+  })
+})
@@ -0,0 +1,207 @@
+import { LocalizedError, reasonOf } from "@/lib/i18n"
+import { DEFAULT_METADATA_SETTINGS, type MetadataSettings } from "@/lib/metadata"
+import {
+  DEFAULT_FORMAT_OPTIONS,
+  isOutputFormat,
+  validateFormatOptions,
+  type FormatOptions,
+  type OutputFormat,
+} from "@/lib/output-formats"
+import { DEFAULT_RESAMPLE_SETTINGS, isResampleMethod, type ResampleSettings } from "@/lib/resampling"
+
+export interface PresetSettings {
+  quality: number
+  width: string
+  height: string
+  format: OutputFormat
+  formatOptions: FormatOptions
+  resample: ResampleSettings
+  metadata: MetadataSettings
+  sizeMode: "quality" | "target"
+  targetSize: string
+  allowDownscale: boolean
+}
+
+export interface Preset {
+  id: string
+  name: string
+  settings: PresetSettings
+}
+
+export interface PresetStore {
+  presets: Preset[]
+  defaultPresetId: string | null
+}
+
+export const DEFAULT_PRESET_SETTINGS: PresetSettings = {
+  quality: 75,
+  width: "",
+  height: "",
+  format: "avif",
+  formatOptions: DEFAULT_FORMAT_OPTIONS,
+  resample: DEFAULT_RESAMPLE_SETTINGS,
+  metadata: DEFAULT_METADATA_SETTINGS,
+  sizeMode: "quality",
+  targetSize: "150",
+  allowDownscale: false,
+}
+
+const STORAGE_KEY = "image-compressor:presets"
+const EXPORT_VERSION = 1
+
+export const builtInPresets = (): Preset[] => [
+  {
+    id: "blog-hero",
+    name: "Blog hero",
+    settings: { ...DEFAULT_PRESET_SETTINGS, width: "1600", sizeMode: "target", targetSize: "150", allowDownscale: true },
+  },
+  {
+    id: "product-thumb",
+    name: "Product thumb",
+    settings: { ...DEFAULT_PRESET_SETTINGS, quality: 70, width: "400", height: "400" },
+  },
+  {
+    id: "og-image",
+    name: "OG image",
+    settings: { ...DEFAULT_PRESET_SETTINGS, quality: 82, width: "1200", height: "630", format: "jpeg" },
+  },
+]
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+/** The defaults overlaid with the raw values of the same fields; anything else in `raw` is dropped. */
+const knownFields = <T extends object>(defaults: T, raw: Record<string, unknown>): T =>
+  Object.fromEntries(
+    Object.entries(defaults).map(([key, value]) => [key, Object.hasOwn(raw, key) ? raw[key] : value]),
+  ) as T
+
+const dimensionString = (value: unknown) =>
+  typeof value === "number" ? String(value) : typeof value === "string" && /^\d*$/.test(value) ? value : null
+
+/** Validates one preset's settings, filling gaps from the defaults so older exports keep working. */
+export function parsePresetSettings(raw: unknown): PresetSettings {
+  if (!isRecord(raw)) throw new LocalizedError({ key: "errors.presetNotObject" })
+
+  const settings = { ...DEFAULT_PRESET_SETTINGS }
+
+  if (raw.quality !== undefined) {
+    if (typeof raw.quality !== "number" || raw.quality < 1 || raw.quality > 100) {
+      throw new LocalizedError({ key: "errors.presetQuality" })
+    }
+    settings.quality = Math.round(raw.quality)
+  }
+  for (const field of ["width", "height"] as const) {
+    if (raw[field] === undefined) continue
+    const value = dimensionString(raw[field])
+    if (value === null) throw new LocalizedError({ key: "errors.presetDimension", params: { field } })
+    settings[field] = value
+  }
+  if (raw.format !== undefined) {
+    if (!isOutputFormat(raw.format)) {
+      throw new LocalizedError({ key: "errors.presetFormat", params: { format: String(raw.format) } })
+    }
+    settings.format = raw.format
+  }
+  if (raw.formatOptions !== undefined) {
+    if (!isRecord(raw.formatOptions)) throw new LocalizedError({ key: "errors.presetFormatOptions" })
+    const merged = { ...DEFAULT_FORMAT_OPTIONS }
+    for (const format of Object.keys(DEFAULT_FORMAT_OPTIONS) as (keyof FormatOptions)[]) {
+      const options = raw.formatOptions[format]
+      if (isRecord(options)) {
+        merged[format] = knownFields(DEFAULT_FORMAT_OPTIONS[format], options) as never
+      }
+    }
+    const problems = validateFormatOptions(merged)
+    if (problems.length > 0) throw new LocalizedError({ key: "errors.invalidFormatOptions", params: { problems } })
+    settings.formatOptions = merged
+  }
+  if (raw.resample !== undefined) {
+    if (!isRecord(raw.resample)) throw new LocalizedError({ key: "errors.presetResample" })
+    const resample = knownFields(DEFAULT_RESAMPLE_SETTINGS, raw.resample)
+    if (!isResampleMethod(resample.method)) {
+      throw new LocalizedError({ key: "errors.presetResampleMethod", params: { method: String(resample.method) } })
+    }
+    if (typeof resample.linearRGB !== "boolean" || typeof resample.premultiply !== "boolean") {
+      throw new LocalizedError({ key: "errors.presetResampleFlags" })
+    }
+    settings.resample = resample
+  }
+  if (raw.metadata !== undefined) {
+    if (!isRecord(raw.metadata)) throw new LocalizedError({ key: "errors.presetMetadata" })
+    settings.metadata = { keepAuthor: raw.metadata.keepAuthor === true, keepIcc: raw.metadata.keepIcc === true }
+  }
+  if (raw.sizeMode !== undefined) {
+    if (raw.sizeMode !== "quality" && raw.sizeMode !== "target") {
+      throw new LocalizedError({ key: "errors.presetSizeMode" })
+    }
+    settings.sizeMode = raw.sizeMode
+  }
+  if (raw.targetSize !== undefined) {
+    const value = dimensionString(raw.targetSize)
+    if (value === null) throw new LocalizedError({ key: "errors.presetTargetSize" })
+    settings.targetSize = value
+  }
+  if (raw.allowDownscale !== undefined) {
+    settings.allowDownscale = raw.allowDownscale === true
+  }
+
+  return settings
+}
+
+export function parsePresetFile(text: string): Preset[] {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new LocalizedError({ key: "errors.presetFileJson" })
+  }
+
+  const list = isRecord(data) ? data.presets : data
+  if (!Array.isArray(list)) throw new LocalizedError({ key: "errors.presetFileList" })
+
+  return list.map((entry, position) => {
+    if (!isRecord(entry) || typeof entry.name !== "string" || !entry.name.trim()) {
+      throw new LocalizedError({ key: "errors.presetUnnamed", params: { number: position + 1 } })
+    }
+    try {
+      return { id: crypto.randomUUID(), name: entry.name.trim(), settings: parsePresetSettings(entry.settings) }
+    } catch (error) {
+      throw new LocalizedError({ key: "errors.presetInvalid", params: { name: entry.name, reason: reasonOf(error) } })
+    }
+  })
+}
+
+export function serializePresets(presets: Preset[]): string {
+  return JSON.stringify(
+    { version: EXPORT_VERSION, presets: presets.map(({ name, settings }) => ({ name, settings })) },
+    null,
+    2,
+  )
+}
+
+export function loadPresetStore(): PresetStore {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (!stored) return { presets: builtInPresets(), defaultPresetId: null }
+
+    const data = JSON.parse(stored)
+    const presets: Preset[] = (Array.isArray(data.presets) ? data.presets : []).flatMap((entry: unknown) => {
+      if (!isRecord(entry) || typeof entry.id !== "string" || typeof entry.name !== "string") return []
+      try {
+        return [{ id: entry.id, name: entry.name, settings: parsePresetSettings(entry.settings) }]
+      } catch {
+        return []
+      }
+    })
+    const defaultPresetId = presets.some((preset) => preset.id === data.defaultPresetId) ? data.defaultPresetId : null
+    return { presets, defaultPresetId }
+  } catch (error) {
+    console.error("Error reading saved presets:", error)
+    return { presets: builtInPresets(), defaultPresetId: null }
+  }
+}
+
+export function savePresetStore(store: PresetStore) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(store))
+}
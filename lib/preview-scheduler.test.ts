@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { PreviewScheduler } from "@/lib/preview-scheduler"
+
+// A preview that stays in flight until its signal is aborted, like a worker job.
+const pendingUntilAborted = (_item: string, signal: AbortSignal) =>
+  new Promise<void>((_resolve, reject) =>
+    signal.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError"))),
+  )
+
+describe("PreviewScheduler", () => {
+  beforeEach(() => vi.useFakeTimers())
+  afterEach(() => vi.useRealTimers())
+
+  it("runs one preview after the settings settle", async () => {
+    const run = vi.fn(async () => {})
+    const changes: [string, boolean][] = []
+    const onActiveChange = (...change: [string, boolean]) => changes.push(change)
+    const previews = new PreviewScheduler<string>({ delay: 100, run, onActiveChange })
+
+    previews.schedule("a")
+    previews.schedule("a")
+    await vi.advanceTimersByTimeAsync(100)
+
+    expect(run).toHaveBeenCalledTimes(1)
+    expect(changes).toEqual([
+      ["a", true],
+      ["a", false],
+    ])
+  })
+
+  it("clears the flag when an edit cancels the preview in flight", async () => {
+    const signals: AbortSignal[] = []
+    const changes: [string, boolean][] = []
+    const previews = new PreviewScheduler<string>({
+      delay: 100,
+      run: (item, signal) => {
+        signals.push(signal)
+        return pendingUntilAborted(item, signal)
+      },
+      onActiveChange: (...change) => changes.push(change),
+    })
+
+    previews.schedule("a")
+    await vi.advanceTimersByTimeAsync(100)
+    expect(previews.isActive("a")).toBe(true)
+
+    // What setEdits does before rendering the new edits.
+    previews.cancel("a")
+    await vi.runAllTimersAsync()
+
+    expect(signals[0].aborted).toBe(true)
+    expect(previews.isActive("a")).toBe(false)
+    expect(changes).toEqual([
+      ["a", true],
+      ["a", false],
+    ])
+  })
+
+  it("keeps the newer preview's flag when an older one is superseded", async () => {
+    const changes: [string, boolean][] = []
+    const previews = new PreviewScheduler<string>({
+      delay: 100,
+      run: pendingUntilAborted,
+      onActiveChange: (...change) => changes.push(change),
+    })
+
+    previews.schedule("a")
+    await vi.advanceTimersByTimeAsync(100)
+    previews.schedule("a")
+    await vi.advanceTimersByTimeAsync(100)
+
+    expect(previews.isActive("a")).toBe(true)
+    expect(changes).toEqual([
+      ["a", true],
+      ["a", false],
+      ["a", true],
+    ])
+  })
+
+  it("does nothing when cancelling an item with no preview", () => {
+    const onActiveChange = vi.fn()
+    const previews = new PreviewScheduler<string>({ delay: 100, run: async () => {}, onActiveChange })
+
+    previews.cancel("a")
+    previews.schedule("b")
+    previews.cancel("b")
+
+    expect(onActiveChange).not.toHaveBeenCalled()
+  })
+})
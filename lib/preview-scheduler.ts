@@ -0,0 +1,61 @@
+export interface PreviewSchedulerOptions<T> {
+  /** How long settings have to stay put before a preview is encoded. */
+  delay: number
+  /** Encodes one preview. The signal is aborted when the preview is superseded or cancelled. */
+  run: (item: T, signal: AbortSignal) => Promise<void>
+  /** Called when an item's preview starts, and once when it stops: finished, failed or cancelled. */
+  onActiveChange: (item: T, active: boolean) => void
+}
+
+/**
+ * Debounces previews per item, keeping at most one in flight each. Cancelling clears the active
+ * flag itself, so whoever cancels a preview never has to know whether one was running.
+ */
+export class PreviewScheduler<T> {
+  private readonly options: PreviewSchedulerOptions<T>
+  private readonly timers = new Map<T, ReturnType<typeof setTimeout>>()
+  // Kept after the preview lands, so cancelling still stops work that was started from it.
+  private readonly controllers = new Map<T, AbortController>()
+  private readonly active = new Set<T>()
+
+  constructor(options: PreviewSchedulerOptions<T>) {
+    this.options = options
+  }
+
+  schedule(item: T) {
+    this.cancel(item)
+    this.timers.set(item, setTimeout(() => this.start(item), this.options.delay))
+  }
+
+  cancel(item: T) {
+    clearTimeout(this.timers.get(item))
+    this.timers.delete(item)
+    this.controllers.get(item)?.abort()
+    this.controllers.delete(item)
+    this.settle(item)
+  }
+
+  isActive(item: T) {
+    return this.active.has(item)
+  }
+
+  private async start(item: T) {
+    this.timers.delete(item)
+    const controller = new AbortController()
+    this.controllers.set(item, controller)
+    this.active.add(item)
+    this.options.onActiveChange(item, true)
+    try {
+      await this.options.run(item, controller.signal)
+    } catch {
+      // Failures are the run's to report; a superseded preview has nothing left to say.
+    } finally {
+      if (this.controllers.get(item) === controller) this.settle(item)
+    }
+  }
+
+  private settle(item: T) {
+    if (!this.active.delete(item)) return
+    this.options.onActiveChange(item, false)
+  }
+}
@@ -0,0 +1,35 @@
+export type ResampleMethod = "lanczos3" | "mitchell" | "catrom" | "triangle"
+
+export const RESAMPLE_METHODS: Record<ResampleMethod, string> = {
+  lanczos3: "Lanczos3",
+  mitchell: "Mitchell",
+  catrom: "Catmull-Rom",
+  triangle: "Triangle",
+}
+
+export const isResampleMethod = (value: unknown): value is ResampleMethod =>
+  typeof value === "string" && Object.hasOwn(RESAMPLE_METHODS, value)
+
+export interface ResampleSettings {
+  method: ResampleMethod
+  linearRGB: boolean
+  premultiply: boolean
+}
+
+export const DEFAULT_RESAMPLE_SETTINGS: ResampleSettings = {
+  method: "lanczos3",
+  linearRGB: true,
+  premultiply: true,
+}
+
+export async function resampleImageData(
+  imageData: ImageData,
+  width: number,
+  height: number,
+  { method, linearRGB, premultiply }: ResampleSettings,
+): Promise<ImageData> {
+  if (imageData.width === width && imageData.height === height) return imageData
+
+  const { default: resize } = await import("@jsquash/resize")
+  return resize(imageData, { width, height, method, linearRGB, premultiply, fitMethod: "stretch" })
+}
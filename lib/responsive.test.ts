@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest"
+import { buildPictureMarkup, planResponsiveVariants, type ResponsiveVariant } from "@/lib/responsive"
+
+const variant = (file: string, width: number, descriptor: string, mimeType = "image/avif"): ResponsiveVariant => ({
+  file,
+  width,
+  height: width / 2,
+  descriptor,
+  mimeType,
+  size: 0,
+  blob: new Blob(),
+})
+
+describe("planResponsiveVariants", () => {
+  it("merges widths and densities without upscaling", () => {
+    expect(planResponsiveVariants(1000, 400, [300, 2000], [1, 2]).map((plan) => plan.descriptor)).toEqual([
+      "300w",
+      "400w",
+      "800w",
+      "1000w",
+    ])
+  })
+
+  it("drops densities the source is too small for", () => {
+    expect(planResponsiveVariants(1000, 400, [], [1, 2, 3]).map((plan) => plan.descriptor)).toEqual(["1x", "2x"])
+  })
+
+  it("plans each width once", () => {
+    expect(planResponsiveVariants(1000, 400, [], [1, 1, 2, 2.001])).toEqual([
+      { width: 400, descriptor: "1x" },
+      { width: 800, descriptor: "2x" },
+    ])
+    expect(planResponsiveVariants(1000, 400, [1000, 1200, 1000], [2.5]).map((plan) => plan.width)).toEqual([1000])
+  })
+})
+
+describe("buildPictureMarkup", () => {
+  it("encodes file names that would split a srcset candidate", () => {
+    const markup = buildPictureMarkup(
+      [variant("Hero shot, final-400w.avif", 400, "400w"), variant("Hero shot, final-800w.avif", 800, "800w")],
+      [],
+      { sizes: "100vw", alt: "Hero" },
+    )
+    expect(markup).toContain('src="Hero%20shot%2C%20final-800w.avif"')
+    expect(markup).toContain('srcset="Hero%20shot%2C%20final-400w.avif 400w, Hero%20shot%2C%20final-800w.avif 800w"')
+  })
+
+  it("wraps modern formats in a picture with the fallback as the img", () => {
+    const markup = buildPictureMarkup(
+      [variant("a-1x.avif", 400, "1x"), variant("a-2x.avif", 800, "2x")],
+      [variant("a-1x.jpg", 400, "1x", "image/jpeg")],
+      { sizes: "50vw", alt: 'A "quote"' },
+    )
+    expect(markup.split("\n")).toEqual([
+      "<picture>",
+      '  <source type="image/avif" srcset="a-1x.avif 1x, a-2x.avif 2x">',
+      '  <img src="a-1x.jpg" srcset="a-1x.jpg 1x" width="400" height="200" alt="A &quot;quote&quot;" loading="lazy"' +
+        ' decoding="async">',
+      "</picture>",
+    ])
+  })
+})
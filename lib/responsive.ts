@@ -0,0 +1,105 @@
+export interface ResponsiveVariantPlan {
+  width: number
+  descriptor: string
+}
+
+export interface ResponsiveVariant extends ResponsiveVariantPlan {
+  height: number
+  file: string
+  mimeType: string
+  size: number
+  blob: Blob
+}
+
+export function parseNumberList(input: string): number[] {
+  return input
+    .split(/[\s,]+/)
+    .map((part) => Number.parseFloat(part.replace(/[wx]$/i, "")))
+    .filter((value) => Number.isFinite(value) && value > 0)
+}
+
+/**
+ * Widths produce `w` descriptors, with densities folded in as extra widths relative to
+ * `baseWidth`. With densities alone the set uses `x` descriptors. Variants never upscale
+ * past the source width.
+ */
+export function planResponsiveVariants(
+  sourceWidth: number,
+  baseWidth: number,
+  widths: number[],
+  densities: number[],
+): ResponsiveVariantPlan[] {
+  const clamp = (width: number) => Math.min(sourceWidth, Math.max(1, Math.round(width)))
+
+  if (widths.length > 0) {
+    const all = new Set([...widths, ...densities.map((density) => baseWidth * density)].map(clamp))
+    return [...all].sort((a, b) => a - b).map((width) => ({ width, descriptor: `${width}w` }))
+  }
+
+  // A clamped density would advertise more pixels than it has, so those are dropped instead.
+  const sorted = [...(densities.length > 0 ? densities : [1])].sort((a, b) => a - b)
+  const fitting = sorted.filter((density) => Math.round(baseWidth * density) <= sourceWidth)
+  // Files are named by width, so densities that land on the same width keep only the lowest.
+  const byWidth = new Map<number, ResponsiveVariantPlan>()
+  for (const density of fitting.length > 0 ? fitting : sorted.slice(0, 1)) {
+    const width = clamp(baseWidth * density)
+    if (!byWidth.has(width)) byWidth.set(width, { width, descriptor: `${density}x` })
+  }
+  return [...byWidth.values()]
+}
+
+const escapeAttribute = (value: string) => value.replace(/&/g, "&amp;").replace(/"/g, "&quot;")
+
+// Spaces and commas separate srcset candidates, so file names go in as URLs rather than verbatim.
+const urlOf = (variant: ResponsiveVariant) => encodeURIComponent(variant.file)
+
+const srcsetOf = (variants: ResponsiveVariant[]) =>
+  variants.map((variant) => `${urlOf(variant)} ${variant.descriptor}`).join(", ")
+
+export function buildPictureMarkup(
+  variants: ResponsiveVariant[],
+  fallbackVariants: ResponsiveVariant[],
+  { sizes, alt }: { sizes: string; alt: string },
+): string {
+  const usesWidths = variants.some((variant) => variant.descriptor.endsWith("w"))
+  const sizesAttribute = usesWidths && sizes.trim() ? ` sizes="${escapeAttribute(sizes.trim())}"` : ""
+  const imgVariants = fallbackVariants.length > 0 ? fallbackVariants : variants
+  // With `x` descriptors the 1x variant sets the layout size; with `w` the largest is the best default.
+  const main = usesWidths ? imgVariants[imgVariants.length - 1] : imgVariants[0]
+  const img =
+    `<img src="${urlOf(main)}" srcset="${srcsetOf(imgVariants)}"${sizesAttribute}` +
+    ` width="${main.width}" height="${main.height}" alt="${escapeAttribute(alt)}" loading="lazy" decoding="async">`
+
+  if (fallbackVariants.length === 0) return img
+
+  return [
+    "<picture>",
+    `  <source type="${variants[0].mimeType}" srcset="${srcsetOf(variants)}"${sizesAttribute}>`,
+    `  ${img}`,
+    "</picture>",
+  ].join("\n")
+}
+
+export function buildResponsiveManifest(
+  source: string,
+  sizes: string,
+  variants: ResponsiveVariant[],
+  fallbackVariants: ResponsiveVariant[],
+) {
+  const describe = (variant: ResponsiveVariant) => ({
+    file: variant.file,
+    type: variant.mimeType,
+    width: variant.width,
+    height: variant.height,
+    descriptor: variant.descriptor,
+    bytes: variant.size,
+  })
+
+  return {
+    source,
+    sizes,
+    variants: variants.map(describe),
+    fallback: fallbackVariants.map(describe),
+    totalBytes: [...variants, ...fallbackVariants].reduce((total, variant) => total + variant.size, 0),
+  }
+}
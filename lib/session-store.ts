@@ -0,0 +1,140 @@
+import { LocalizedError } from "@/lib/i18n"
+
+export interface SessionEntry<T> {
+  state: T
+  file: File
+  compressed?: Blob
+}
+
+export interface StorageUsage {
+  usage: number
+  quota: number
+}
+
+interface StoredEntry<T> {
+  state: T
+  fileKey: string
+  compressedKey?: string
+}
+
+const DB_NAME = "image-compressor"
+const DB_VERSION = 1
+const BLOB_STORE = "blobs"
+const SESSION_STORE = "session"
+const SESSION_KEY = "current"
+
+// Sources and encodes are stored once under their own key; the session record only
+// references them, so saving a settings change doesn't rewrite megabytes of pixels.
+const blobKeys = new WeakMap<Blob, string>()
+const storedKeys = new Set<string>()
+
+const keyOf = (blob: Blob) => {
+  let key = blobKeys.get(blob)
+  if (!key) {
+    key = crypto.randomUUID()
+    blobKeys.set(blob, key)
+  }
+  return key
+}
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+
+const completion = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new LocalizedError({ key: "errors.transactionAborted" }))
+  })
+
+let database: Promise<IDBDatabase> | null = null
+
+const openDatabase = () =>
+  (database ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(BLOB_STORE)
+      req.result.createObjectStore(SESSION_STORE)
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => {
+      database = null
+      reject(req.error)
+    }
+  }))
+
+export async function loadSession<T>(): Promise<SessionEntry<T>[]> {
+  const db = await openDatabase()
+  const tx = db.transaction([BLOB_STORE, SESSION_STORE], "readonly")
+  const blobs = tx.objectStore(BLOB_STORE)
+  // Blobs left behind by an interrupted save are deleted by the next one.
+  const keys = await request(blobs.getAllKeys())
+  keys.forEach((key) => storedKeys.add(String(key)))
+
+  const stored = await request<StoredEntry<T>[] | undefined>(tx.objectStore(SESSION_STORE).get(SESSION_KEY))
+  if (!stored) return []
+
+  const load = async (key: string) => {
+    const blob = await request<Blob | undefined>(blobs.get(key))
+    if (blob) {
+      blobKeys.set(blob, key)
+      storedKeys.add(key)
+    }
+    return blob
+  }
+
+  const entries = await Promise.all(
+    stored.map(async ({ state, fileKey, compressedKey }) => {
+      const file = await load(fileKey)
+      if (!(file instanceof File)) return null
+      return { state, file, compressed: compressedKey ? await load(compressedKey) : undefined }
+    }),
+  )
+  return entries.filter((entry) => entry !== null)
+}
+
+export async function saveSession<T>(entries: SessionEntry<T>[]): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction([BLOB_STORE, SESSION_STORE], "readwrite")
+  const blobs = tx.objectStore(BLOB_STORE)
+  const referenced = new Set<string>()
+
+  const store = (blob: Blob) => {
+    const key = keyOf(blob)
+    referenced.add(key)
+    if (!storedKeys.has(key)) blobs.put(blob, key)
+    return key
+  }
+
+  const stored: StoredEntry<T>[] = entries.map(({ state, file, compressed }) => ({
+    state,
+    fileKey: store(file),
+    compressedKey: compressed ? store(compressed) : undefined,
+  }))
+  tx.objectStore(SESSION_STORE).put(stored, SESSION_KEY)
+
+  const orphaned = [...storedKeys].filter((key) => !referenced.has(key))
+  orphaned.forEach((key) => blobs.delete(key))
+
+  await completion(tx)
+  referenced.forEach((key) => storedKeys.add(key))
+  orphaned.forEach((key) => storedKeys.delete(key))
+}
+
+export async function clearSession(): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction([BLOB_STORE, SESSION_STORE], "readwrite")
+  tx.objectStore(BLOB_STORE).clear()
+  tx.objectStore(SESSION_STORE).clear()
+  await completion(tx)
+  storedKeys.clear()
+}
+
+export async function estimateStorage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+  return { usage, quota }
+}
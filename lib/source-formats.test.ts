@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest"
+import { detectSourceFormat } from "@/lib/source-formats"
+
+const codes = (text: string) => Array.from(text, (char) => char.charCodeAt(0))
+
+const bytesOf = (...parts: (string | number[])[]) =>
+  new Uint8Array(parts.flatMap((part) => (typeof part === "string" ? codes(part) : part))).buffer
+
+describe("detectSourceFormat", () => {
+  it("recognises the codec formats by their signatures", () => {
+    expect(detectSourceFormat(bytesOf([0xff, 0xd8, 0xff, 0xe0]))).toBe("jpeg")
+    expect(detectSourceFormat(bytesOf([0x89], "PNG\r\n\x1a\n", [0, 0, 0, 13]))).toBe("png")
+    expect(detectSourceFormat(bytesOf("RIFF", [0, 0, 0, 0], "WEBPVP8 "))).toBe("webp")
+    expect(detectSourceFormat(bytesOf([0, 0, 0, 0x18], "ftypavif", [0, 0, 0, 0], "mif1miaf"))).toBe("avif")
+  })
+
+  it("tells HEIC from AVIF by the ftyp brands", () => {
+    expect(detectSourceFormat(bytesOf([0, 0, 0, 0x18], "ftypheic", [0, 0, 0, 0], "mif1heic"))).toBe("heic")
+    expect(detectSourceFormat(bytesOf([0, 0, 0, 0x18], "ftypmif1", [0, 0, 0, 0], "mif1avif"))).toBe("avif")
+  })
+
+  it("returns null for anything else", () => {
+    expect(detectSourceFormat(bytesOf("hello world!"))).toBeNull()
+    expect(detectSourceFormat(new ArrayBuffer(0))).toBeNull()
+  })
+})
@@ -0,0 +1,115 @@
+import { readTiffTagBytes } from "@/lib/exif"
+
+export type SourceFormat = "jpeg" | "png" | "webp" | "avif" | "jxl" | "heic" | "tiff" | "dng" | "raw" | "gif" | "bmp"
+
+/**
+ * Which decoder handles a format: the jsquash codecs, libheif, UTIF, LibRaw or, for
+ * formats nothing else covers, the browser itself.
+ */
+export type SourceDecoder = "codec" | "heif" | "tiff" | "raw" | "browser"
+
+export interface SourceFormatInfo {
+  label: string
+  mimeTypes: string[]
+  extensions: string[]
+  decoder: SourceDecoder
+  /** True when the decoder already returns upright pixels, so the EXIF orientation must not be applied again. */
+  orients: boolean
+}
+
+export const SOURCE_FORMATS: Record<SourceFormat, SourceFormatInfo> = {
+  jpeg: { label: "JPEG", mimeTypes: ["image/jpeg"], extensions: ["jpg", "jpeg", "jfif"], decoder: "codec", orients: false },
+  png: { label: "PNG", mimeTypes: ["image/png"], extensions: ["png"], decoder: "codec", orients: false },
+  webp: { label: "WebP", mimeTypes: ["image/webp"], extensions: ["webp"], decoder: "codec", orients: false },
+  avif: { label: "AVIF", mimeTypes: ["image/avif"], extensions: ["avif"], decoder: "codec", orients: false },
+  jxl: { label: "JPEG XL", mimeTypes: ["image/jxl"], extensions: ["jxl"], decoder: "codec", orients: false },
+  heic: {
+    label: "HEIC",
+    mimeTypes: ["image/heic", "image/heif", "image/heic-sequence", "image/heif-sequence"],
+    extensions: ["heic", "heif", "hif"],
+    decoder: "heif",
+    orients: true,
+  },
+  tiff: { label: "TIFF", mimeTypes: ["image/tiff"], extensions: ["tif", "tiff"], decoder: "tiff", orients: false },
+  dng: { label: "DNG", mimeTypes: ["image/x-adobe-dng", "image/dng"], extensions: ["dng"], decoder: "raw", orients: true },
+  raw: {
+    label: "RAW",
+    mimeTypes: [
+      "image/x-canon-cr2",
+      "image/x-canon-cr3",
+      "image/x-nikon-nef",
+      "image/x-sony-arw",
+      "image/x-fuji-raf",
+      "image/x-olympus-orf",
+      "image/x-panasonic-rw2",
+      "image/x-pentax-pef",
+      "image/x-samsung-srw",
+    ],
+    extensions: ["cr2", "cr3", "nef", "nrw", "arw", "raf", "orf", "rw2", "pef", "srw"],
+    decoder: "raw",
+    orients: true,
+  },
+  gif: { label: "GIF", mimeTypes: ["image/gif"], extensions: ["gif"], decoder: "browser", orients: true },
+  bmp: { label: "BMP", mimeTypes: ["image/bmp"], extensions: ["bmp"], decoder: "browser", orients: true },
+}
+
+const HEIF_BRANDS = ["heic", "heix", "hevc", "hevx", "heim", "heis", "hevm", "hevs", "mif1", "msf1"]
+
+/** The value for `<input accept>`: every MIME type and extension we can decode. */
+export const ACCEPTED_INPUT_TYPES = Object.values(SOURCE_FORMATS)
+  .flatMap(({ mimeTypes, extensions }) => [...mimeTypes, ...extensions.map((extension) => `.${extension}`)])
+  .join(",")
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length))
+
+const readBrands = (bytes: Uint8Array) => {
+  const size = Math.min(bytes.length, (bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3])
+  const brands = [ascii(bytes, 8, 4)]
+  for (let p = 16; p + 4 <= size; p += 4) brands.push(ascii(bytes, p, 4))
+  return brands
+}
+
+const detectTiffFamily = (bytes: Uint8Array): SourceFormat => {
+  if (ascii(bytes, 8, 2) === "CR") return "raw"
+  if (readTiffTagBytes(bytes, 0xc612)) return "dng" // DNGVersion
+  // Camera raws built on TIFF (NEF, ARW, PEF…) keep the sensor data in SubIFDs.
+  if (readTiffTagBytes(bytes, 0x014a)) return "raw"
+  return "tiff"
+}
+
+/** Identifies the input from its magic bytes; file names and MIME types are not trusted. */
+export function detectSourceFormat(buffer: ArrayBuffer): SourceFormat | null {
+  const bytes = new Uint8Array(buffer)
+  const head = ascii(bytes, 0, 16)
+
+  if (head.startsWith("\xff\xd8\xff")) return "jpeg"
+  if (head.startsWith("\x89PNG\r\n\x1a\n")) return "png"
+  if (head.startsWith("RIFF") && head.slice(8, 12) === "WEBP") return "webp"
+  if (bytes.length < 12) return null
+
+  if (bytes[0] === 0xff && bytes[1] === 0x0a) return "jxl"
+  if (head.startsWith("\0\0\0\x0cJXL ")) return "jxl"
+  if (head.slice(4, 8) === "ftyp") {
+    const brands = readBrands(bytes.subarray(0, 64))
+    if (brands.includes("avif") || brands.includes("avis")) return "avif"
+    if (brands.includes("crx ")) return "raw"
+    if (brands.some((brand) => HEIF_BRANDS.includes(brand))) return "heic"
+    return null
+  }
+  if (head.startsWith("GIF87a") || head.startsWith("GIF89a")) return "gif"
+  if (head.startsWith("BM")) return "bmp"
+  if (head.startsWith("FUJIFILMCCD-RAW")) return "raw"
+  if (["IIRO", "IIRS", "MMOR", "IIU\0"].includes(head.slice(0, 4))) return "raw"
+  if (head.startsWith("II*\0") || head.startsWith("MM\0*")) return detectTiffFamily(bytes)
+  return null
+}
+
+const extensionOf = (name: string) => (name.includes(".") ? name.slice(name.lastIndexOf(".") + 1).toLowerCase() : "")
+
+/** Whether a dropped or picked file looks like something we can decode. RAW files often arrive without a MIME type. */
+export function isAcceptedFile(file: File) {
+  return Object.values(SOURCE_FORMATS).some(
+    ({ mimeTypes, extensions }) => mimeTypes.includes(file.type) || extensions.includes(extensionOf(file.name)),
+  )
+}
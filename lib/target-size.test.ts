@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest"
+import { searchTargetSize } from "@/lib/target-size"
+
+// Output bytes grow linearly with quality and with the pixel count.
+const encoder = (bytesAt: (quality: number) => number) => {
+  const calls: { quality: number; scale: number }[] = []
+  const encodeAt = async (quality: number, scale: number) => {
+    calls.push({ quality, scale })
+    return { byteLength: Math.round(bytesAt(quality) * scale * scale) }
+  }
+  return { calls, encodeAt }
+}
+
+describe("searchTargetSize", () => {
+  it("finds the highest quality that fits", async () => {
+    const { calls, encodeAt } = encoder((quality) => quality * 1000)
+    const result = await searchTargetSize(encodeAt, { targetBytes: 42_500, allowDownscale: false })
+    expect(result).toMatchObject({ quality: 42, scale: 1, met: true, output: { byteLength: 42_000 } })
+    expect(result.passes).toBe(calls.length)
+    expect(calls.length).toBeLessThanOrEqual(7)
+  })
+
+  it("keeps the maximum quality when everything fits", async () => {
+    const { encodeAt } = encoder((quality) => quality)
+    const result = await searchTargetSize(encodeAt, { targetBytes: 1000, allowDownscale: false })
+    expect(result).toMatchObject({ quality: 100, met: true })
+  })
+
+  it("respects the quality bounds", async () => {
+    const { calls, encodeAt } = encoder((quality) => quality * 1000)
+    const result = await searchTargetSize(encodeAt, {
+      targetBytes: 90_000,
+      allowDownscale: false,
+      minQuality: 20,
+      maxQuality: 60,
+    })
+    expect(result.quality).toBe(60)
+    expect(calls.every(({ quality }) => quality >= 20 && quality <= 60)).toBe(true)
+  })
+
+  it("returns the minimum quality output, unmet, when it can't shrink", async () => {
+    const { encodeAt } = encoder((quality) => 50_000 + quality * 100)
+    const result = await searchTargetSize(encodeAt, { targetBytes: 10_000, allowDownscale: false })
+    expect(result).toMatchObject({ quality: 1, scale: 1, met: false, output: { byteLength: 50_100 } })
+  })
+
+  it("downscales until the target fits", async () => {
+    const { calls, encodeAt } = encoder((quality) => 50_000 + quality * 100)
+    const result = await searchTargetSize(encodeAt, { targetBytes: 10_000, allowDownscale: true })
+    expect(result.met).toBe(true)
+    expect(result.scale).toBeLessThan(1)
+    expect(result.output.byteLength).toBeLessThanOrEqual(10_000)
+    expect(new Set(calls.map(({ scale }) => scale)).size).toBeGreaterThan(1)
+  })
+
+  it("stops at the minimum scale", async () => {
+    const { calls, encodeAt } = encoder(() => 1_000_000_000)
+    const result = await searchTargetSize(encodeAt, { targetBytes: 10, allowDownscale: true, minScale: 0.25 })
+    expect(result.met).toBe(false)
+    expect(result.scale).toBe(0.25)
+    expect(calls.every(({ scale }) => scale >= 0.25)).toBe(true)
+  })
+})
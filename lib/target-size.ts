@@ -0,0 +1,64 @@
+export interface TargetSizeOptions {
+  targetBytes: number
+  allowDownscale: boolean
+  minQuality?: number
+  maxQuality?: number
+  minScale?: number
+  maxDownscaleSteps?: number
+}
+
+export interface TargetSizeResult<T> {
+  output: T
+  quality: number
+  scale: number
+  passes: number
+  met: boolean
+}
+
+/**
+ * Binary-searches the highest quality whose output fits in `targetBytes`. When even the
+ * minimum quality is too large and downscaling is allowed, shrinks the image by the
+ * estimated area ratio and searches again.
+ */
+export async function searchTargetSize<T extends { byteLength: number }>(
+  encodeAt: (quality: number, scale: number) => Promise<T>,
+  {
+    targetBytes,
+    allowDownscale,
+    minQuality = 1,
+    maxQuality = 100,
+    minScale = 0.1,
+    maxDownscaleSteps = 4,
+  }: TargetSizeOptions,
+): Promise<TargetSizeResult<T>> {
+  let scale = 1
+  let passes = 0
+  let smallest: T | null = null
+
+  for (let step = 0; step <= maxDownscaleSteps; step++) {
+    let low = minQuality
+    let high = maxQuality
+    let best: { output: T; quality: number } | null = null
+
+    while (low <= high) {
+      const quality = Math.floor((low + high) / 2)
+      const output = await encodeAt(quality, scale)
+      passes++
+
+      if (output.byteLength <= targetBytes) {
+        best = { output, quality }
+        low = quality + 1
+      } else {
+        if (quality === minQuality) smallest = output
+        high = quality - 1
+      }
+    }
+
+    if (best) return { ...best, scale, passes, met: true }
+    if (!allowDownscale || scale <= minScale || !smallest) break
+
+    scale = Math.max(minScale, scale * Math.sqrt(targetBytes / smallest.byteLength) * 0.9)
+  }
+
+  return { output: smallest!, quality: minQuality, scale, passes, met: false }
+}
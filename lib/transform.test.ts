@@ -0,0 +1,159 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { applyTransforms, transformImageData, type ImageTransform } from "@/lib/transform"
+
+// Each pixel's red channel holds its index, so a result reads back as the source positions it came from.
+const image = (width: number, height: number) => {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let i = 0; i < width * height; i++) data.set([i, 0, 0, 255], i * 4)
+  return new ImageData(data, width, height)
+}
+
+const pixels = ({ data, width, height }: ImageData) =>
+  Array.from({ length: height }, (_, y) => Array.from({ length: width }, (_, x) => data[(y * width + x) * 4]))
+
+const transform = (patch: Partial<ImageTransform>): ImageTransform => ({
+  rotation: 0,
+  flipH: false,
+  flipV: false,
+  ...patch,
+})
+
+describe("transformImageData", () => {
+  // 0 1 2
+  // 3 4 5
+  const source = image(3, 2)
+
+  it("returns the input untouched for the identity transform", () => {
+    expect(transformImageData(source, transform({}))).toBe(source)
+  })
+
+  it("turns clockwise in quarter turns", () => {
+    expect(pixels(transformImageData(source, transform({ rotation: 90 })))).toEqual([
+      [3, 0],
+      [4, 1],
+      [5, 2],
+    ])
+    expect(pixels(transformImageData(source, transform({ rotation: 180 })))).toEqual([
+      [5, 4, 3],
+      [2, 1, 0],
+    ])
+    expect(pixels(transformImageData(source, transform({ rotation: -90 })))).toEqual([
+      [2, 5],
+      [1, 4],
+      [0, 3],
+    ])
+  })
+
+  it("flips horizontally and vertically", () => {
+    expect(pixels(transformImageData(source, transform({ flipH: true })))).toEqual([
+      [2, 1, 0],
+      [5, 4, 3],
+    ])
+    expect(pixels(transformImageData(source, transform({ flipV: true })))).toEqual([
+      [3, 4, 5],
+      [0, 1, 2],
+    ])
+    expect(pixels(transformImageData(source, transform({ flipH: true, flipV: true })))).toEqual([
+      [5, 4, 3],
+      [2, 1, 0],
+    ])
+  })
+
+  it("flips before rotating", () => {
+    expect(pixels(transformImageData(source, transform({ rotation: 90, flipH: true })))).toEqual([
+      [5, 2],
+      [4, 1],
+      [3, 0],
+    ])
+  })
+
+  it("crops in the rotated image's coordinates", () => {
+    expect(pixels(transformImageData(source, transform({ crop: { x: 1, y: 0, width: 2, height: 2 } })))).toEqual([
+      [1, 2],
+      [4, 5],
+    ])
+    expect(
+      pixels(transformImageData(source, transform({ rotation: 90, crop: { x: 0, y: 1, width: 2, height: 2 } }))),
+    ).toEqual([
+      [4, 1],
+      [5, 2],
+    ])
+  })
+
+  it("clamps a crop that spills outside the image", () => {
+    expect(
+      pixels(transformImageData(source, transform({ crop: { x: -3, y: 1.4, width: 10, height: 10 } }))),
+    ).toEqual([[3, 4, 5]])
+    expect(pixels(transformImageData(source, transform({ crop: { x: 10, y: 10, width: 5, height: 5 } })))).toEqual([
+      [5],
+    ])
+  })
+
+  it("keeps at least one pixel of an empty crop", () => {
+    expect(pixels(transformImageData(source, transform({ crop: { x: 1, y: 0, width: 0, height: 0.2 } })))).toEqual([
+      [1],
+    ])
+  })
+
+  describe("with a fine angle", () => {
+    const canvases: { width: number; height: number; read?: number[] }[] = []
+
+    class FakeCanvas {
+      private readonly record: { width: number; height: number; read?: number[] }
+
+      constructor(width: number, height: number) {
+        this.record = { width, height }
+        canvases.push(this.record)
+      }
+
+      getContext() {
+        return {
+          putImageData: () => {},
+          translate: () => {},
+          rotate: () => {},
+          drawImage: () => {},
+          getImageData: (x: number, y: number, width: number, height: number) => {
+            this.record.read = [x, y, width, height]
+            return new ImageData(width, height)
+          },
+        }
+      }
+    }
+
+    afterEach(() => {
+      canvases.length = 0
+      vi.unstubAllGlobals()
+    })
+
+    it("draws into the crop clamped to the rotated bounds", () => {
+      vi.stubGlobal("OffscreenCanvas", FakeCanvas)
+      // 3 × 2 turned by 10° has a bounding box of about 3.3 × 2.5.
+      const result = transformImageData(source, transform({ rotation: 10, crop: { x: -1, y: 1, width: 9, height: 9 } }))
+      expect(result.width).toBe(4)
+      expect(result.height).toBe(2)
+      expect(canvases.at(-1)).toEqual({ width: 4, height: 2, read: [0, 0, 4, 2] })
+    })
+
+    it("keeps the whole rotated bounds without a crop", () => {
+      vi.stubGlobal("OffscreenCanvas", FakeCanvas)
+      const result = transformImageData(source, transform({ rotation: 100 }))
+      // The quarter turn is exact, so only the remaining 10° goes through the canvas: 2 × 3 becomes about 2.5 × 3.3.
+      expect(canvases[0]).toMatchObject({ width: 2, height: 3 })
+      expect([result.width, result.height]).toEqual([3, 4])
+    })
+  })
+})
+
+describe("applyTransforms", () => {
+  it("returns the input when there are no edits", () => {
+    const source = image(2, 2)
+    expect(applyTransforms(source, [])).toBe(source)
+  })
+
+  it("replays the edits in order", () => {
+    const source = image(3, 2)
+    const edits = [transform({ rotation: 90 }), transform({ crop: { x: 0, y: 0, width: 1, height: 3 } })]
+    expect(pixels(applyTransforms(source, edits))).toEqual([[3], [4], [5]])
+    expect(pixels(applyTransforms(source, [...edits].reverse()))).toEqual([[3, 0]])
+  })
+})
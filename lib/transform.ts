@@ -0,0 +1,105 @@
+import { LocalizedError } from "@/lib/i18n"
+import { applyOrientation } from "@/lib/orientation"
+
+export interface CropArea {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface ImageTransform {
+  /** Clockwise rotation in degrees: the quarter turns plus the fine straightening angle. */
+  rotation: number
+  flipH: boolean
+  flipV: boolean
+  /** In pixels of the rotated image's bounding box, which is what react-easy-crop reports. */
+  crop?: CropArea
+}
+
+export const IDENTITY_TRANSFORM: ImageTransform = { rotation: 0, flipH: false, flipV: false }
+
+// EXIF orientations for 0/90/180/270° clockwise, without and with a horizontal flip first.
+const ORIENTATIONS = [1, 6, 3, 8]
+const FLIPPED_ORIENTATIONS = [2, 7, 4, 5]
+
+const get2dContext = (canvas: OffscreenCanvas) => {
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new LocalizedError({ key: "errors.canvasContext" })
+  return ctx
+}
+
+export function rotatedSize(width: number, height: number, rotation: number) {
+  const radians = (rotation * Math.PI) / 180
+  return {
+    width: Math.abs(Math.cos(radians) * width) + Math.abs(Math.sin(radians) * height),
+    height: Math.abs(Math.sin(radians) * width) + Math.abs(Math.cos(radians) * height),
+  }
+}
+
+/**
+ * Splits a transform into the lossless part (quarter turns and flips, done by remapping
+ * pixels) and the fine angle left over, which needs resampling.
+ */
+const splitRotation = ({ rotation, flipH, flipV }: ImageTransform) => {
+  const quarters = Math.round(rotation / 90)
+  const fine = rotation - quarters * 90
+  // A vertical flip is a horizontal flip followed by half a turn.
+  const turns = (((quarters + (flipV ? 2 : 0)) % 4) + 4) % 4
+  const orientation = (flipH !== flipV ? FLIPPED_ORIENTATIONS : ORIENTATIONS)[turns]
+  return { orientation, fine }
+}
+
+const clampCrop = (crop: CropArea, width: number, height: number): CropArea => {
+  const x = Math.min(Math.max(0, Math.round(crop.x)), width - 1)
+  const y = Math.min(Math.max(0, Math.round(crop.y)), height - 1)
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(Math.round(crop.width), width - x)),
+    height: Math.max(1, Math.min(Math.round(crop.height), height - y)),
+  }
+}
+
+const cropPixels = (imageData: ImageData, crop: CropArea) => {
+  const { x, y, width, height } = clampCrop(crop, imageData.width, imageData.height)
+  const output = new Uint8ClampedArray(width * height * 4)
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * imageData.width + x) * 4
+    output.set(imageData.data.subarray(start, start + width * 4), row * width * 4)
+  }
+  return new ImageData(output, width, height)
+}
+
+/**
+ * Applies rotation, flips and crop at the full resolution of the input. Quarter turns and
+ * flips are exact; only a fine angle goes through the canvas, drawn straight into the crop.
+ */
+export function transformImageData(imageData: ImageData, transform: ImageTransform): ImageData {
+  const { orientation, fine } = splitRotation(transform)
+  const turned = applyOrientation(imageData, orientation)
+
+  if (Math.abs(fine) < 0.01) return transform.crop ? cropPixels(turned, transform.crop) : turned
+
+  const bounds = rotatedSize(turned.width, turned.height, fine)
+  // Rounding up keeps the corners the rotation pushes into a partial pixel.
+  const width = Math.ceil(bounds.width)
+  const height = Math.ceil(bounds.height)
+  const crop = clampCrop(transform.crop ?? { x: 0, y: 0, width, height }, width, height)
+
+  const source = new OffscreenCanvas(turned.width, turned.height)
+  get2dContext(source).putImageData(turned, 0, 0)
+
+  const canvas = new OffscreenCanvas(crop.width, crop.height)
+  const ctx = get2dContext(canvas)
+  ctx.imageSmoothingQuality = "high"
+  ctx.translate(bounds.width / 2 - crop.x, bounds.height / 2 - crop.y)
+  ctx.rotate((fine * Math.PI) / 180)
+  ctx.drawImage(source, -turned.width / 2, -turned.height / 2)
+  return ctx.getImageData(0, 0, crop.width, crop.height)
+}
+
+/** Replays an edit history in order. Callers start from the decoded source, so edits never stack re-encodes. */
+export function applyTransforms(imageData: ImageData, transforms: ImageTransform[]): ImageData {
+  return transforms.reduce(transformImageData, imageData)
+}
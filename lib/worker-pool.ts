@@ -0,0 +1,287 @@
+import type { AnimationInfo, AnimationSettings } from "@/lib/animation"
+import { LocalizedError, type LocalizedMessage } from "@/lib/i18n"
+import type { MetadataSettings } from "@/lib/metadata"
+import type { QualityMetrics } from "@/lib/metrics"
+import type { TileRect } from "@/lib/image-limits"
+import type { EncoderSettings, OutputFormat } from "@/lib/output-formats"
+import type { ResampleSettings } from "@/lib/resampling"
+import type { ImageTransform } from "@/lib/transform"
+
+export interface RawImage {
+  data: ArrayBuffer
+  width: number
+  height: number
+}
+
+export interface EncodedImage {
+  buffer: ArrayBuffer
+  width: number
+  height: number
+}
+
+export interface DecodeJob {
+  type: "decode"
+  file: Blob
+}
+
+export interface ResizeJob {
+  type: "resize"
+  image: RawImage
+  resample: ResampleSettings
+  width?: number
+  height?: number
+}
+
+export interface EncodeJob {
+  type: "encode"
+  image: RawImage
+  encoder: EncoderSettings
+}
+
+export interface CompressJob {
+  type: "compress"
+  file: Blob
+  encoder: EncoderSettings
+  resample: ResampleSettings
+  metadata: MetadataSettings
+  width?: number
+  height?: number
+  edits: ImageTransform[]
+  maxPixels?: number
+  /** Compresses one tile of the upright source; the edits and size are then left out. */
+  region?: TileRect
+}
+
+export interface CompressToSizeJob {
+  type: "compress-to-size"
+  file: Blob
+  targetBytes: number
+  allowDownscale: boolean
+  encoder: EncoderSettings
+  resample: ResampleSettings
+  metadata: MetadataSettings
+  width?: number
+  height?: number
+  edits: ImageTransform[]
+  maxPixels?: number
+}
+
+export interface TargetSizeEncodedImage extends EncodedImage {
+  quality: number
+  passes: number
+  met: boolean
+}
+
+export interface MetricsJob {
+  type: "metrics"
+  source: Blob
+  encoded: Blob
+  format: OutputFormat
+  resample: ResampleSettings
+  metadata: MetadataSettings
+  edits: ImageTransform[]
+  maxPixels?: number
+}
+
+export interface TransformJob {
+  type: "transform"
+  file: Blob
+  edits: ImageTransform[]
+  maxPixels?: number
+}
+
+export interface InspectAnimationJob {
+  type: "inspect-animation"
+  file: Blob
+}
+
+export interface CompressAnimationJob {
+  type: "compress-animation"
+  file: Blob
+  encoder: EncoderSettings
+  resample: ResampleSettings
+  animation: AnimationSettings
+  width?: number
+  height?: number
+  edits: ImageTransform[]
+}
+
+export type WorkerJob =
+  | DecodeJob
+  | ResizeJob
+  | EncodeJob
+  | CompressJob
+  | CompressToSizeJob
+  | MetricsJob
+  | TransformJob
+  | InspectAnimationJob
+  | CompressAnimationJob
+
+export interface WorkerJobResults {
+  decode: RawImage
+  resize: RawImage
+  encode: EncodedImage
+  compress: EncodedImage
+  "compress-to-size": TargetSizeEncodedImage
+  metrics: QualityMetrics
+  transform: EncodedImage
+  "inspect-animation": AnimationInfo
+  "compress-animation": EncodedImage
+}
+
+export type WorkerRequest = { id: number; job: WorkerJob }
+
+export type WorkerResponse =
+  | { id: number; ok: true; result: WorkerJobResults[WorkerJob["type"]] }
+  | { id: number; ok: false; error: LocalizedMessage | string }
+
+export interface RunOptions {
+  transfer?: Transferable[]
+  /** Aborting drops a queued job, or terminates the worker running it; either way the promise rejects with the reason. */
+  signal?: AbortSignal
+}
+
+interface PendingTask {
+  id: number
+  job: WorkerJob
+  transfer: Transferable[]
+  resolve: (result: WorkerJobResults[WorkerJob["type"]]) => void
+  reject: (error: unknown) => void
+}
+
+export class WorkerPool {
+  private readonly size: number
+  private readonly workers: Worker[] = []
+  private readonly idle: Worker[] = []
+  private readonly queue: PendingTask[] = []
+  private readonly running = new Map<Worker, PendingTask>()
+  private nextId = 1
+
+  constructor(size: number) {
+    this.size = Math.max(1, size)
+  }
+
+  run<J extends WorkerJob>(job: J, { transfer = [], signal }: RunOptions = {}): Promise<WorkerJobResults[J["type"]]> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
+
+      const onAbort = () => this.abort(task, signal!.reason)
+      const task: PendingTask = {
+        id: this.nextId++,
+        job,
+        transfer,
+        resolve: (result) => {
+          signal?.removeEventListener("abort", onAbort)
+          // The worker answers with the result type of the job it was sent.
+          resolve(result as WorkerJobResults[J["type"]])
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort)
+          reject(error)
+        },
+      }
+      signal?.addEventListener("abort", onAbort, { once: true })
+      this.queue.push(task)
+      this.dispatch()
+    })
+  }
+
+  terminate() {
+    for (const worker of this.workers) {
+      worker.terminate()
+    }
+    for (const task of [...this.running.values(), ...this.queue]) {
+      task.reject(new LocalizedError({ key: "errors.poolClosed" }))
+    }
+    this.workers.length = 0
+    this.idle.length = 0
+    this.queue.length = 0
+    this.running.clear()
+  }
+
+  private dispatch() {
+    while (this.queue.length > 0) {
+      const worker = this.idle.pop() ?? this.spawn()
+      if (!worker) return
+
+      const task = this.queue.shift()!
+      this.running.set(worker, task)
+      const request: WorkerRequest = { id: task.id, job: task.job }
+      worker.postMessage(request, task.transfer)
+    }
+  }
+
+  private spawn(): Worker | undefined {
+    if (this.workers.length >= this.size) return undefined
+
+    const worker = new Worker(new URL("./workers/compress.worker.ts", import.meta.url), { type: "module" })
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.settle(worker, event.data)
+    worker.onerror = (event) => {
+      event.preventDefault()
+      this.crash(worker, event.message)
+    }
+    this.workers.push(worker)
+    return worker
+  }
+
+  private settle(worker: Worker, response: WorkerResponse) {
+    const task = this.running.get(worker)
+    if (!task || task.id !== response.id) return
+
+    this.running.delete(worker)
+    this.idle.push(worker)
+
+    if (response.ok) {
+      task.resolve(response.result)
+    } else {
+      const { error } = response
+      task.reject(typeof error === "string" ? new Error(error) : new LocalizedError(error))
+    }
+    this.dispatch()
+  }
+
+  private crash(worker: Worker, message: string) {
+    const task = this.running.get(worker)
+    this.retire(worker)
+    task?.reject(message ? new Error(message) : new LocalizedError({ key: "errors.workerCrashed" }))
+    this.dispatch()
+  }
+
+  // The wasm codecs can't be interrupted mid-encode, so a running job is stopped by
+  // terminating its worker; the next dispatch spawns a fresh one.
+  private abort(task: PendingTask, reason: unknown) {
+    const queued = this.queue.indexOf(task)
+    if (queued !== -1) {
+      this.queue.splice(queued, 1)
+      task.reject(reason)
+      return
+    }
+
+    const worker = [...this.running].find(([, running]) => running === task)?.[0]
+    if (!worker) return
+    this.retire(worker)
+    task.reject(reason)
+    this.dispatch()
+  }
+
+  private retire(worker: Worker) {
+    this.running.delete(worker)
+    worker.terminate()
+    this.workers.splice(this.workers.indexOf(worker), 1)
+    if (this.idle.includes(worker)) {
+      this.idle.splice(this.idle.indexOf(worker), 1)
+    }
+  }
+}
+
+let sharedPool: WorkerPool | null = null
+
+export function getWorkerPool(): WorkerPool {
+  if (!sharedPool) {
+    sharedPool = new WorkerPool(navigator.hardwareConcurrency || 4)
+  }
+  return sharedPool
+}
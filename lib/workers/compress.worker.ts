@@ -0,0 +1,156 @@
+import {
+  ANIMATED_OUTPUT_FORMAT,
+  frameToImageData,
+  inspectAnimation,
+  isKeptFrame,
+  muxAnimatedWebp,
+  openAnimation,
+  readFrameDuration,
+  type AnimatedWebpFrame,
+} from "@/lib/animation"
+import { decodeImageData, encodeImageData } from "@/lib/encoders"
+import { LocalizedError } from "@/lib/i18n"
+import { DEFAULT_METADATA_SETTINGS } from "@/lib/metadata"
+import { computeQualityMetrics, type QualityMetrics } from "@/lib/metrics"
+import { compressImage, decodeStep, encodeStep, transformStep } from "@/lib/pipeline"
+import { DEFAULT_RESAMPLE_SETTINGS } from "@/lib/resampling"
+import type {
+  RawImage,
+  EncodedImage,
+  CompressAnimationJob,
+  CompressJob,
+  CompressToSizeJob,
+  MetricsJob,
+  TargetSizeEncodedImage,
+  TransformJob,
+  WorkerJob,
+  WorkerJobResults,
+  WorkerRequest,
+  WorkerResponse,
+} from "@/lib/worker-pool"
+
+const toRawImage = (imageData: ImageData): RawImage => ({
+  data: imageData.data.buffer as ArrayBuffer,
+  width: imageData.width,
+  height: imageData.height,
+})
+
+const toImageData = (image: RawImage) => new ImageData(new Uint8ClampedArray(image.data), image.width, image.height)
+
+const compress = async (job: CompressJob): Promise<EncodedImage> => {
+  const { buffer, width, height } = await compressImage(await job.file.arrayBuffer(), job)
+  return { buffer, width, height }
+}
+
+const compressToSize = async ({ targetBytes, allowDownscale, ...job }: CompressToSizeJob): Promise<TargetSizeEncodedImage> => {
+  const { buffer, width, height, quality, passes, met } = await compressImage(await job.file.arrayBuffer(), {
+    ...job,
+    targetSize: { bytes: targetBytes, allowDownscale },
+  })
+  return { buffer, width, height, quality, passes, met }
+}
+
+const measure = async (job: MetricsJob): Promise<QualityMetrics> => {
+  const candidate = await decodeImageData(await job.encoded.arrayBuffer(), job.format)
+  const { imageData } = await decodeStep(await job.source.arrayBuffer(), job)
+  const reference = await transformStep(imageData, { ...job, width: candidate.width, height: candidate.height })
+  return computeQualityMetrics(reference, candidate)
+}
+
+// Renders the edited image as a lossless PNG for the card preview and the crop dialog.
+// Compression never reads it back; it replays the edits on the source instead.
+const transform = async (job: TransformJob): Promise<EncodedImage> => {
+  const { imageData } = await decodeStep(await job.file.arrayBuffer(), {
+    metadata: DEFAULT_METADATA_SETTINGS,
+    maxPixels: job.maxPixels,
+  })
+  const output = await transformStep(imageData, { edits: job.edits, resample: DEFAULT_RESAMPLE_SETTINGS })
+  const canvas = new OffscreenCanvas(output.width, output.height)
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new LocalizedError({ key: "errors.canvasContext" })
+  ctx.putImageData(output, 0, 0)
+  const blob = await canvas.convertToBlob({ type: "image/png" })
+  return { buffer: await blob.arrayBuffer(), width: output.width, height: output.height }
+}
+
+/**
+ * Encodes every kept frame as a still WebP and muxes them into one animation. Frames are
+ * decoded, edited, resized and encoded one at a time, so only one full frame is in memory.
+ */
+const compressAnimation = async (job: CompressAnimationJob): Promise<EncodedImage> => {
+  const source = await openAnimation(await job.file.arrayBuffer())
+  const encoder = { ...job.encoder, format: ANIMATED_OUTPUT_FORMAT }
+  const frames: AnimatedWebpFrame[] = []
+
+  try {
+    for (let index = 0; index < source.frameCount; index++) {
+      const frame = await source.readFrame(index)
+      const duration = readFrameDuration(frame)
+      if (!isKeptFrame(index, job.animation.frameStep)) {
+        frame.close()
+        frames[frames.length - 1].duration += duration
+        continue
+      }
+
+      let imageData: ImageData
+      try {
+        imageData = frameToImageData(frame)
+      } finally {
+        frame.close()
+      }
+      const resized = await transformStep(imageData, job)
+      const webp = await encodeImageData(resized, encoder)
+      frames.push({ webp, width: resized.width, height: resized.height, duration })
+    }
+  } finally {
+    source.close()
+  }
+
+  const buffer = muxAnimatedWebp(frames, job.animation.loopCount ?? source.loopCount)
+  return { buffer: buffer.buffer as ArrayBuffer, width: frames[0].width, height: frames[0].height }
+}
+
+const runJob = async (job: WorkerJob): Promise<WorkerJobResults[WorkerJob["type"]]> => {
+  switch (job.type) {
+    case "decode":
+      return toRawImage((await decodeStep(await job.file.arrayBuffer(), { metadata: DEFAULT_METADATA_SETTINGS })).imageData)
+    case "resize":
+      return toRawImage(await transformStep(toImageData(job.image), job))
+    case "encode":
+      return encodeStep(toImageData(job.image), job.encoder)
+    case "compress":
+      return compress(job)
+    case "compress-to-size":
+      return compressToSize(job)
+    case "metrics":
+      return measure(job)
+    case "transform":
+      return transform(job)
+    case "inspect-animation":
+      return inspectAnimation(await job.file.arrayBuffer())
+    case "compress-animation":
+      return compressAnimation(job)
+  }
+}
+
+const transferablesOf = (result: WorkerJobResults[WorkerJob["type"]]): Transferable[] => {
+  if ("buffer" in result) return [result.buffer]
+  if ("data" in result) return [result.data]
+  return []
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const { id, job } = event.data
+  let response: WorkerResponse
+
+  try {
+    const result = await runJob(job)
+    response = { id, ok: true, result }
+    self.postMessage(response, { transfer: transferablesOf(result) })
+  } catch (error) {
+    // Catalog messages travel as keys so the page can show them in the reader's language.
+    const message = error instanceof LocalizedError ? error.localized : error instanceof Error && error.message
+    response = { id, ok: false, error: message || { key: "errors.workerUnknown" } }
+    self.postMessage(response)
+  }
+}
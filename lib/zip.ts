@@ -0,0 +1,16 @@
+import { zipSync, strToU8 } from "fflate"
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array | string
+}
+
+export function buildZipArchive(entries: ZipEntry[]): Blob {
+  const files: Record<string, Uint8Array> = {}
+  for (const entry of entries) {
+    files[entry.name] = typeof entry.data === "string" ? strToU8(entry.data) : entry.data
+  }
+  // Encoded images are already compressed, so storing them is as small as deflating and much faster.
+  const archive = zipSync(files, { level: 0 })
+  return new Blob([archive as Uint8Array<ArrayBuffer>], { type: "application/zip" })
+}
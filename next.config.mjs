@@ -6,6 +6,7 @@ const nextConfig = {
   typescript: {
     ignoreBuildErrors: true,
   },
+  serverExternalPackages: ["@jsquash/avif", "@jsquash/jpeg", "@jsquash/png", "@jsquash/resize", "@jsquash/webp"],
   images: {
     unoptimized: true,
   },
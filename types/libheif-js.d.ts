@@ -0,0 +1,23 @@
+// The wasm-inlined ESM build ships without typings; this covers the parts we use.
+declare module "libheif-js/libheif-wasm/libheif-bundle.mjs" {
+  interface HeifImage {
+    get_width(): number
+    get_height(): number
+    is_primary(): boolean
+    display<T extends { data: Uint8ClampedArray; width: number; height: number }>(
+      target: T,
+      callback: (result: T | null) => void,
+    ): void
+    free(): void
+  }
+
+  interface HeifDecoder {
+    decode(buffer: ArrayBuffer | Uint8Array): HeifImage[]
+  }
+
+  interface Libheif {
+    HeifDecoder: new () => HeifDecoder
+  }
+
+  export default function libheif(options?: Record<string, unknown>): Libheif
+}
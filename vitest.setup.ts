@@ -0,0 +1,22 @@
+// Node has no ImageData; the pixel code only needs its shape.
+if (typeof globalThis.ImageData === "undefined") {
+  class ImageDataShim {
+    readonly data: Uint8ClampedArray
+    readonly width: number
+    readonly height: number
+    readonly colorSpace = "srgb"
+
+    constructor(dataOrWidth: Uint8ClampedArray | number, width: number, height?: number) {
+      if (typeof dataOrWidth === "number") {
+        this.width = dataOrWidth
+        this.height = width
+        this.data = new Uint8ClampedArray(dataOrWidth * width * 4)
+      } else {
+        this.data = dataOrWidth
+        this.width = width
+        this.height = height ?? dataOrWidth.length / 4 / width
+      }
+    }
+  }
+  globalThis.ImageData = ImageDataShim as unknown as typeof ImageData
+}